@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AuthBroadcast } from './AuthBroadcast';
+import type { AuthBroadcastEvent } from './AuthBroadcast';
+
+/**
+ * Resolves with the next event delivered to a tab
+ */
+const nextEvent = (tab: AuthBroadcast) =>
+  new Promise<AuthBroadcastEvent>((resolve) => {
+    const unsubscribe = tab.subscribe((event) => {
+      unsubscribe();
+      resolve(event);
+    });
+  });
+
+describe('AuthBroadcast', () => {
+  const tabs: AuthBroadcast[] = [];
+  const openTab = (name = 'yomo-auth-test') => {
+    const tab = new AuthBroadcast(name);
+    tabs.push(tab);
+    return tab;
+  };
+
+  afterEach(() => {
+    tabs.splice(0).forEach((tab) => tab.close());
+    vi.unstubAllGlobals();
+  });
+
+  it('delivers events to other tabs but not to the one that posted them', async () => {
+    const sender = openTab();
+    const receiver = openTab();
+    const own = vi.fn();
+    sender.subscribe(own);
+
+    const received = nextEvent(receiver);
+    sender.post('refresh');
+
+    expect(await received).toEqual({ type: 'refresh', at: expect.any(Number) });
+    expect(own).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering events after unsubscribing', async () => {
+    const sender = openTab();
+    const receiver = openTab();
+    const callback = vi.fn();
+
+    receiver.subscribe(callback)();
+    const received = nextEvent(receiver);
+    sender.post('logout');
+    await received;
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('runs withLock tasks under a Web Lock named after the channel', async () => {
+    const request = vi.fn((_name: string, task: () => Promise<unknown>) => task());
+    vi.stubGlobal('navigator', { locks: { request } });
+
+    await expect(openTab('yomo-auth').withLock(async () => 'done')).resolves.toBe('done');
+    expect(request).toHaveBeenCalledWith('yomo-auth', expect.any(Function));
+  });
+
+  it('runs withLock tasks directly without the Web Locks API', async () => {
+    vi.stubGlobal('navigator', undefined);
+
+    await expect(openTab().withLock(async () => 'done')).resolves.toBe('done');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Auth event shared between tabs
+ */
+export interface AuthBroadcastEvent {
+  type: 'login' | 'logout' | 'refresh';
+  /** Epoch ms when the event happened */
+  at: number;
+}
+
+/**
+ * Cross-tab auth event bus on top of BroadcastChannel
+ *
+ * Falls back to a no-op where BroadcastChannel is unavailable (older Safari, SSR).
+ * Messages are never delivered to the tab that posted them.
+ */
+export class AuthBroadcast {
+  private readonly channel: BroadcastChannel | null;
+
+  /**
+   * @param name - Channel name, also used for the Web Lock of withLock (default: 'yomo-auth')
+   */
+  constructor(private readonly name: string = 'yomo-auth') {
+    this.channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(name) : null;
+  }
+
+  /**
+   * Notifies other tabs about an auth event
+   * @param type - The event type
+   */
+  post(type: AuthBroadcastEvent['type']): void {
+    this.channel?.postMessage({ type, at: Date.now() } satisfies AuthBroadcastEvent);
+  }
+
+  /**
+   * Subscribes to auth events from other tabs
+   * @param callback - Called for each event
+   * @returns Cleanup function to unsubscribe
+   */
+  subscribe(callback: (event: AuthBroadcastEvent) => void): () => void {
+    const handler = (message: MessageEvent<AuthBroadcastEvent>) => callback(message.data);
+    this.channel?.addEventListener('message', handler);
+
+    return () => {
+      this.channel?.removeEventListener('message', handler);
+    };
+  }
+
+  /**
+   * Runs a task while holding a lock shared by all tabs (e.g. a token refresh,
+   * so only one tab uses the refresh token at a time)
+   *
+   * Runs the task directly where the Web Locks API is unavailable.
+   * @param task - The task to run
+   * @returns Promise resolving to the task's result
+   */
+  async withLock<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return task();
+    }
+
+    return navigator.locks.request(this.name, task);
+  }
+
+  /**
+   * Closes the channel
+   */
+  close(): void {
+    this.channel?.close();
+  }
+}
@@ -22,6 +22,9 @@ export interface LoginCredentials {
     id: string;
     email: string;
     username?: string;
+    avatar_url?: string;
+    /** Whether the email address has been confirmed (gate posting moments on this) */
+    email_verified: boolean;
     created_at: string;
   }
   
@@ -34,6 +37,133 @@ export interface LoginCredentials {
     expires_at: number;
   }
   
+  /**
+   * A signed-in device/browser of the current user
+   */
+  export interface ActiveSession {
+    id: string;
+    /** Human readable device, e.g. "iPhone · Safari" */
+    device: string;
+    user_agent: string;
+    ip?: string;
+    created_at: string;
+    last_seen_at: string;
+    /** True for the session of this browser */
+    current: boolean;
+  }
+  
+  /**
+   * Multi-factor authentication factor (TOTP authenticator app)
+   */
+  export interface MfaFactor {
+    id: string;
+    type: 'totp';
+    friendly_name?: string;
+    /** 'unverified' until the first code is confirmed via verifyMfaEnrollment */
+    status: 'verified' | 'unverified';
+    created_at: string;
+  }
+  
+  /**
+   * Result of starting MFA enrollment
+   */
+  export interface MfaEnrollment {
+    factorId: string;
+    /** otpauth:// URI for authenticator apps */
+    uri: string;
+    /** Base32 secret for manual entry */
+    secret: string;
+    /** QR code image (SVG data URI) if the backend renders one */
+    qrCode?: string;
+  }
+  
+  /**
+   * Pending second-factor challenge returned by a sign-in
+   */
+  export interface MfaChallenge {
+    factorId: string;
+    challengeId: string;
+    /** Verified factors the user can choose from */
+    factors: MfaFactor[];
+  }
+  
+  /**
+   * Result of a sign-in (password, one-time code, link, OAuth or password reset)
+   * - 'authenticated': session is complete
+   * - 'mfa_required': a TOTP code must be verified with verifyMfaChallenge
+   */
+  export type LoginResult =
+    | { status: 'authenticated'; user: User }
+    | { status: 'mfa_required'; challenge: MfaChallenge };
+  
+  /**
+   * Passwordless sign-in method
+   * - 'magic_link': email contains a link that completes sign-in
+   * - 'code': email contains a one-time code to enter in the app
+   */
+  export type PasswordlessMethod = 'magic_link' | 'code';
+  
+  /**
+   * Request for a passwordless sign-in email
+   */
+  export interface PasswordlessRequest {
+    email: string;
+    /** Method to use (default: 'magic_link') */
+    method?: PasswordlessMethod;
+    /** Where the magic link should redirect to (default: current origin) */
+    redirectTo?: string;
+    /** Create the account if it doesn't exist yet (default: true) */
+    shouldCreateUser?: boolean;
+  }
+  
+  /**
+   * One-time code verification payload
+   */
+  export interface OtpVerification {
+    email: string;
+    token: string;
+  }
+  
+  /**
+   * Password change payload
+   */
+  export interface PasswordUpdate {
+    /** Current password; when given it is re-checked before the change */
+    currentPassword?: string;
+    newPassword: string;
+  }
+  
+  /**
+   * Supported OAuth providers
+   */
+  export type OAuthProvider = 'google' | 'apple' | 'github';
+  
+  /**
+   * Default list of OAuth providers offered in the UI
+   */
+  export const DEFAULT_OAUTH_PROVIDERS: OAuthProvider[] = ['google', 'apple', 'github'];
+  
+  /**
+   * Options for OAuth sign-in and identity linking
+   */
+  export interface OAuthOptions {
+    /** Where the provider should redirect back to (default: current origin) */
+    redirectTo?: string;
+    /** Additional provider scopes (space separated) */
+    scopes?: string;
+  }
+  
+  /**
+   * Identity linked to an account (email/password or an OAuth provider)
+   */
+  export interface Identity {
+    id: string;
+    provider: OAuthProvider | 'email';
+    email?: string;
+    created_at: string;
+    last_sign_in_at?: string;
+  }
+  
   /**
    * Auth state change callback function type
    */
@@ -44,19 +174,64 @@ export interface LoginCredentials {
    * 
    * This interface defines the contract for authentication operations,
    * allowing for easy swapping of auth providers (Supabase → Base SDK in Phase 3)
+   * 
+   * Implementations throw AppError subclasses from ../errors (AuthError,
+   * ValidationError, ConflictError, NotFoundError, NetworkError) with stable codes.
    */
   export interface AuthService {
     /**
      * Authenticates a user with email and password
+     * 
+     * Accounts with a verified MFA factor get 'mfa_required' and are only
+     * signed in after verifyMfaChallenge succeeds.
+     * 
      * @param credentials - User login credentials
+     * @returns Promise resolving to the login result
+     * @throws AuthError if authentication fails
+     */
+    login(credentials: LoginCredentials): Promise<LoginResult>;
+  
+    /**
+     * Completes an MFA login with a TOTP code
+     * @param challenge - The challenge from login
+     * @param code - 6-digit code from the authenticator app
      * @returns Promise resolving to authenticated user
-     * @throws Error if authentication fails
+     * @throws AuthError if the code is invalid or the challenge has expired
      */
-    login(credentials: LoginCredentials): Promise<User>;
+    verifyMfaChallenge(challenge: MfaChallenge, code: string): Promise<User>;
+  
+    /**
+     * Starts TOTP enrollment for the signed-in user
+     * @param friendlyName - Optional label for the factor (e.g. "Phone")
+     * @returns Promise resolving to the otpauth URI / QR code to scan
+     * @throws AuthError if not authenticated
+     */
+    enrollMfa(friendlyName?: string): Promise<MfaEnrollment>;
+  
+    /**
+     * Confirms enrollment with the first code from the authenticator app
+     * @param factorId - The factor from enrollMfa
+     * @param code - 6-digit code
+     * @throws AuthError if the code is invalid
+     */
+    verifyMfaEnrollment(factorId: string, code: string): Promise<void>;
+  
+    /**
+     * Lists the MFA factors of the signed-in user
+     * @returns Promise resolving to factors (empty if not authenticated)
+     */
+    listMfaFactors(): Promise<MfaFactor[]>;
+  
+    /**
+     * Removes an MFA factor from the signed-in user
+     * @param factorId - The factor ID
+     * @throws AuthError if the factor doesn't exist
+     */
+    removeMfaFactor(factorId: string): Promise<void>;
   
     /**
      * Signs out the current user and clears session
-     * @throws Error if logout fails
+     * @throws AuthError if logout fails
      */
     logout(): Promise<void>;
   
@@ -64,10 +239,140 @@ export interface LoginCredentials {
      * Creates a new user account
      * @param credentials - User signup credentials
      * @returns Promise resolving to created user
-     * @throws Error if signup fails
+     * @throws AuthError if signup fails
      */
     signup(credentials: SignupCredentials): Promise<User>;
   
+    /**
+     * Sends a magic link or one-time code to the given email
+     * @param request - Email and passwordless method
+     * @throws AuthError if the email cannot be sent
+     */
+    requestPasswordlessLogin(request: PasswordlessRequest): Promise<void>;
+  
+    /**
+     * Verifies a one-time code sent by requestPasswordlessLogin
+     * 
+     * Like login, returns a challenge instead of the user if the account has MFA enabled.
+     * 
+     * @param verification - Email and code entered by the user
+     * @returns Promise resolving to the login result
+     * @throws AuthError if the code is invalid or expired
+     */
+    verifyOtp(verification: OtpVerification): Promise<LoginResult>;
+  
+    /**
+     * Completes a session from a magic link or OAuth redirect URL
+     * 
+     * Like login, returns a challenge instead of the user if the account has MFA enabled.
+     * 
+     * @param url - The URL to read tokens/codes from (default: window.location.href)
+     * @returns Promise resolving to the login result, or null if the URL carries no auth data
+     * @throws AuthError if the link is invalid or expired
+     */
+    completeSessionFromUrl(url?: string): Promise<LoginResult | null>;
+  
+    /**
+     * Returns the OAuth providers enabled for this service
+     */
+    getOAuthProviders(): OAuthProvider[];
+  
+    /**
+     * Starts OAuth sign-in by redirecting to the provider
+     * 
+     * The provider redirects back to `redirectTo`; completeSessionFromUrl finishes the flow.
+     * 
+     * @param provider - The OAuth provider
+     * @param options - Redirect and scope options
+     * @throws AuthError if the provider is not enabled or the redirect cannot be started
+     */
+    signInWithOAuth(provider: OAuthProvider, options?: OAuthOptions): Promise<void>;
+  
+    /**
+     * Links an additional OAuth identity to the current account (redirects to the provider)
+     * @param provider - The OAuth provider
+     * @param options - Redirect and scope options
+     * @throws AuthError if not authenticated or the provider is not enabled
+     */
+    linkIdentity(provider: OAuthProvider, options?: OAuthOptions): Promise<void>;
+  
+    /**
+     * Removes a linked identity from the current account
+     * @param identityId - The identity ID (from getIdentities)
+     * @throws NotFoundError if the identity doesn't exist, ConflictError if it is the last one
+     */
+    unlinkIdentity(identityId: string): Promise<void>;
+  
+    /**
+     * Lists identities linked to the current account
+     * @returns Promise resolving to linked identities (empty if not authenticated)
+     */
+    getIdentities(): Promise<Identity[]>;
+  
+    /**
+     * Sends a password reset email
+     * @param email - The account's email address
+     * @param redirectTo - Page the reset link should open (default: current origin)
+     * @throws AuthError if the email cannot be sent
+     */
+    requestPasswordReset(email: string, redirectTo?: string): Promise<void>;
+  
+    /**
+     * Sets a new password after following the reset link
+     * 
+     * Completes the recovery session from the URL first if needed. If the account
+     * has MFA enabled, a challenge is returned and the password is left unchanged;
+     * call again once verifyMfaChallenge has succeeded.
+     * 
+     * @param newPassword - The new password
+     * @param url - Reset link URL (default: window.location.href)
+     * @returns Promise resolving to the login result
+     * @throws AuthError if the link is invalid/expired or the password is rejected
+     */
+    completePasswordReset(newPassword: string, url?: string): Promise<LoginResult>;
+  
+    /**
+     * Changes the password of the signed-in user
+     * @param update - New password (and optionally the current one)
+     * @throws AuthError if not authenticated, the current password is wrong or the new one is rejected
+     */
+    updatePassword(update: PasswordUpdate): Promise<void>;
+  
+    /**
+     * Starts an email change; the new address must be confirmed via the emailed link
+     * @param newEmail - The new email address
+     * @param redirectTo - Page the confirmation link should open (default: current origin)
+     * @throws AuthError if not authenticated, ConflictError if the address is taken
+     */
+    requestEmailChange(newEmail: string, redirectTo?: string): Promise<void>;
+  
+    /**
+     * Re-sends the signup verification email
+     * @param email - Email to verify (default: the signed-in user's email)
+     * @throws AuthError if there is no email to verify or sending fails
+     */
+    resendVerification(email?: string): Promise<void>;
+  
+    /**
+     * Lists all active sessions (devices) of the signed-in user
+     * @returns Promise resolving to sessions, most recently seen first
+     * @throws AuthError if not authenticated
+     */
+    listSessions(): Promise<ActiveSession[]>;
+  
+    /**
+     * Revokes a single session (signs that device out)
+     * @param sessionId - The session ID from listSessions
+     * @throws AuthError if the session doesn't exist
+     */
+    revokeSession(sessionId: string): Promise<void>;
+  
+    /**
+     * Signs out every session except the current one
+     * @throws AuthError if not authenticated
+     */
+    signOutOtherSessions(): Promise<void>;
+  
     /**
      * Retrieves the current session
      * @returns Promise resolving to current session or null if not authenticated
@@ -82,15 +387,23 @@ export interface LoginCredentials {
   
     /**
      * Refreshes the authentication token
-     * @throws Error if token refresh fails
+     * @throws AuthError if token refresh fails
      */
     refreshToken(): Promise<void>;
   
     /**
      * Registers a callback for auth state changes
      * @param callback - Function to call when auth state changes
+     * @returns Function that removes the callback again
+     */
+    onAuthStateChange(callback: AuthStateChangeCallback): () => void;
+  
+    /**
+     * Removes every auth state callback and stops listening to other tabs
+     * 
+     * Registering a callback again resumes listening.
      */
-    onAuthStateChange(callback: AuthStateChangeCallback): void;
+    dispose(): void;
   }
   
   
\ No newline at end of file
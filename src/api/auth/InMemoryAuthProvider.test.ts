@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryAuthProvider, type SentAuthEmail } from './InMemoryAuthProvider';
+import { generateTotp } from './totp';
+import type { LoginResult } from './AuthService';
+
+const credentials = { email: 'ada@example.com', password: 'correct horse' };
+
+describe('InMemoryAuthProvider', () => {
+  let emails: SentAuthEmail[];
+  let auth: InMemoryAuthProvider;
+
+  beforeEach(() => {
+    emails = [];
+    auth = new InMemoryAuthProvider({ onEmailSent: (email) => emails.push(email) });
+  });
+
+  const lastEmail = () => emails[emails.length - 1];
+
+  it('signs in with email and password', async () => {
+    await auth.signup(credentials);
+    await auth.logout();
+
+    const result = await auth.login(credentials);
+
+    expect(result).toMatchObject({ status: 'authenticated', user: { email: credentials.email } });
+    expect(await auth.getUser()).not.toBeNull();
+  });
+
+  it('rejects a wrong password', async () => {
+    await auth.signup(credentials);
+    await auth.logout();
+
+    await expect(auth.login({ ...credentials, password: 'wrong' })).rejects.toMatchObject({ code: 'auth/invalid_credentials' });
+  });
+
+  it('matches a one-time code to the email regardless of case and surrounding whitespace', async () => {
+    await auth.signup(credentials);
+    await auth.logout();
+
+    await auth.requestPasswordlessLogin({ email: ' Ada@Example.com', method: 'code' });
+    const result = await auth.verifyOtp({ email: 'ADA@example.com ', token: lastEmail().code! });
+
+    expect(result).toMatchObject({ status: 'authenticated', user: { email: credentials.email } });
+  });
+
+  describe('with a verified TOTP factor', () => {
+    let secret: string;
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await auth.signup(credentials);
+      const enrollment = await auth.enrollMfa('Phone');
+      await auth.verifyMfaEnrollment(enrollment.factorId, await generateTotp(enrollment.secret));
+      secret = enrollment.secret;
+      await auth.logout();
+      // The enrollment code's step is used up; move on to the next one
+      vi.setSystemTime(Date.now() + 30_000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const expectChallenge = async (result: LoginResult | null) => {
+      expect(result?.status).toBe('mfa_required');
+      expect(await auth.getUser()).toBeNull();
+
+      if (result?.status !== 'mfa_required') {
+        throw new Error('Expected an MFA challenge');
+      }
+      return auth.verifyMfaChallenge(result.challenge, await generateTotp(secret));
+    };
+
+    it('requires the second factor after a password login', async () => {
+      const user = await expectChallenge(await auth.login(credentials));
+
+      expect(user.email).toBe(credentials.email);
+      expect(await auth.getUser()).not.toBeNull();
+    });
+
+    it('requires the second factor after a one-time code', async () => {
+      await auth.requestPasswordlessLogin({ email: credentials.email, method: 'code' });
+
+      await expectChallenge(await auth.verifyOtp({ email: credentials.email, token: lastEmail().code! }));
+    });
+
+    it('requires the second factor after a magic link', async () => {
+      await auth.requestPasswordlessLogin({ email: credentials.email, redirectTo: 'http://localhost/' });
+
+      await expectChallenge(await auth.completeSessionFromUrl(lastEmail().link));
+    });
+
+    it('changes the password on reset only once the second factor is verified', async () => {
+      await auth.requestPasswordReset(credentials.email, 'http://localhost/reset');
+      const newPassword = 'battery staple';
+
+      await expectChallenge(await auth.completePasswordReset(newPassword, lastEmail().link));
+      await expect(auth.login({ ...credentials, password: newPassword })).rejects.toMatchObject({ code: 'auth/invalid_credentials' });
+
+      const result = await auth.completePasswordReset(newPassword);
+      expect(result.status).toBe('authenticated');
+      await auth.logout();
+      expect((await auth.login({ ...credentials, password: newPassword })).status).toBe('mfa_required');
+    });
+
+    it('rejects a wrong TOTP code', async () => {
+      const result = await auth.login(credentials);
+      if (result.status !== 'mfa_required') {
+        throw new Error('Expected an MFA challenge');
+      }
+
+      await expect(auth.verifyMfaChallenge(result.challenge, '000000')).rejects.toMatchObject({ code: 'auth/mfa_verification_failed' });
+      expect(await auth.getUser()).toBeNull();
+    });
+
+    it('rejects a code that was already accepted, within its window', async () => {
+      const code = await generateTotp(secret);
+      const first = await auth.login(credentials);
+      if (first.status !== 'mfa_required') {
+        throw new Error('Expected an MFA challenge');
+      }
+      await auth.verifyMfaChallenge(first.challenge, code);
+      await auth.logout();
+
+      vi.setSystemTime(Date.now() + 20_000);
+      const second = await auth.login(credentials);
+      if (second.status !== 'mfa_required') {
+        throw new Error('Expected an MFA challenge');
+      }
+
+      await expect(auth.verifyMfaChallenge(second.challenge, code)).rejects.toMatchObject({ code: 'auth/mfa_verification_failed' });
+      vi.setSystemTime(Date.now() + 30_000);
+      await expect(auth.verifyMfaChallenge(second.challenge, await generateTotp(secret))).resolves.toMatchObject({ email: credentials.email });
+    });
+  });
+});
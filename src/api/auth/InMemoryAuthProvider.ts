@@ -0,0 +1,1185 @@
+import { AuthError, ConflictError, NotFoundError, ValidationError, toAppError } from '../errors';
+import { DEFAULT_OAUTH_PROVIDERS } from './AuthService';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from './totp';
+import { describeUserAgent } from './deviceInfo';
+import type {
+  AuthService,
+  OAuthProvider,
+  OAuthOptions,
+  Identity,
+  LoginCredentials,
+  SignupCredentials,
+  PasswordlessRequest,
+  OtpVerification,
+  PasswordUpdate,
+  ActiveSession,
+  LoginResult,
+  MfaChallenge,
+  MfaEnrollment,
+  MfaFactor,
+  User,
+  Session,
+  AuthStateChangeCallback
+} from './AuthService';
+
+/**
+ * Stored user record (never leaves the provider)
+ */
+interface StoredUser {
+  user: User;
+  passwordHash: string;
+  salt: string;
+  identities: StoredIdentity[];
+  factors: StoredFactor[];
+}
+
+/**
+ * TOTP factor with its secret
+ */
+interface StoredFactor extends MfaFactor {
+  secret: string;
+  /** Time step of the last accepted code (codes at or below it are replays) */
+  last_step?: number;
+}
+
+/**
+ * Issued MFA login challenge
+ */
+interface PendingChallenge {
+  id: string;
+  factor_id: string;
+  user_id: string;
+  expires_at: number;
+}
+
+/**
+ * Linked identity with the provider's subject ID
+ */
+interface StoredIdentity extends Identity {
+  subject: string;
+}
+
+/**
+ * OAuth redirect waiting for its callback
+ */
+interface PendingOAuth {
+  state: string;
+  provider: OAuthProvider;
+  /** Set when linking to an existing account */
+  link_user_id?: string;
+}
+
+/**
+ * Stored session record
+ */
+interface StoredSession extends Session {
+  id: string;
+  user_id: string;
+}
+
+/**
+ * Server-side record of a session (one per signed-in device)
+ */
+interface SessionRecord {
+  id: string;
+  user_id: string;
+  user_agent: string;
+  created_at: string;
+  last_seen_at: string;
+}
+
+/**
+ * Pending one-time code or magic link token
+ */
+interface PendingOtp {
+  type: EmailActionType;
+  email: string;
+  token: string;
+  expires_at: number;
+  /** Address to switch to (email_change only) */
+  new_email?: string;
+}
+
+/**
+ * What an emailed link/code is for
+ */
+export type EmailActionType = 'magiclink' | 'signup' | 'recovery' | 'email_change';
+
+/**
+ * Serializable provider state
+ */
+interface AuthState {
+  users: StoredUser[];
+  /** Session of this device (persisted under sessionStorageKey) */
+  session: StoredSession | null;
+  sessions: SessionRecord[];
+  otps: PendingOtp[];
+  oauth: PendingOAuth[];
+}
+
+/**
+ * Endpoints of a (mock) OAuth server used by the in-memory provider
+ *
+ * signInWithOAuth redirects to `{authorizeUrl}?provider=&redirect_uri=&state=`; the server
+ * redirects back with `?code=&state=`, and the code is exchanged by POSTing
+ * `{ code, provider }` to tokenUrl, which must answer with OAuthProfile JSON.
+ */
+export interface MockOAuthConfig {
+  authorizeUrl: string;
+  tokenUrl: string;
+}
+
+/**
+ * Profile returned by the mock OAuth token endpoint
+ */
+export interface OAuthProfile {
+  sub: string;
+  email: string;
+  name?: string;
+  avatar_url?: string;
+}
+
+/**
+ * Email the in-memory provider would have sent
+ */
+export interface SentAuthEmail {
+  type: EmailActionType;
+  to: string;
+  /** One-time code (code method) */
+  code?: string;
+  /** Magic link URL (magic_link method) */
+  link?: string;
+}
+
+/**
+ * Options for the in-memory auth provider
+ */
+export interface InMemoryAuthProviderOptions {
+  /** Storage to persist users and session in (e.g. window.localStorage). Omit for memory only. */
+  storage?: Storage;
+  /** Key used in storage (default: 'yomo-auth') */
+  storageKey?: string;
+  /**
+   * Key for this device's session (default: '{storageKey}:session'). Two providers
+   * sharing a storage but using different keys behave like two devices.
+   */
+  sessionStorageKey?: string;
+  /** User agent recorded for sessions (default: navigator.userAgent) */
+  userAgent?: string;
+  /** Session lifetime in seconds (default: 3600) */
+  sessionTTL?: number;
+  /** Receives auth emails instead of a mail server (default: dropped; pass a logger in development) */
+  onEmailSent?: (email: SentAuthEmail) => void;
+  /** OAuth server to use for signInWithOAuth/linkIdentity (OAuth is disabled without it) */
+  oauth?: MockOAuthConfig;
+  /** Enabled OAuth providers (default: google, apple, github) */
+  oauthProviders?: OAuthProvider[];
+  /** Navigates to the authorize URL (default: window.location.assign) */
+  redirect?: (url: string) => void;
+}
+
+/**
+ * One-time codes and magic links are valid for 10 minutes
+ */
+const OTP_TTL_SECONDS = 10 * 60;
+
+/**
+ * MFA login challenges are valid for 5 minutes
+ */
+const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+/**
+ * In-memory implementation of AuthService
+ *
+ * Keeps users, salted password hashes and the current session locally, optionally
+ * persisted to localStorage. Intended for offline development and tests where no
+ * Supabase project is available.
+ */
+export class InMemoryAuthProvider implements AuthService {
+  private state: AuthState;
+  private listeners = new Set<AuthStateChangeCallback>();
+  private storageListener: ((event: StorageEvent) => void) | null = null;
+  private challenges = new Map<string, PendingChallenge>();
+  private readonly storage?: Storage;
+  private readonly storageKey: string;
+  private readonly sessionStorageKey: string;
+  private readonly userAgent: string;
+  private readonly sessionTTL: number;
+  private readonly onEmailSent: (email: SentAuthEmail) => void;
+  private readonly oauth?: MockOAuthConfig;
+  private readonly oauthProviders: OAuthProvider[];
+  private readonly redirect: (url: string) => void;
+
+  constructor(options: InMemoryAuthProviderOptions = {}) {
+    this.storage = options.storage;
+    this.storageKey = options.storageKey ?? 'yomo-auth';
+    this.sessionStorageKey = options.sessionStorageKey ?? `${this.storageKey}:session`;
+    this.userAgent = options.userAgent ?? (typeof navigator !== 'undefined' ? navigator.userAgent : 'node');
+    this.sessionTTL = options.sessionTTL ?? 3600;
+    this.onEmailSent = options.onEmailSent ?? (() => {});
+    this.oauth = options.oauth;
+    this.oauthProviders = options.oauthProviders ?? DEFAULT_OAUTH_PROVIDERS;
+    this.redirect = options.redirect ?? ((url) => window.location.assign(url));
+    this.state = this.load();
+    this.listenToOtherTabs();
+  }
+
+  /**
+   * Authenticates a user with email and password
+   * 
+   * With a verified TOTP factor no session is started until verifyMfaChallenge succeeds.
+   * 
+   * @param credentials - User login credentials
+   * @returns Promise resolving to the login result
+   * @throws Error if authentication fails
+   */
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
+    const stored = this.findByEmail(credentials.email);
+
+    if (!stored || (await hashPassword(credentials.password, stored.salt)) !== stored.passwordHash) {
+      throw new AuthError('auth/invalid_credentials', 'Login failed: Invalid login credentials');
+    }
+
+    return this.signIn(stored);
+  }
+
+  /**
+   * Completes an MFA login with a TOTP code
+   * @param challenge - The challenge from login
+   * @param code - 6-digit code from the authenticator app
+   * @returns Promise resolving to authenticated user
+   * @throws Error if the code is invalid or the challenge has expired
+   */
+  async verifyMfaChallenge(challenge: MfaChallenge, code: string): Promise<User> {
+    const pending = this.challenges.get(challenge.challengeId);
+
+    if (!pending || pending.expires_at <= nowSeconds()) {
+      this.challenges.delete(challenge.challengeId);
+      throw new AuthError('auth/mfa_challenge_expired', 'MFA verification failed: Challenge has expired');
+    }
+
+    const stored = this.state.users.find((entry) => entry.user.id === pending.user_id);
+    // The user may pick another of their verified factors
+    const factor = stored?.factors.find((entry) => entry.id === challenge.factorId && entry.status === 'verified');
+
+    const step = factor ? await verifyTotp(factor.secret, code, factor.last_step) : null;
+
+    if (!stored || !factor || step === null) {
+      throw new AuthError('auth/mfa_verification_failed', 'MFA verification failed: Invalid TOTP code entered');
+    }
+
+    factor.last_step = step;
+    this.challenges.delete(pending.id);
+    this.startSession(stored.user);
+    return { ...stored.user };
+  }
+
+  /**
+   * Starts TOTP enrollment for the signed-in user
+   * @param friendlyName - Optional label for the factor (e.g. "Phone")
+   * @returns Promise resolving to the otpauth URI and secret (no QR rendering offline)
+   * @throws Error if not authenticated
+   */
+  async enrollMfa(friendlyName?: string): Promise<MfaEnrollment> {
+    const stored = this.currentUser();
+
+    if (!stored) {
+      throw new AuthError('auth/not_authenticated', 'MFA enrollment failed: Not authenticated');
+    }
+
+    const factor: StoredFactor = {
+      id: randomId(),
+      type: 'totp',
+      friendly_name: friendlyName,
+      status: 'unverified',
+      created_at: new Date().toISOString(),
+      secret: generateTotpSecret()
+    };
+
+    // Abandoned enrollments are replaced, like Supabase does for unverified factors
+    stored.factors = stored.factors.filter((entry) => entry.status === 'verified');
+    stored.factors.push(factor);
+    this.persist();
+
+    return {
+      factorId: factor.id,
+      uri: buildOtpAuthUri(factor.secret, stored.user.email),
+      secret: factor.secret
+    };
+  }
+
+  /**
+   * Confirms enrollment with the first code from the authenticator app
+   * @param factorId - The factor from enrollMfa
+   * @param code - 6-digit code
+   * @throws Error if the code is invalid
+   */
+  async verifyMfaEnrollment(factorId: string, code: string): Promise<void> {
+    const factor = this.currentUser()?.factors.find((entry) => entry.id === factorId);
+
+    if (!factor) {
+      throw new NotFoundError('auth/mfa_factor_not_found', 'MFA enrollment verification failed: Factor not found');
+    }
+
+    const step = await verifyTotp(factor.secret, code, factor.last_step);
+
+    if (step === null) {
+      throw new AuthError('auth/mfa_verification_failed', 'MFA enrollment verification failed: Invalid TOTP code entered');
+    }
+
+    factor.status = 'verified';
+    factor.last_step = step;
+    this.persist();
+  }
+
+  /**
+   * Lists the MFA factors of the signed-in user
+   * @returns Promise resolving to factors (empty if not authenticated)
+   */
+  async listMfaFactors(): Promise<MfaFactor[]> {
+    return (this.currentUser()?.factors ?? []).map(toPublicFactor);
+  }
+
+  /**
+   * Removes an MFA factor from the signed-in user
+   * @param factorId - The factor ID
+   * @throws Error if the factor doesn't exist
+   */
+  async removeMfaFactor(factorId: string): Promise<void> {
+    const stored = this.currentUser();
+
+    if (!stored?.factors.some((entry) => entry.id === factorId)) {
+      throw new NotFoundError('auth/mfa_factor_not_found', 'Remove MFA factor failed: Factor not found');
+    }
+
+    stored.factors = stored.factors.filter((entry) => entry.id !== factorId);
+    this.persist();
+  }
+
+  /**
+   * Signs out the current user and clears session
+   */
+  async logout(): Promise<void> {
+    const session = this.state.session;
+    this.state.sessions = this.state.sessions.filter((record) => record.id !== session?.id);
+    this.state.session = null;
+    this.persist();
+    this.notify(null);
+  }
+
+  /**
+   * Creates a new user account and signs it in
+   * @param credentials - User signup credentials
+   * @returns Promise resolving to created user
+   * @throws Error if signup fails
+   */
+  async signup(credentials: SignupCredentials): Promise<User> {
+    if (!credentials.email || !credentials.password) {
+      throw new ValidationError('auth/validation_failed', 'Signup failed: Email and password are required');
+    }
+
+    if (this.findByEmail(credentials.email)) {
+      throw new ConflictError('auth/user_already_exists', 'Signup failed: User already registered');
+    }
+
+    const user = await this.createUser(credentials.email, credentials.password, {
+      username: credentials.username
+    });
+    this.sendLink('signup', credentials.email);
+    this.startSession(user);
+
+    return { ...user };
+  }
+
+  /**
+   * Issues a one-time code or magic link and hands it to onEmailSent
+   * @param request - Email and passwordless method
+   * @throws Error if the user doesn't exist and shouldCreateUser is false
+   */
+  async requestPasswordlessLogin(request: PasswordlessRequest): Promise<void> {
+    const { method = 'magic_link', shouldCreateUser = true } = request;
+
+    if (!this.findByEmail(request.email)) {
+      if (!shouldCreateUser) {
+        throw new AuthError('auth/otp_disabled', 'Passwordless request failed: Signups not allowed for otp');
+      }
+      await this.createUser(request.email, randomToken());
+    }
+
+    if (method === 'code') {
+      const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, '0');
+      this.issueOtp('magiclink', request.email, code);
+      this.onEmailSent({ type: 'magiclink', to: request.email, code });
+    } else {
+      this.sendLink('magiclink', request.email, request.redirectTo);
+    }
+  }
+
+  /**
+   * Verifies a one-time code sent by requestPasswordlessLogin
+   * @param verification - Email and code entered by the user
+   * @returns Promise resolving to the login result (MFA challenge if the user has a verified factor)
+   * @throws Error if the code is invalid or expired
+   */
+  async verifyOtp(verification: OtpVerification): Promise<LoginResult> {
+    const otp = this.consumeOtp((entry) =>
+      entry.type === 'magiclink'
+      && entry.email === normalizeEmail(verification.email)
+      && entry.token === verification.token
+    );
+    return this.signInFromOtp(otp);
+  }
+
+  /**
+   * Completes a session from an emailed link (?token_hash=...&type=...)
+   * 
+   * Handles magic links, signup verification, password recovery and email change links.
+   * 
+   * @param url - The URL to read the token from (default: window.location.href)
+   * @returns Promise resolving to the login result, or null if the URL carries no token
+   * @throws Error if the link is invalid or expired
+   */
+  async completeSessionFromUrl(url?: string): Promise<LoginResult | null> {
+    const href = url ?? (typeof window !== 'undefined' ? window.location.href : '');
+    const params = href ? new URL(href).searchParams : new URLSearchParams();
+    const tokenHash = params.get('token_hash');
+    const code = params.get('code');
+    const state = params.get('state');
+
+    if (code && state) {
+      return this.completeOAuth(code, state);
+    }
+
+    if (!tokenHash) {
+      return null;
+    }
+
+    const otp = this.consumeOtp((entry) => entry.token === tokenHash);
+    return this.signInFromOtp(otp);
+  }
+
+  /**
+   * Sends a password reset link
+   * @param email - The account's email address
+   * @param redirectTo - Page the reset link should open (default: current origin)
+   */
+  async requestPasswordReset(email: string, redirectTo?: string): Promise<void> {
+    // Like Supabase, don't reveal whether the account exists
+    if (this.findByEmail(email)) {
+      this.sendLink('recovery', email, redirectTo);
+    }
+  }
+
+  /**
+   * Sets a new password after following the reset link
+   * 
+   * With a verified TOTP factor the password is only changed once
+   * verifyMfaChallenge has started the session (call again then).
+   * 
+   * @param newPassword - The new password
+   * @param url - Reset link URL (default: window.location.href)
+   * @returns Promise resolving to the login result
+   * @throws Error if the link is invalid/expired
+   */
+  async completePasswordReset(newPassword: string, url?: string): Promise<LoginResult> {
+    if (!this.currentUser()) {
+      const recovered = await this.completeSessionFromUrl(url);
+      if (!recovered) {
+        throw new AuthError('auth/otp_expired', 'Password reset failed: Reset link is invalid or has expired');
+      }
+      if (recovered.status === 'mfa_required') {
+        return recovered;
+      }
+    }
+
+    const stored = this.currentUser();
+    if (!stored) {
+      throw new AuthError('auth/not_authenticated', 'Password reset failed: Not authenticated');
+    }
+
+    await this.setPassword(stored, newPassword);
+    return { status: 'authenticated', user: { ...stored.user } };
+  }
+
+  /**
+   * Changes the password of the signed-in user
+   * @param update - New password (and optionally the current one)
+   * @throws Error if not authenticated or the current password is wrong
+   */
+  async updatePassword(update: PasswordUpdate): Promise<void> {
+    const stored = this.currentUser();
+
+    if (!stored) {
+      throw new AuthError('auth/not_authenticated', 'Password update failed: Not authenticated');
+    }
+
+    if (
+      update.currentPassword !== undefined
+      && (await hashPassword(update.currentPassword, stored.salt)) !== stored.passwordHash
+    ) {
+      throw new AuthError('auth/invalid_credentials', 'Password update failed: Current password is incorrect');
+    }
+
+    await this.setPassword(stored, update.newPassword);
+  }
+
+  /**
+   * Sends a confirmation link to the new address; the change applies once it is opened
+   * @param newEmail - The new email address
+   * @param redirectTo - Page the confirmation link should open (default: current origin)
+   * @throws Error if not authenticated or the address is taken
+   */
+  async requestEmailChange(newEmail: string, redirectTo?: string): Promise<void> {
+    const stored = this.currentUser();
+
+    if (!stored) {
+      throw new AuthError('auth/not_authenticated', 'Email change failed: Not authenticated');
+    }
+
+    if (this.findByEmail(newEmail)) {
+      throw new ConflictError('auth/email_exists', 'Email change failed: A user with this email address has already been registered');
+    }
+
+    this.sendLink('email_change', stored.user.email, redirectTo, newEmail);
+  }
+
+  /**
+   * Re-sends the signup verification link
+   * @param email - Email to verify (default: the signed-in user's email)
+   * @throws Error if there is no such unverified account
+   */
+  async resendVerification(email?: string): Promise<void> {
+    const stored = email ? this.findByEmail(email) : this.currentUser();
+
+    if (!stored) {
+      throw new ValidationError('auth/email_required', 'Resend verification failed: No email address');
+    }
+
+    if (!stored.user.email_verified) {
+      this.sendLink('signup', stored.user.email);
+    }
+  }
+
+  /**
+   * Returns the OAuth providers enabled for this service (none without an OAuth server)
+   */
+  getOAuthProviders(): OAuthProvider[] {
+    return this.oauth ? [...this.oauthProviders] : [];
+  }
+
+  /**
+   * Redirects to the mock OAuth server's authorize endpoint
+   * @param provider - The OAuth provider
+   * @param options - Redirect options
+   * @throws Error if OAuth is not configured or the provider is not enabled
+   */
+  async signInWithOAuth(provider: OAuthProvider, options: OAuthOptions = {}): Promise<void> {
+    this.startOAuth(provider, options);
+  }
+
+  /**
+   * Redirects to the mock OAuth server to link an identity to the current account
+   * @param provider - The OAuth provider
+   * @param options - Redirect options
+   * @throws Error if not authenticated, OAuth is not configured or the provider is not enabled
+   */
+  async linkIdentity(provider: OAuthProvider, options: OAuthOptions = {}): Promise<void> {
+    const session = this.activeSession();
+
+    if (!session) {
+      throw new AuthError('auth/not_authenticated', 'Link identity failed: Not authenticated');
+    }
+
+    this.startOAuth(provider, options, session.user_id);
+  }
+
+  /**
+   * Removes a linked identity from the current account
+   * @param identityId - The identity ID (from getIdentities)
+   * @throws Error if the identity doesn't exist or is the last one
+   */
+  async unlinkIdentity(identityId: string): Promise<void> {
+    const stored = this.currentUser();
+
+    if (!stored) {
+      throw new AuthError('auth/not_authenticated', 'Unlink identity failed: Not authenticated');
+    }
+
+    if (!stored.identities.some((identity) => identity.id === identityId)) {
+      throw new NotFoundError('auth/identity_not_found', 'Unlink identity failed: Identity not found');
+    }
+
+    if (stored.identities.length < 2) {
+      throw new ConflictError('auth/single_identity_not_deletable', 'Unlink identity failed: Cannot remove the only identity');
+    }
+
+    stored.identities = stored.identities.filter((identity) => identity.id !== identityId);
+    this.persist();
+  }
+
+  /**
+   * Lists identities linked to the current account
+   * @returns Promise resolving to linked identities (empty if not authenticated)
+   */
+  async getIdentities(): Promise<Identity[]> {
+    return (this.currentUser()?.identities ?? []).map(({ subject: _subject, ...identity }) => identity);
+  }
+
+  /**
+   * Retrieves the current session
+   * @returns Promise resolving to current session or null if not authenticated or expired
+   */
+  async getSession(): Promise<Session | null> {
+    const session = this.activeSession();
+
+    if (!session) {
+      return null;
+    }
+
+    return {
+      access_token: session.access_token,
+      refresh_token: session.refresh_token,
+      expires_at: session.expires_at
+    };
+  }
+
+  /**
+   * Retrieves the current user
+   * @returns Promise resolving to current user or null if not authenticated
+   */
+  async getUser(): Promise<User | null> {
+    const session = this.activeSession();
+
+    if (!session) {
+      return null;
+    }
+
+    const stored = this.state.users.find((entry) => entry.user.id === session.user_id);
+    return stored ? { ...stored.user } : null;
+  }
+
+  /**
+   * Issues a new access token and extends the session
+   * @throws Error if there is no session to refresh
+   */
+  async refreshToken(): Promise<void> {
+    const session = this.activeSession();
+
+    if (!session) {
+      throw new AuthError('auth/session_not_found', 'Token refresh failed: No session');
+    }
+
+    const stored = this.state.users.find((entry) => entry.user.id === session.user_id);
+    if (!stored) {
+      throw new NotFoundError('auth/user_not_found', 'Token refresh failed: User not found');
+    }
+
+    this.startSession(stored.user, session.id);
+  }
+
+  /**
+   * Lists all active sessions (devices) of the signed-in user
+   * @returns Promise resolving to sessions, most recently seen first
+   * @throws Error if not authenticated
+   */
+  async listSessions(): Promise<ActiveSession[]> {
+    const session = this.activeSession();
+
+    if (!session) {
+      throw new AuthError('auth/not_authenticated', 'List sessions failed: Not authenticated');
+    }
+
+    return this.state.sessions
+      .filter((record) => record.user_id === session.user_id)
+      .map((record) => ({
+        id: record.id,
+        device: describeUserAgent(record.user_agent),
+        user_agent: record.user_agent,
+        created_at: record.created_at,
+        last_seen_at: record.last_seen_at,
+        current: record.id === session.id
+      }))
+      .sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at));
+  }
+
+  /**
+   * Revokes a single session (signs that device out)
+   * @param sessionId - The session ID from listSessions
+   * @throws Error if the session doesn't exist
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    const session = this.activeSession();
+
+    if (!session) {
+      throw new AuthError('auth/not_authenticated', 'Revoke session failed: Not authenticated');
+    }
+
+    if (!this.state.sessions.some((record) => record.id === sessionId && record.user_id === session.user_id)) {
+      throw new NotFoundError('auth/session_not_found', 'Revoke session failed: Session not found');
+    }
+
+    if (sessionId === session.id) {
+      await this.logout();
+      return;
+    }
+
+    this.state.sessions = this.state.sessions.filter((record) => record.id !== sessionId);
+    this.persist();
+  }
+
+  /**
+   * Signs out every session except the current one
+   * @throws Error if not authenticated
+   */
+  async signOutOtherSessions(): Promise<void> {
+    const session = this.activeSession();
+
+    if (!session) {
+      throw new AuthError('auth/not_authenticated', 'Sign out other sessions failed: Not authenticated');
+    }
+
+    this.state.sessions = this.state.sessions.filter(
+      (record) => record.user_id !== session.user_id || record.id === session.id
+    );
+    this.persist();
+  }
+
+  /**
+   * Registers a callback for auth state changes
+   * @param callback - Function to call when auth state changes
+   */
+  onAuthStateChange(callback: AuthStateChangeCallback): () => void {
+    this.listeners.add(callback);
+    this.listenToOtherTabs();
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Removes every auth state callback and the storage event listener
+   */
+  dispose(): void {
+    this.listeners.clear();
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener);
+      this.storageListener = null;
+    }
+  }
+
+  /**
+   * Picks up logins/logouts/refreshes written by other tabs (once)
+   */
+  private listenToOtherTabs(): void {
+    if (!this.storage || typeof window === 'undefined' || this.storageListener) {
+      return;
+    }
+
+    this.storageListener = (event) => {
+      if (
+        event.storageArea === this.storage
+        && (event.key === this.storageKey || event.key === this.sessionStorageKey)
+      ) {
+        this.state = this.load();
+        this.getUser().then((user) => this.notify(user));
+      }
+    };
+    window.addEventListener('storage', this.storageListener);
+  }
+
+  private startOAuth(provider: OAuthProvider, options: OAuthOptions, linkUserId?: string): void {
+    if (!this.oauth) {
+      throw new AuthError('auth/provider_disabled', 'OAuth sign-in failed: No OAuth server configured');
+    }
+
+    if (!this.oauthProviders.includes(provider)) {
+      throw new AuthError('auth/provider_disabled', `OAuth provider ${provider} is not enabled`);
+    }
+
+    const state = randomToken();
+    this.state.oauth.push({ state, provider, link_user_id: linkUserId });
+    this.persist();
+
+    const authorize = new URL(this.oauth.authorizeUrl);
+    authorize.searchParams.set('provider', provider);
+    authorize.searchParams.set('redirect_uri', options.redirectTo ?? window.location.origin);
+    authorize.searchParams.set('state', state);
+    if (options.scopes) {
+      authorize.searchParams.set('scope', options.scopes);
+    }
+
+    this.redirect(authorize.toString());
+  }
+
+  /**
+   * Exchanges the callback code with the mock server and signs in / links the identity
+   */
+  private async completeOAuth(code: string, state: string): Promise<LoginResult> {
+    const pending = this.state.oauth.find((entry) => entry.state === state);
+
+    if (!pending || !this.oauth) {
+      throw new AuthError('auth/bad_oauth_state', 'OAuth callback failed: Unknown state');
+    }
+
+    this.state.oauth = this.state.oauth.filter((entry) => entry !== pending);
+    this.persist();
+
+    const response = await fetch(this.oauth.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, provider: pending.provider })
+    }).catch((error: unknown) => {
+      throw toAppError(error, 'OAuth callback failed', 'auth');
+    });
+
+    if (!response.ok) {
+      throw new AuthError('auth/oauth_token_exchange_failed', `OAuth callback failed: Token exchange returned ${response.status}`, {
+        status: response.status,
+        retryable: response.status >= 500
+      });
+    }
+
+    const profile = (await response.json()) as OAuthProfile;
+    const owner = this.state.users.find((entry) =>
+      entry.identities.some((identity) => identity.provider === pending.provider && identity.subject === profile.sub)
+    );
+    const identity: StoredIdentity = {
+      id: randomId(),
+      provider: pending.provider,
+      subject: profile.sub,
+      email: profile.email,
+      created_at: new Date().toISOString(),
+      last_sign_in_at: new Date().toISOString()
+    };
+
+    if (pending.link_user_id) {
+      if (owner && owner.user.id !== pending.link_user_id) {
+        throw new ConflictError('auth/identity_already_exists', 'Link identity failed: Identity is already linked to another user');
+      }
+
+      const target = this.state.users.find((entry) => entry.user.id === pending.link_user_id);
+      if (!target) {
+        throw new NotFoundError('auth/user_not_found', 'Link identity failed: User not found');
+      }
+
+      if (!owner) {
+        target.identities.push(identity);
+      }
+      // Linking is started from a complete session, so no second factor is asked again
+      this.startSession(target.user);
+      return { status: 'authenticated', user: { ...target.user } };
+    }
+
+    let stored = owner ?? this.findByEmail(profile.email);
+    if (!stored) {
+      // The provider has verified the address
+      await this.createUser(profile.email, randomToken(), {
+        username: profile.name,
+        avatar_url: profile.avatar_url,
+        email_verified: true,
+        identity
+      });
+      stored = this.findByEmail(profile.email)!;
+    } else if (!owner) {
+      stored.identities.push(identity);
+    }
+
+    const linked = stored.identities.find((entry) => entry.provider === pending.provider && entry.subject === profile.sub);
+    if (linked) {
+      linked.last_sign_in_at = new Date().toISOString();
+    }
+    this.persist();
+
+    return this.signIn(stored);
+  }
+
+  private currentUser(): StoredUser | undefined {
+    const session = this.activeSession();
+    return session ? this.state.users.find((entry) => entry.user.id === session.user_id) : undefined;
+  }
+
+  /**
+   * Removes and returns a matching, unexpired OTP
+   */
+  private consumeOtp(match: (otp: PendingOtp) => boolean): PendingOtp {
+    const otp = this.state.otps.find(match);
+
+    if (!otp || otp.expires_at <= nowSeconds()) {
+      throw new AuthError('auth/otp_expired', 'OTP verification failed: Token has expired or is invalid');
+    }
+
+    this.state.otps = this.state.otps.filter((entry) => entry !== otp);
+    this.persist();
+    return otp;
+  }
+
+  /**
+   * Applies an OTP (verifies the email, switches address for email_change) and signs in
+   */
+  private signInFromOtp(otp: PendingOtp): LoginResult {
+    const stored = this.findByEmail(otp.email);
+
+    if (!stored) {
+      throw new NotFoundError('auth/user_not_found', 'OTP verification failed: User not found');
+    }
+
+    if (otp.type === 'email_change' && otp.new_email) {
+      if (this.findByEmail(otp.new_email)) {
+        throw new ConflictError('auth/email_exists', 'Email change failed: A user with this email address has already been registered');
+      }
+      stored.user.email = otp.new_email;
+      stored.identities
+        .filter((identity) => identity.provider === 'email')
+        .forEach((identity) => { identity.email = otp.new_email; });
+    }
+
+    // Receiving the email proves ownership of the address
+    stored.user.email_verified = true;
+    this.persist();
+
+    return this.signIn(stored);
+  }
+
+  /**
+   * Starts a session, or a pending challenge if the user has a verified TOTP factor
+   */
+  private signIn(stored: StoredUser): LoginResult {
+    const factors = stored.factors.filter((factor) => factor.status === 'verified');
+
+    if (factors.length > 0) {
+      const challenge: PendingChallenge = {
+        id: randomId(),
+        factor_id: factors[0].id,
+        user_id: stored.user.id,
+        expires_at: nowSeconds() + MFA_CHALLENGE_TTL_SECONDS
+      };
+      this.challenges.set(challenge.id, challenge);
+
+      return {
+        status: 'mfa_required',
+        challenge: {
+          factorId: challenge.factor_id,
+          challengeId: challenge.id,
+          factors: factors.map(toPublicFactor)
+        }
+      };
+    }
+
+    this.startSession(stored.user);
+    return { status: 'authenticated', user: { ...stored.user } };
+  }
+
+  /**
+   * Stores a pending OTP, replacing older ones of the same type for that email
+   */
+  private issueOtp(type: EmailActionType, email: string, token: string, newEmail?: string): void {
+    const normalized = normalizeEmail(email);
+    this.state.otps = this.state.otps.filter((otp) => !(otp.email === normalized && otp.type === type));
+    this.state.otps.push({
+      type,
+      email: normalized,
+      token,
+      expires_at: nowSeconds() + OTP_TTL_SECONDS,
+      new_email: newEmail
+    });
+    this.persist();
+  }
+
+  /**
+   * Issues a link token and hands the link to onEmailSent
+   */
+  private sendLink(type: EmailActionType, email: string, redirectTo?: string, newEmail?: string): void {
+    const token = randomToken();
+    this.issueOtp(type, email, token, newEmail);
+
+    const base = redirectTo
+      ?? (typeof window !== 'undefined' ? window.location.origin : 'http://localhost');
+    const link = new URL(base);
+    link.searchParams.set('token_hash', token);
+    link.searchParams.set('type', type);
+
+    this.onEmailSent({ type, to: newEmail ?? email, link: link.toString() });
+  }
+
+  private async setPassword(stored: StoredUser, password: string): Promise<void> {
+    if (!password) {
+      throw new ValidationError('auth/validation_failed', 'Password update failed: Password is required');
+    }
+
+    stored.salt = randomToken();
+    stored.passwordHash = await hashPassword(password, stored.salt);
+    this.persist();
+  }
+
+  private async createUser(
+    email: string,
+    password: string,
+    extra: { username?: string; avatar_url?: string; email_verified?: boolean; identity?: StoredIdentity } = {}
+  ): Promise<User> {
+    const { identity, ...profile } = extra;
+    const salt = randomToken();
+    const user: User = {
+      id: randomId(),
+      email,
+      username: profile.username,
+      avatar_url: profile.avatar_url,
+      email_verified: profile.email_verified ?? false,
+      created_at: new Date().toISOString()
+    };
+
+    this.state.users.push({
+      user,
+      salt,
+      passwordHash: await hashPassword(password, salt),
+      factors: [],
+      identities: [identity ?? {
+        id: randomId(),
+        provider: 'email',
+        subject: user.id,
+        email,
+        created_at: user.created_at
+      }]
+    });
+    this.persist();
+
+    return user;
+  }
+
+  /**
+   * Returns the current session if it has not expired or been revoked, clearing it otherwise
+   */
+  private activeSession(): StoredSession | null {
+    const session = this.state.session;
+
+    if (!session) {
+      return null;
+    }
+
+    const revoked = !this.state.sessions.some((record) => record.id === session.id);
+    if (session.expires_at <= nowSeconds() || revoked) {
+      this.state.session = null;
+      this.persist();
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Starts a new session, or rotates the tokens of an existing one (refresh)
+   */
+  private startSession(user: User, sessionId?: string): void {
+    const now = new Date().toISOString();
+    const record = sessionId
+      ? this.state.sessions.find((entry) => entry.id === sessionId)
+      : undefined;
+
+    if (record) {
+      record.last_seen_at = now;
+    } else {
+      // Signing in again on this device replaces its previous session
+      const previous = this.state.session;
+      this.state.sessions = this.state.sessions.filter((entry) => entry.id !== previous?.id);
+
+      this.state.sessions.push({
+        id: sessionId ?? randomId(),
+        user_id: user.id,
+        user_agent: this.userAgent,
+        created_at: now,
+        last_seen_at: now
+      });
+    }
+
+    this.state.session = {
+      id: record?.id ?? this.state.sessions[this.state.sessions.length - 1].id,
+      user_id: user.id,
+      access_token: randomToken(),
+      refresh_token: randomToken(),
+      expires_at: nowSeconds() + this.sessionTTL
+    };
+    this.persist();
+    this.notify({ ...user });
+  }
+
+  private findByEmail(email: string): StoredUser | undefined {
+    const normalized = normalizeEmail(email);
+    return this.state.users.find((entry) => normalizeEmail(entry.user.email) === normalized);
+  }
+
+  private notify(user: User | null): void {
+    this.listeners.forEach((listener) => listener(user));
+  }
+
+  private load(): AuthState {
+    const raw = this.storage?.getItem(this.storageKey);
+    const rawSession = this.storage?.getItem(this.sessionStorageKey);
+
+    if (raw) {
+      try {
+        const parsed = JSON.parse(raw) as Partial<AuthState>;
+        const session = rawSession ? (JSON.parse(rawSession) as StoredSession) : null;
+        return {
+          users: (parsed.users ?? []).map((entry) => ({
+            ...entry,
+            user: { ...entry.user, email_verified: entry.user.email_verified ?? false },
+            identities: entry.identities ?? [],
+            factors: entry.factors ?? []
+          })),
+          session: session?.id ? session : null,
+          sessions: parsed.sessions ?? [],
+          otps: (parsed.otps ?? []).map((otp) => ({ ...otp, type: otp.type ?? 'magiclink' })),
+          oauth: parsed.oauth ?? []
+        };
+      } catch {
+        // Corrupt state, start fresh
+      }
+    }
+
+    return { users: [], session: null, sessions: [], otps: [], oauth: [] };
+  }
+
+  private persist(): void {
+    const { session, ...shared } = this.state;
+    this.storage?.setItem(this.storageKey, JSON.stringify(shared));
+    this.storage?.setItem(this.sessionStorageKey, JSON.stringify(session));
+  }
+}
+
+/**
+ * Strips the secret and replay state from a stored factor
+ */
+function toPublicFactor({ secret: _secret, last_step: _lastStep, ...factor }: StoredFactor): MfaFactor {
+  return factor;
+}
+
+/**
+ * Hashes a password with a salt using SHA-256 (Web Crypto)
+ */
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const bytes = new TextEncoder().encode(`${salt}:${password}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Emails are matched case-insensitively and without surrounding whitespace
+ */
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function randomToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+function randomId(): string {
+  return crypto.randomUUID();
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionRefreshScheduler } from './SessionRefreshScheduler';
+import type { SessionRefreshSchedulerOptions } from './SessionRefreshScheduler';
+import type { Session } from './AuthService';
+
+const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+
+/**
+ * Session expiring the given number of seconds from now
+ */
+const sessionIn = (seconds: number, token = 'access'): Session => ({
+  access_token: token,
+  expires_at: Math.floor(Date.now() / 1000) + seconds
+});
+
+const createScheduler = (options: Partial<SessionRefreshSchedulerOptions> = {}) => {
+  const callbacks = {
+    refresh: vi.fn<SessionRefreshSchedulerOptions['refresh']>(async () => sessionIn(3600, 'refreshed')),
+    onRefreshing: vi.fn(),
+    onRefreshed: vi.fn(),
+    onExpired: vi.fn()
+  };
+  const scheduler = new SessionRefreshScheduler({ ...callbacks, ...options });
+  return { scheduler, ...callbacks, ...options };
+};
+
+describe('SessionRefreshScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refreshes leadTime seconds before the session expires', async () => {
+    const { scheduler, refresh, onRefreshed } = createScheduler({ leadTime: 60 });
+    const session = sessionIn(600);
+
+    scheduler.schedule(session);
+    await vi.advanceTimersByTimeAsync(539_000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(refresh).toHaveBeenCalledWith(session);
+    expect(onRefreshed).toHaveBeenCalledWith(expect.objectContaining({ access_token: 'refreshed' }));
+
+    scheduler.stop();
+  });
+
+  it('refreshes right away when the session is already within the lead time', async () => {
+    const { scheduler, refresh } = createScheduler();
+
+    scheduler.schedule(sessionIn(30));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(refresh).toHaveBeenCalledOnce();
+    scheduler.stop();
+  });
+
+  it('retries failed refreshes with exponential backoff', async () => {
+    const refresh = vi.fn<SessionRefreshSchedulerOptions['refresh']>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue(sessionIn(3600, 'refreshed'));
+    const { scheduler, onRefreshed } = createScheduler({ refresh, retryDelay: 1000 });
+
+    scheduler.schedule(sessionIn(60));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(refresh).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(refresh).toHaveBeenCalledTimes(3);
+
+    // A refresh without a session counts as failed
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(refresh).toHaveBeenCalledTimes(4);
+    expect(onRefreshed).toHaveBeenCalledOnce();
+
+    scheduler.stop();
+  });
+
+  it('emits onExpired once maxRetries is reached', async () => {
+    const refresh = vi.fn<SessionRefreshSchedulerOptions['refresh']>(async () => {
+      throw new Error('offline');
+    });
+    const { scheduler, onExpired } = createScheduler({ refresh, maxRetries: 2, retryDelay: 1000 });
+
+    scheduler.schedule(sessionIn(600));
+    await vi.runAllTimersAsync();
+
+    expect(refresh).toHaveBeenCalledTimes(3);
+    expect(onExpired).toHaveBeenCalledOnce();
+  });
+
+  it('emits onExpired once the session has run out', async () => {
+    const refresh = vi.fn<SessionRefreshSchedulerOptions['refresh']>(async () => {
+      throw new Error('offline');
+    });
+    const { scheduler, onExpired } = createScheduler({ refresh, maxRetries: 100, retryDelay: 1000 });
+
+    scheduler.schedule(sessionIn(5));
+    await vi.runAllTimersAsync();
+
+    expect(Date.now()).toBe(NOW + 5000);
+    expect(onExpired).toHaveBeenCalledOnce();
+  });
+
+  it('ignores a refresh in flight once stopped', async () => {
+    let settle: (session: Session | null) => void = () => {};
+    const refresh = vi.fn<SessionRefreshSchedulerOptions['refresh']>(() => new Promise((resolve) => {
+      settle = resolve;
+    }));
+    const { scheduler, onRefreshing, onRefreshed, onExpired } = createScheduler({ refresh });
+
+    scheduler.schedule(sessionIn(30));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onRefreshing).toHaveBeenCalledOnce();
+
+    scheduler.stop();
+    settle(null);
+    await vi.runAllTimersAsync();
+
+    expect(refresh).toHaveBeenCalledOnce();
+    expect(onRefreshed).not.toHaveBeenCalled();
+    expect(onExpired).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import type { Session } from './AuthService';
+
+/**
+ * Options for the session refresh scheduler
+ */
+export interface SessionRefreshSchedulerOptions {
+  /** Refreshes the session due for refresh and returns the new one */
+  refresh: (session: Session) => Promise<Session | null>;
+  /** Called when a refresh attempt starts */
+  onRefreshing?: () => void;
+  /** Called with the new session after a successful refresh */
+  onRefreshed?: (session: Session) => void;
+  /** Called once the session expired without a successful refresh */
+  onExpired?: () => void;
+  /** Seconds before expires_at to refresh (default: 60) */
+  leadTime?: number;
+  /** Retries after a failed refresh (default: 5) */
+  maxRetries?: number;
+  /** First retry delay in ms, doubled per retry (default: 1000) */
+  retryDelay?: number;
+}
+
+/**
+ * Schedules token refreshes ahead of Session.expires_at
+ *
+ * Failed refreshes are retried with exponential backoff until the session
+ * expires or maxRetries is reached, then onExpired is emitted. A refresh still
+ * in flight when stop() or schedule() is called is ignored once it settles.
+ */
+export class SessionRefreshScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  /** Bumped by stop(); a run only reports back if it is unchanged */
+  private generation = 0;
+  private readonly options: Required<Omit<SessionRefreshSchedulerOptions, 'onRefreshing' | 'onRefreshed' | 'onExpired'>>
+    & SessionRefreshSchedulerOptions;
+
+  constructor(options: SessionRefreshSchedulerOptions) {
+    this.options = {
+      leadTime: 60,
+      maxRetries: 5,
+      retryDelay: 1000,
+      ...options
+    };
+  }
+
+  /**
+   * Schedules the next refresh for a session (replaces any pending one)
+   * @param session - The current session, or null to stop
+   */
+  schedule(session: Session | null): void {
+    this.stop();
+
+    if (!session) {
+      return;
+    }
+
+    const refreshAt = (session.expires_at - this.options.leadTime) * 1000;
+    this.timer = setTimeout(() => this.run(session, 0), Math.max(0, refreshAt - Date.now()));
+  }
+
+  /**
+   * Cancels any pending refresh, including callbacks of one in flight
+   */
+  stop(): void {
+    this.generation++;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(session: Session, attempt: number): Promise<void> {
+    const generation = this.generation;
+    this.timer = null;
+    this.options.onRefreshing?.();
+
+    try {
+      const refreshed = await this.options.refresh(session);
+
+      if (generation !== this.generation) {
+        return;
+      }
+
+      if (!refreshed) {
+        throw new Error('Token refresh returned no session');
+      }
+
+      this.options.onRefreshed?.(refreshed);
+      this.schedule(refreshed);
+    } catch {
+      if (generation !== this.generation) {
+        return;
+      }
+
+      const msUntilExpiry = session.expires_at * 1000 - Date.now();
+
+      if (msUntilExpiry <= 0 || attempt >= this.options.maxRetries) {
+        this.options.onExpired?.();
+        return;
+      }
+
+      const delay = Math.min(this.options.retryDelay * 2 ** attempt, msUntilExpiry);
+      this.timer = setTimeout(() => this.run(session, attempt + 1), delay);
+    }
+  }
+}
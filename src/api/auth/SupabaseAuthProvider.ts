@@ -1,14 +1,58 @@
 import { supabase } from '../supabase';
-import type { User as SupabaseUser } from '@supabase/supabase-js';
+import type { EmailOtpType, User as SupabaseUser, UserIdentity } from '@supabase/supabase-js';
+import {
+  AuthError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  fromAuthError,
+  fromDatabaseError,
+  toAppError
+} from '../errors';
+import { DEFAULT_OAUTH_PROVIDERS } from './AuthService';
+import { describeUserAgent } from './deviceInfo';
 import type {
   AuthService,
+  OAuthProvider,
+  OAuthOptions,
+  Identity,
   LoginCredentials,
   SignupCredentials,
+  PasswordlessRequest,
+  OtpVerification,
+  PasswordUpdate,
+  ActiveSession,
+  LoginResult,
+  MfaChallenge,
+  MfaEnrollment,
+  MfaFactor,
   User,
   Session,
   AuthStateChangeCallback
 } from './AuthService';
 
+/**
+ * Row returned by the list_sessions RPC (see SUPABASE_SETUP.md)
+ */
+interface SessionRow {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  refreshed_at: string | null;
+  updated_at: string | null;
+}
+
+/**
+ * Options for the Supabase auth provider
+ */
+export interface SupabaseAuthProviderOptions {
+  /** OAuth providers enabled in the Supabase project (default: google, apple, github) */
+  oauthProviders?: OAuthProvider[];
+  /** Navigates to the provider's authorize URL (default: window.location.assign) */
+  redirect?: (url: string) => void;
+}
+
 /**
  * Supabase implementation of AuthService
  * 
@@ -16,13 +60,26 @@ import type {
  * Profile creation is handled by database triggers on auth.user creation.
  */
 export class SupabaseAuthProvider implements AuthService {
+  private readonly oauthProviders: OAuthProvider[];
+  private readonly redirect: (url: string) => void;
+  private readonly subscriptions = new Set<{ unsubscribe(): void }>();
+
+  constructor(options: SupabaseAuthProviderOptions = {}) {
+    this.oauthProviders = options.oauthProviders ?? DEFAULT_OAUTH_PROVIDERS;
+    this.redirect = options.redirect ?? ((url) => window.location.assign(url));
+  }
+
   /**
    * Authenticates a user with email and password
+   * 
+   * If the account has a verified TOTP factor the session stays at AAL1 and
+   * a challenge is returned instead of the user.
+   * 
    * @param credentials - User login credentials
-   * @returns Promise resolving to authenticated user
-   * @throws Error if authentication fails
+   * @returns Promise resolving to the login result
+   * @throws AuthError if authentication fails
    */
-  async login(credentials: LoginCredentials): Promise<User> {
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
     try {
       const { data, error } = await supabase.auth.signInWithPassword({
         email: credentials.email,
@@ -30,38 +87,155 @@ export class SupabaseAuthProvider implements AuthService {
       });
 
       if (error) {
-        throw new Error(`Login failed: ${error.message}`);
+        throw fromAuthError(error, 'Login failed');
       }
 
       if (!data.user) {
-        throw new Error('Login failed: No user returned');
+        throw new AuthError('auth/no_user', 'Login failed: No user returned');
+      }
+
+      return this.toLoginResult(data.user);
+    } catch (error) {
+      throw toAppError(error, 'Login failed', 'auth');
+    }
+  }
+
+  /**
+   * Completes an MFA login with a TOTP code (upgrades the session to AAL2)
+   * @param challenge - The challenge from login
+   * @param code - 6-digit code from the authenticator app
+   * @returns Promise resolving to authenticated user
+   * @throws AuthError if the code is invalid or the challenge has expired
+   */
+  async verifyMfaChallenge(challenge: MfaChallenge, code: string): Promise<User> {
+    try {
+      const { error } = await supabase.auth.mfa.verify({
+        factorId: challenge.factorId,
+        challengeId: challenge.challengeId,
+        code
+      });
+
+      if (error) {
+        throw fromAuthError(error, 'MFA verification failed');
+      }
+
+      const { data, error: userError } = await supabase.auth.getUser();
+
+      if (userError || !data.user) {
+        throw new AuthError('auth/no_user', 'MFA verification failed: No user returned');
       }
 
       return this.mapAuthUserToProfile(data.user);
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Login error: ${error.message}`);
+      throw toAppError(error, 'MFA verification failed', 'auth');
+    }
+  }
+
+  /**
+   * Starts TOTP enrollment for the signed-in user
+   * @param friendlyName - Optional label for the factor (e.g. "Phone")
+   * @returns Promise resolving to the otpauth URI, secret and QR code (SVG)
+   * @throws AuthError if not authenticated
+   */
+  async enrollMfa(friendlyName?: string): Promise<MfaEnrollment> {
+    try {
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName
+      });
+
+      if (error) {
+        throw fromAuthError(error, 'MFA enrollment failed');
       }
-      throw new Error('Login failed with unknown error');
+
+      return {
+        factorId: data.id,
+        uri: data.totp.uri,
+        secret: data.totp.secret,
+        qrCode: data.totp.qr_code
+      };
+    } catch (error) {
+      throw toAppError(error, 'MFA enrollment failed', 'auth');
+    }
+  }
+
+  /**
+   * Confirms enrollment with the first code from the authenticator app
+   * @param factorId - The factor from enrollMfa
+   * @param code - 6-digit code
+   * @throws AuthError if the code is invalid
+   */
+  async verifyMfaEnrollment(factorId: string, code: string): Promise<void> {
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+
+      if (error) {
+        throw fromAuthError(error, 'MFA enrollment verification failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'MFA enrollment verification failed', 'auth');
+    }
+  }
+
+  /**
+   * Lists the TOTP factors of the signed-in user
+   * @returns Promise resolving to factors (empty if not authenticated)
+   */
+  async listMfaFactors(): Promise<MfaFactor[]> {
+    try {
+      const { data, error } = await supabase.auth.mfa.listFactors();
+
+      if (error) {
+        throw fromAuthError(error, 'List MFA factors failed');
+      }
+
+      return data.all
+        .filter((factor) => factor.factor_type === 'totp')
+        .map((factor) => ({
+          id: factor.id,
+          type: 'totp',
+          friendly_name: factor.friendly_name,
+          status: factor.status,
+          created_at: factor.created_at
+        }));
+    } catch (error) {
+      throw toAppError(error, 'List MFA factors failed', 'auth');
+    }
+  }
+
+  /**
+   * Removes an MFA factor from the signed-in user
+   * 
+   * Removing a verified factor requires an AAL2 session.
+   * 
+   * @param factorId - The factor ID
+   * @throws AuthError if the factor doesn't exist
+   */
+  async removeMfaFactor(factorId: string): Promise<void> {
+    try {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId });
+
+      if (error) {
+        throw fromAuthError(error, 'Remove MFA factor failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Remove MFA factor failed', 'auth');
     }
   }
 
   /**
    * Signs out the current user and clears session
-   * @throws Error if logout fails
+   * @throws AuthError if logout fails
    */
   async logout(): Promise<void> {
     try {
       const { error } = await supabase.auth.signOut();
 
       if (error) {
-        throw new Error(`Logout failed: ${error.message}`);
+        throw fromAuthError(error, 'Logout failed');
       }
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Logout error: ${error.message}`);
-      }
-      throw new Error('Logout failed with unknown error');
+      throw toAppError(error, 'Logout failed', 'auth');
     }
   }
 
@@ -73,7 +247,7 @@ export class SupabaseAuthProvider implements AuthService {
    * 
    * @param credentials - User signup credentials
    * @returns Promise resolving to created user
-   * @throws Error if signup fails
+   * @throws AuthError if signup fails
    */
   async signup(credentials: SignupCredentials): Promise<User> {
     try {
@@ -84,11 +258,11 @@ export class SupabaseAuthProvider implements AuthService {
       });
 
       if (error) {
-        throw new Error(`Signup failed: ${error.message}`);
+        throw fromAuthError(error, 'Signup failed');
       }
 
       if (!data.user) {
-        throw new Error('Signup failed: No user returned');
+        throw new AuthError('auth/no_user', 'Signup failed: No user returned');
       }
 
       const user = this.mapAuthUserToProfile(data.user);
@@ -103,7 +277,7 @@ export class SupabaseAuthProvider implements AuthService {
 
           if (updateError) {
             // Log error but don't fail signup
-            throw new Error(`Profile username update failed: ${updateError.message}`);
+            throw fromDatabaseError(updateError, 'Profile username update failed');
           }
 
           // Update returned user with username
@@ -116,10 +290,494 @@ export class SupabaseAuthProvider implements AuthService {
 
       return user;
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Signup error: ${error.message}`);
+      throw toAppError(error, 'Signup failed', 'auth');
+    }
+  }
+
+  /**
+   * Sends a magic link or one-time code to the given email
+   * 
+   * Both methods use Supabase's email OTP; the email template decides whether
+   * the link ({{ .ConfirmationURL }}) or the code ({{ .Token }}) is shown.
+   * 
+   * @param request - Email and passwordless method
+   * @throws AuthError if the email cannot be sent
+   */
+  async requestPasswordlessLogin(request: PasswordlessRequest): Promise<void> {
+    try {
+      const { method = 'magic_link', shouldCreateUser = true } = request;
+      const redirectTo = request.redirectTo
+        ?? (typeof window !== 'undefined' ? window.location.origin : undefined);
+
+      const { error } = await supabase.auth.signInWithOtp({
+        email: request.email,
+        options: {
+          shouldCreateUser,
+          emailRedirectTo: method === 'magic_link' ? redirectTo : undefined
+        }
+      });
+
+      if (error) {
+        throw fromAuthError(error, 'Passwordless request failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Passwordless request failed', 'auth');
+    }
+  }
+
+  /**
+   * Verifies a one-time code sent by requestPasswordlessLogin
+   * 
+   * Like login, the session stays at AAL1 and a challenge is returned if the
+   * account has a verified TOTP factor.
+   * 
+   * @param verification - Email and code entered by the user
+   * @returns Promise resolving to the login result
+   * @throws AuthError if the code is invalid or expired
+   */
+  async verifyOtp(verification: OtpVerification): Promise<LoginResult> {
+    try {
+      const { data, error } = await supabase.auth.verifyOtp({
+        email: verification.email,
+        token: verification.token,
+        type: 'email'
+      });
+
+      if (error) {
+        throw fromAuthError(error, 'OTP verification failed');
+      }
+
+      if (!data.user) {
+        throw new AuthError('auth/no_user', 'OTP verification failed: No user returned');
+      }
+
+      return this.toLoginResult(data.user);
+    } catch (error) {
+      throw toAppError(error, 'OTP verification failed', 'auth');
+    }
+  }
+
+  /**
+   * Completes a session from a magic link redirect URL
+   * 
+   * Implicit-flow links (#access_token=...) are picked up by the client itself
+   * (detectSessionInUrl: true); PKCE links (?code=...) and token-hash links
+   * (?token_hash=...&type=...) are exchanged here. Accounts with a verified TOTP
+   * factor get a challenge instead of the user, as with login.
+   * 
+   * @param url - The URL to read tokens/codes from (default: window.location.href)
+   * @returns Promise resolving to the login result, or null if the URL carries no auth data
+   * @throws AuthError if the link is invalid or expired
+   */
+  async completeSessionFromUrl(url?: string): Promise<LoginResult | null> {
+    try {
+      const href = url ?? (typeof window !== 'undefined' ? window.location.href : '');
+      if (!href) {
+        return null;
+      }
+
+      const parsed = new URL(href);
+      const hash = new URLSearchParams(parsed.hash.replace(/^#/, ''));
+      const errorDescription = parsed.searchParams.get('error_description') ?? hash.get('error_description');
+
+      if (errorDescription) {
+        throw new AuthError('auth/otp_expired', `Magic link failed: ${errorDescription}`);
+      }
+
+      const code = parsed.searchParams.get('code');
+      const tokenHash = parsed.searchParams.get('token_hash');
+
+      if (code) {
+        const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+        if (error) {
+          throw fromAuthError(error, 'Magic link failed');
+        }
+        return this.toLoginResult(data.user);
+      }
+
+      if (tokenHash) {
+        const { data, error } = await supabase.auth.verifyOtp({
+          token_hash: tokenHash,
+          type: (parsed.searchParams.get('type') as EmailOtpType | null) ?? 'email'
+        });
+        if (error) {
+          throw fromAuthError(error, 'Magic link failed');
+        }
+        return data.user ? this.toLoginResult(data.user) : null;
+      }
+
+      if (hash.has('access_token')) {
+        // Already consumed by the client (detectSessionInUrl)
+        const { data, error } = await supabase.auth.getUser();
+        if (error) {
+          throw fromAuthError(error, 'Magic link failed');
+        }
+        return data.user ? this.toLoginResult(data.user) : null;
+      }
+
+      return null;
+    } catch (error) {
+      throw toAppError(error, 'Complete session failed', 'auth');
+    }
+  }
+
+  /**
+   * Returns the OAuth providers enabled for this service
+   */
+  getOAuthProviders(): OAuthProvider[] {
+    return [...this.oauthProviders];
+  }
+
+  /**
+   * Starts OAuth sign-in by redirecting to the provider
+   * 
+   * Uses skipBrowserRedirect so navigation goes through `redirect` (mockable in tests).
+   * The callback (?code=...) is handled by completeSessionFromUrl.
+   * 
+   * @param provider - The OAuth provider
+   * @param options - Redirect and scope options
+   * @throws AuthError if the provider is not enabled or the redirect cannot be started
+   */
+  async signInWithOAuth(provider: OAuthProvider, options: OAuthOptions = {}): Promise<void> {
+    try {
+      this.assertOAuthProvider(provider);
+
+      const { data, error } = await supabase.auth.signInWithOAuth({
+        provider,
+        options: {
+          redirectTo: options.redirectTo ?? window.location.origin,
+          scopes: options.scopes,
+          skipBrowserRedirect: true
+        }
+      });
+
+      if (error) {
+        throw fromAuthError(error, 'OAuth sign-in failed');
+      }
+
+      if (!data.url) {
+        throw new AuthError('auth/no_redirect_url', 'OAuth sign-in failed: No redirect URL returned');
+      }
+
+      this.redirect(data.url);
+    } catch (error) {
+      throw toAppError(error, 'OAuth sign-in failed', 'auth');
+    }
+  }
+
+  /**
+   * Links an additional OAuth identity to the current account (redirects to the provider)
+   * 
+   * Requires "Manual linking" to be enabled in the Supabase Auth settings.
+   * 
+   * @param provider - The OAuth provider
+   * @param options - Redirect and scope options
+   * @throws AuthError if not authenticated or the provider is not enabled
+   */
+  async linkIdentity(provider: OAuthProvider, options: OAuthOptions = {}): Promise<void> {
+    try {
+      this.assertOAuthProvider(provider);
+
+      const { data, error } = await supabase.auth.linkIdentity({
+        provider,
+        options: {
+          redirectTo: options.redirectTo ?? window.location.origin,
+          scopes: options.scopes,
+          skipBrowserRedirect: true
+        }
+      });
+
+      if (error) {
+        throw fromAuthError(error, 'Link identity failed');
+      }
+
+      if (!data.url) {
+        throw new AuthError('auth/no_redirect_url', 'Link identity failed: No redirect URL returned');
+      }
+
+      this.redirect(data.url);
+    } catch (error) {
+      throw toAppError(error, 'Link identity failed', 'auth');
+    }
+  }
+
+  /**
+   * Removes a linked identity from the current account
+   * @param identityId - The identity ID (from getIdentities)
+   * @throws NotFoundError if the identity doesn't exist, ConflictError if it is the last one
+   */
+  async unlinkIdentity(identityId: string): Promise<void> {
+    try {
+      const identities = await this.fetchIdentities();
+      const identity = identities.find((entry) => entry.identity_id === identityId || entry.id === identityId);
+
+      if (!identity) {
+        throw new NotFoundError('auth/identity_not_found', 'Unlink identity failed: Identity not found');
+      }
+
+      if (identities.length < 2) {
+        throw new ConflictError('auth/single_identity_not_deletable', 'Unlink identity failed: Cannot remove the only identity');
+      }
+
+      const { error } = await supabase.auth.unlinkIdentity(identity);
+
+      if (error) {
+        throw fromAuthError(error, 'Unlink identity failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Unlink identity failed', 'auth');
+    }
+  }
+
+  /**
+   * Lists identities linked to the current account
+   * @returns Promise resolving to linked identities (empty if not authenticated)
+   */
+  async getIdentities(): Promise<Identity[]> {
+    try {
+      const identities = await this.fetchIdentities();
+
+      return identities.map((identity) => ({
+        id: identity.identity_id ?? identity.id,
+        provider: identity.provider as Identity['provider'],
+        email: identity.identity_data?.email,
+        created_at: identity.created_at || new Date().toISOString(),
+        last_sign_in_at: identity.last_sign_in_at
+      }));
+    } catch (error) {
+      throw toAppError(error, 'Get identities failed', 'auth');
+    }
+  }
+
+  /**
+   * Sends a password reset email
+   * @param email - The account's email address
+   * @param redirectTo - Page the reset link should open (default: current origin)
+   * @throws AuthError if the email cannot be sent
+   */
+  async requestPasswordReset(email: string, redirectTo?: string): Promise<void> {
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: redirectTo ?? window.location.origin
+      });
+
+      if (error) {
+        throw fromAuthError(error, 'Password reset request failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Password reset request failed', 'auth');
+    }
+  }
+
+  /**
+   * Sets a new password after following the reset link
+   * 
+   * The reset link signs the user in with a recovery session; if that hasn't
+   * happened yet (PKCE ?code=...), it is completed from the URL first. The
+   * recovery session is AAL1: with a verified TOTP factor a challenge is returned
+   * and the password is only changed when called again after verifyMfaChallenge.
+   * 
+   * @param newPassword - The new password
+   * @param url - Reset link URL (default: window.location.href)
+   * @returns Promise resolving to the login result
+   * @throws AuthError if the link is invalid/expired or the password is rejected
+   */
+  async completePasswordReset(newPassword: string, url?: string): Promise<LoginResult> {
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+
+      if (!sessionData.session) {
+        const recovered = await this.completeSessionFromUrl(url);
+        if (!recovered) {
+          throw new AuthError('auth/otp_expired', 'Password reset failed: Reset link is invalid or has expired');
+        }
+      }
+
+      const challenge = await this.createMfaChallenge();
+      if (challenge) {
+        return { status: 'mfa_required', challenge };
+      }
+
+      const { data, error } = await supabase.auth.updateUser({ password: newPassword });
+
+      if (error) {
+        throw fromAuthError(error, 'Password reset failed');
       }
-      throw new Error('Signup failed with unknown error');
+
+      return { status: 'authenticated', user: this.mapAuthUserToProfile(data.user) };
+    } catch (error) {
+      throw toAppError(error, 'Password reset failed', 'auth');
+    }
+  }
+
+  /**
+   * Changes the password of the signed-in user
+   * 
+   * The current password is checked by the verify_password RPC (see SUPABASE_SETUP.md)
+   * rather than by signing in again, which would replace the session and drop an
+   * MFA session back to AAL1.
+   * 
+   * @param update - New password (and optionally the current one)
+   * @throws AuthError if not authenticated, the current password is wrong or the new one is rejected
+   */
+  async updatePassword(update: PasswordUpdate): Promise<void> {
+    try {
+      if (update.currentPassword) {
+        const { data: verified, error: verifyError } = await supabase.rpc('verify_password', {
+          password: update.currentPassword
+        });
+
+        if (verifyError) {
+          throw fromDatabaseError(verifyError, 'Password update failed');
+        }
+
+        if (verified !== true) {
+          throw new AuthError('auth/invalid_credentials', 'Password update failed: Current password is incorrect');
+        }
+      }
+
+      const { error } = await supabase.auth.updateUser({ password: update.newPassword });
+
+      if (error) {
+        throw fromAuthError(error, 'Password update failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Password update failed', 'auth');
+    }
+  }
+
+  /**
+   * Starts an email change; the new address must be confirmed via the emailed link
+   * 
+   * With "Secure email change" enabled, Supabase also mails the old address.
+   * 
+   * @param newEmail - The new email address
+   * @param redirectTo - Page the confirmation link should open (default: current origin)
+   * @throws AuthError if not authenticated, ConflictError if the address is taken
+   */
+  async requestEmailChange(newEmail: string, redirectTo?: string): Promise<void> {
+    try {
+      const { error } = await supabase.auth.updateUser(
+        { email: newEmail },
+        { emailRedirectTo: redirectTo ?? window.location.origin }
+      );
+
+      if (error) {
+        throw fromAuthError(error, 'Email change failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Email change failed', 'auth');
+    }
+  }
+
+  /**
+   * Re-sends the signup verification email
+   * @param email - Email to verify (default: the signed-in user's email)
+   * @throws AuthError if there is no email to verify or sending fails
+   */
+  async resendVerification(email?: string): Promise<void> {
+    try {
+      let target = email;
+
+      if (!target) {
+        const { data } = await supabase.auth.getUser();
+        target = data.user?.email;
+      }
+
+      if (!target) {
+        throw new ValidationError('auth/email_required', 'Resend verification failed: No email address');
+      }
+
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email: target,
+        options: { emailRedirectTo: window.location.origin }
+      });
+
+      if (error) {
+        throw fromAuthError(error, 'Resend verification failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Resend verification failed', 'auth');
+    }
+  }
+
+  /**
+   * Lists all active sessions (devices) of the signed-in user
+   * 
+   * auth.sessions is not exposed through the client API, so this uses the
+   * list_sessions RPC (security definer, filtered to auth.uid()).
+   * 
+   * @returns Promise resolving to sessions, most recently seen first
+   * @throws AuthError if not authenticated
+   */
+  async listSessions(): Promise<ActiveSession[]> {
+    try {
+      const currentId = await this.currentSessionId();
+      const { data, error } = await supabase.rpc('list_sessions');
+
+      if (error) {
+        throw fromDatabaseError(error, 'List sessions failed');
+      }
+
+      return ((data ?? []) as SessionRow[])
+        .map((row) => ({
+          id: row.id,
+          device: describeUserAgent(row.user_agent),
+          user_agent: row.user_agent ?? '',
+          ip: row.ip ?? undefined,
+          created_at: row.created_at,
+          last_seen_at: row.refreshed_at ?? row.updated_at ?? row.created_at,
+          current: row.id === currentId
+        }))
+        .sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at));
+    } catch (error) {
+      throw toAppError(error, 'List sessions failed', 'auth');
+    }
+  }
+
+  /**
+   * Revokes a single session via the revoke_session RPC
+   * 
+   * Revoking the current session signs this browser out as well.
+   * 
+   * @param sessionId - The session ID from listSessions
+   * @throws AuthError if the session doesn't exist
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    try {
+      if (sessionId === (await this.currentSessionId())) {
+        await this.logout();
+        return;
+      }
+
+      const { error } = await supabase.rpc('revoke_session', { session_id: sessionId });
+
+      if (error) {
+        throw fromDatabaseError(error, 'Revoke session failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Revoke session failed', 'auth');
+    }
+  }
+
+  /**
+   * Signs out every session except the current one
+   * 
+   * Other devices keep their access token until it expires (max. JWT expiry),
+   * but can no longer refresh it.
+   * 
+   * @throws AuthError if not authenticated
+   */
+  async signOutOtherSessions(): Promise<void> {
+    try {
+      const { error } = await supabase.auth.signOut({ scope: 'others' });
+
+      if (error) {
+        throw fromAuthError(error, 'Sign out other sessions failed');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Sign out other sessions failed', 'auth');
     }
   }
 
@@ -132,7 +790,7 @@ export class SupabaseAuthProvider implements AuthService {
       const { data, error } = await supabase.auth.getSession();
 
       if (error) {
-        throw new Error(`Get session failed: ${error.message}`);
+        throw fromAuthError(error, 'Get session failed');
       }
 
       if (!data.session) {
@@ -145,10 +803,7 @@ export class SupabaseAuthProvider implements AuthService {
         expires_at: data.session.expires_at || 0
       };
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Get session error: ${error.message}`);
-      }
-      throw new Error('Get session failed with unknown error');
+      throw toAppError(error, 'Get session failed', 'auth');
     }
   }
 
@@ -161,38 +816,37 @@ export class SupabaseAuthProvider implements AuthService {
       const { data, error } = await supabase.auth.getUser();
 
       if (error) {
-        throw new Error(`Get user failed: ${error.message}`);
+        throw fromAuthError(error, 'Get user failed');
       }
 
       if (!data.user) {
         return null;
       }
 
+      // Half-finished MFA login: not signed in until the second factor is verified
+      if (await this.isMfaPending()) {
+        return null;
+      }
+
       return this.mapAuthUserToProfile(data.user);
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Get user error: ${error.message}`);
-      }
-      throw new Error('Get user failed with unknown error');
+      throw toAppError(error, 'Get user failed', 'auth');
     }
   }
 
   /**
    * Refreshes the authentication token
-   * @throws Error if token refresh fails
+   * @throws AuthError if token refresh fails
    */
   async refreshToken(): Promise<void> {
     try {
       const { error } = await supabase.auth.refreshSession();
 
       if (error) {
-        throw new Error(`Token refresh failed: ${error.message}`);
+        throw fromAuthError(error, 'Token refresh failed');
       }
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Token refresh error: ${error.message}`);
-      }
-      throw new Error('Token refresh failed with unknown error');
+      throw toAppError(error, 'Token refresh failed', 'auth');
     }
   }
 
@@ -200,26 +854,159 @@ export class SupabaseAuthProvider implements AuthService {
    * Registers a callback for auth state changes
    * @param callback - Function to call when auth state changes
    */
-  onAuthStateChange(callback: AuthStateChangeCallback): void {
-    supabase.auth.onAuthStateChange((_event, session) => {
-      if (session?.user) {
-        callback(this.mapAuthUserToProfile(session.user));
-      } else {
+  onAuthStateChange(callback: AuthStateChangeCallback): () => void {
+    // Events are reported in order: a deferred user is dropped if a later event arrived meanwhile
+    let sequence = 0;
+
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      const current = ++sequence;
+
+      if (!session?.user) {
         callback(null);
+        return;
       }
+
+      const user = this.mapAuthUserToProfile(session.user);
+
+      // Supabase calls must not be awaited inside this callback (deadlock), so defer the AAL check
+      setTimeout(async () => {
+        const mfaPending = await this.isMfaPending();
+        if (current === sequence) {
+          callback(mfaPending ? null : user);
+        }
+      }, 0);
     });
+
+    this.subscriptions.add(data.subscription);
+    return () => {
+      data.subscription.unsubscribe();
+      this.subscriptions.delete(data.subscription);
+    };
+  }
+
+  /**
+   * Unsubscribes every auth state callback registered through this provider
+   */
+  dispose(): void {
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe());
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Reads the session_id claim from the current access token
+   */
+  private async currentSessionId(): Promise<string | null> {
+    const { data } = await supabase.auth.getSession();
+    const token = data.session?.access_token;
+
+    if (!token) {
+      throw new AuthError('auth/not_authenticated', 'Not authenticated');
+    }
+
+    try {
+      const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+      return JSON.parse(atob(payload)).session_id ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether the session is at AAL1 while the account requires AAL2
+   */
+  private async isMfaPending(): Promise<boolean> {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+    if (error || !data) {
+      return false;
+    }
+
+    return data.currentLevel === 'aal1' && data.nextLevel === 'aal2';
+  }
+
+  /**
+   * Maps a freshly signed-in user to a login result, challenging for the second factor if needed
+   */
+  private async toLoginResult(authUser: SupabaseUser): Promise<LoginResult> {
+    const challenge = await this.createMfaChallenge();
+
+    if (challenge) {
+      return { status: 'mfa_required', challenge };
+    }
+
+    return { status: 'authenticated', user: this.mapAuthUserToProfile(authUser) };
+  }
+
+  /**
+   * Creates a challenge for the first verified TOTP factor if MFA is pending
+   */
+  private async createMfaChallenge(): Promise<MfaChallenge | null> {
+    if (!(await this.isMfaPending())) {
+      return null;
+    }
+
+    const factors = (await this.listMfaFactors()).filter((factor) => factor.status === 'verified');
+    if (factors.length === 0) {
+      return null;
+    }
+
+    const { data, error } = await supabase.auth.mfa.challenge({ factorId: factors[0].id });
+
+    if (error) {
+      throw fromAuthError(error, 'MFA challenge failed');
+    }
+
+    return { factorId: factors[0].id, challengeId: data.id, factors };
+  }
+
+  /**
+   * Throws if the provider is not in the enabled list
+   */
+  private assertOAuthProvider(provider: OAuthProvider): void {
+    if (!this.oauthProviders.includes(provider)) {
+      throw new AuthError('auth/provider_disabled', `OAuth provider ${provider} is not enabled`);
+    }
+  }
+
+  /**
+   * Fetches the raw identities of the current user
+   */
+  private async fetchIdentities(): Promise<UserIdentity[]> {
+    const { data, error } = await supabase.auth.getUserIdentities();
+
+    if (error) {
+      if (error.name === 'AuthSessionMissingError') {
+        return [];
+      }
+      throw fromAuthError(error, 'Get identities failed');
+    }
+
+    return data?.identities ?? [];
   }
 
   /**
    * Maps Supabase auth user to application User interface
+   * 
+   * OAuth providers put the display name and avatar in user_metadata under
+   * different keys (GitHub: user_name/avatar_url, Google: name/picture,
+   * Apple: full_name), so the first present one wins.
+   * 
    * @param authUser - Supabase auth user object
    * @returns User object conforming to application interface
    */
   private mapAuthUserToProfile(authUser: SupabaseUser): User {
+    const metadata = authUser.user_metadata ?? {};
+
     return {
       id: authUser.id,
       email: authUser.email || '',
-      username: authUser.user_metadata?.username,
+      username: metadata.username
+        ?? metadata.user_name
+        ?? metadata.preferred_username
+        ?? metadata.name
+        ?? metadata.full_name,
+      avatar_url: metadata.avatar_url ?? metadata.picture,
+      email_verified: Boolean(authUser.email_confirmed_at),
       created_at: authUser.created_at || new Date().toISOString()
     };
   }
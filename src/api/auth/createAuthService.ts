@@ -0,0 +1,35 @@
+import { isSupabaseConfigured } from '../supabase';
+import { SupabaseAuthProvider } from './SupabaseAuthProvider';
+import { InMemoryAuthProvider } from './InMemoryAuthProvider';
+import type { AuthService } from './AuthService';
+
+/**
+ * Available auth backends
+ */
+export type AuthBackend = 'supabase' | 'memory';
+
+/**
+ * Creates the AuthService for the configured backend
+ *
+ * Backend is taken from the argument, then VITE_AUTH_BACKEND. Falls back to the
+ * in-memory provider (persisted in localStorage) when Supabase is not configured.
+ * In development builds the in-memory provider logs its auth emails (codes and
+ * links) to the console, since there is no mail server.
+ *
+ * @param backend - Optional explicit backend
+ * @returns AuthService instance
+ */
+export function createAuthService(backend?: AuthBackend): AuthService {
+  const selected = backend
+    ?? (import.meta.env.VITE_AUTH_BACKEND as AuthBackend | undefined)
+    ?? (isSupabaseConfigured ? 'supabase' : 'memory');
+
+  if (selected === 'memory') {
+    return new InMemoryAuthProvider({
+      storage: typeof localStorage !== 'undefined' ? localStorage : undefined,
+      onEmailSent: import.meta.env.DEV ? (email) => console.info('[InMemoryAuth] Email sent:', email) : undefined
+    });
+  }
+
+  return new SupabaseAuthProvider();
+}
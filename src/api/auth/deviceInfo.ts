@@ -0,0 +1,38 @@
+/**
+ * Builds a short device label from a user agent string
+ *
+ * Good enough for a "where you're signed in" list; not meant for feature detection.
+ *
+ * @param userAgent - The user agent string
+ * @returns Label like "iPhone · Safari" or "Unknown device"
+ *
+ * @example
+ * ```ts
+ * describeUserAgent(navigator.userAgent); // "Mac · Chrome"
+ * ```
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const device = [
+    ['iPhone', /iPhone/],
+    ['iPad', /iPad/],
+    ['Android', /Android/],
+    ['Windows', /Windows/],
+    ['Mac', /Macintosh|Mac OS X/],
+    ['Linux', /Linux/]
+  ].find(([, pattern]) => (pattern as RegExp).test(userAgent))?.[0];
+
+  // Order matters: Edge and Opera also claim Chrome, Chrome also claims Safari
+  const browser = [
+    ['Edge', /Edg\//],
+    ['Opera', /OPR\//],
+    ['Firefox', /Firefox\/|FxiOS/],
+    ['Chrome', /Chrome\/|CriOS/],
+    ['Safari', /Safari\//]
+  ].find(([, pattern]) => (pattern as RegExp).test(userAgent))?.[0];
+
+  return [device, browser].filter(Boolean).join(' · ') || 'Unknown device';
+}
@@ -0,0 +1,141 @@
+/**
+ * TOTP (RFC 6238) helpers used by InMemoryAuthProvider
+ *
+ * Supabase verifies codes server-side; this module lets the in-memory provider
+ * behave the same way offline (30s steps, 6 digits, HMAC-SHA1).
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+/**
+ * Generates a random base32 secret (160 bits)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * Builds the otpauth:// URI that authenticator apps scan
+ * @param secret - Base32 secret
+ * @param account - Account label (usually the email)
+ * @param issuer - Issuer shown in the app (default: 'YoMo')
+ */
+export function buildOtpAuthUri(secret: string, account: string, issuer: string = 'YoMo'): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Computes the TOTP code for a given time
+ * @param secret - Base32 secret
+ * @param timestamp - Epoch ms (default: now)
+ */
+export async function generateTotp(secret: string, timestamp: number = Date.now()): Promise<string> {
+  const counter = Math.floor(timestamp / 1000 / STEP_SECONDS);
+  return hotp(secret, counter);
+}
+
+/**
+ * Checks a code against the current step and one step either side (clock drift)
+ *
+ * Codes are single-use: steps at or below lastStep are rejected, so a code cannot
+ * be replayed within its window.
+ * @param secret - Base32 secret
+ * @param code - Code entered by the user
+ * @param lastStep - Step of the last accepted code for this secret (default: none)
+ * @param timestamp - Epoch ms (default: now)
+ * @returns The matched step (store it as the next lastStep), or null if the code is invalid or used
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  lastStep: number = -1,
+  timestamp: number = Date.now()
+): Promise<number | null> {
+  const normalized = code.replace(/\s/g, '');
+  const counter = Math.floor(timestamp / 1000 / STEP_SECONDS);
+
+  for (const offset of [-1, 0, 1]) {
+    const step = counter + offset;
+    if (step > lastStep && (await hotp(secret, step)) === normalized) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+async function hotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+  const cleaned = input.toUpperCase().replace(/=+$/, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
@@ -1,13 +1,80 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { SupabaseAuthProvider } from './SupabaseAuthProvider';
-import type { User } from './AuthService';
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { AuthError, toAppError } from '../errors';
+import { createAuthService } from './createAuthService';
+import { SessionRefreshScheduler } from './SessionRefreshScheduler';
+import { AuthBroadcast } from './AuthBroadcast';
+import type {
+  ActiveSession,
+  AuthService,
+  Identity,
+  LoginCredentials,
+  LoginResult,
+  MfaChallenge,
+  MfaEnrollment,
+  MfaFactor,
+  OAuthProvider,
+  PasswordlessMethod,
+  PasswordUpdate,
+  Session,
+  User
+} from './AuthService';
+
+/**
+ * Session lifecycle status
+ * - 'authenticated': signed in with a valid session
+ * - 'refreshing': the access token is being refreshed
+ * - 'expired': the session ran out and could not be refreshed (sign in again)
+ * - 'anonymous': not signed in
+ */
+export type AuthStatus = 'authenticated' | 'refreshing' | 'expired' | 'anonymous';
+
+/**
+ * Passwordless sign-in progress
+ * - 'idle': nothing requested
+ * - 'sending': email is being requested
+ * - 'link_sent': magic link sent, waiting for the user to open it
+ * - 'code_sent': code sent, awaiting verification
+ * - 'verifying': code is being verified
+ */
+export type PasswordlessStatus = 'idle' | 'sending' | 'link_sent' | 'code_sent' | 'verifying';
 
 /**
  * Auth context value type
  */
 interface AuthContextValue {
   user: User | null;
+  session: Session | null;
+  status: AuthStatus;
   loading: boolean;
+  /** Set while a sign-in (password, code, link, OAuth or password reset) waits for its TOTP code */
+  mfaChallenge: MfaChallenge | null;
+  login: (credentials: LoginCredentials) => Promise<LoginResult>;
+  verifyMfa: (code: string) => Promise<User>;
+  cancelMfa: () => void;
+  enrollMfa: (friendlyName?: string) => Promise<MfaEnrollment>;
+  verifyMfaEnrollment: (factorId: string, code: string) => Promise<void>;
+  listMfaFactors: () => Promise<MfaFactor[]>;
+  removeMfaFactor: (factorId: string) => Promise<void>;
+  passwordlessStatus: PasswordlessStatus;
+  /** Email the last magic link / code was sent to */
+  passwordlessEmail: string | null;
+  requestPasswordlessLogin: (email: string, method?: PasswordlessMethod) => Promise<void>;
+  verifyOtp: (token: string) => Promise<LoginResult>;
+  /** OAuth providers to offer as sign-in buttons */
+  oauthProviders: OAuthProvider[];
+  /** Identities linked to the current account */
+  identities: Identity[];
+  signInWithOAuth: (provider: OAuthProvider) => Promise<void>;
+  linkIdentity: (provider: OAuthProvider) => Promise<void>;
+  unlinkIdentity: (identityId: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  completePasswordReset: (newPassword: string) => Promise<LoginResult>;
+  updatePassword: (update: PasswordUpdate) => Promise<void>;
+  requestEmailChange: (newEmail: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
+  listSessions: () => Promise<ActiveSession[]>;
+  revokeSession: (sessionId: string) => Promise<void>;
+  signOutOtherSessions: () => Promise<void>;
   logout: () => Promise<void>;
 }
 
@@ -16,6 +83,8 @@ interface AuthContextValue {
  */
 interface AuthProviderProps {
   children: ReactNode;
+  /** Auth service to use (default: selected by createAuthService from config) */
+  service?: AuthService;
 }
 
 /**
@@ -35,17 +104,114 @@ const AuthContext = createContext<AuthContextValue | undefined>(undefined);
  *   <App />
  * </AuthProvider>
  * ```
+ * 
+ * @example
+ * ```tsx
+ * // Offline development / tests
+ * <AuthProvider service={new InMemoryAuthProvider()}>
+ *   <App />
+ * </AuthProvider>
+ * ```
  */
-export function AuthProvider({ children }: AuthProviderProps) {
+export function AuthProvider({ children, service }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [status, setStatus] = useState<AuthStatus>('anonymous');
   const [loading, setLoading] = useState<boolean>(true);
-  const [authService] = useState(() => new SupabaseAuthProvider());
+  const [passwordlessStatus, setPasswordlessStatus] = useState<PasswordlessStatus>('idle');
+  const [passwordlessEmail, setPasswordlessEmail] = useState<string | null>(null);
+  const [identities, setIdentities] = useState<Identity[]>([]);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [authService] = useState<AuthService>(() => service ?? createAuthService());
+  const schedulerRef = useRef<SessionRefreshScheduler | null>(null);
+  const broadcastRef = useRef<AuthBroadcast | null>(null);
+  // New password of a reset that waits for the second factor
+  const pendingPasswordRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Refresh ahead of expiry and keep other tabs in sync
+    const broadcast = new AuthBroadcast();
+    const scheduler = new SessionRefreshScheduler({
+      // One tab refreshes at a time; a tab that waited adopts the session refreshed meanwhile
+      refresh: (due) => broadcast.withLock(async () => {
+        const current = await authService.getSession();
+        if (current && current.expires_at > due.expires_at) {
+          return current;
+        }
+
+        await authService.refreshToken();
+        return authService.getSession();
+      }),
+      onRefreshing: () => setStatus('refreshing'),
+      onRefreshed: (refreshed) => {
+        setSession(refreshed);
+        setStatus('authenticated');
+        broadcast.post('refresh');
+      },
+      onExpired: () => {
+        setStatus('expired');
+        setSession(null);
+        setUser(null);
+      }
+    });
+
+    const unsubscribe = broadcast.subscribe((event) => {
+      if (event.type === 'logout') {
+        setStatus('anonymous');
+        setUser(null);
+        return;
+      }
+
+      if (event.type === 'refresh') {
+        // Another tab refreshed: reschedule from its session instead of refreshing again
+        authService.getSession()
+          .then((current) => {
+            if (current) {
+              setSession(current);
+              scheduler.schedule(current);
+            }
+          })
+          .catch(() => {
+            // The scheduled refresh still runs and adopts the newer session
+          });
+        return;
+      }
+
+      // Another tab signed in or refreshed: adopt its session
+      authService.getUser()
+        .then(setUser)
+        .catch(() => setUser(null));
+    });
+
+    schedulerRef.current = scheduler;
+    broadcastRef.current = broadcast;
+
+    return () => {
+      unsubscribe();
+      scheduler.stop();
+      broadcast.close();
+      schedulerRef.current = null;
+      broadcastRef.current = null;
+    };
+  }, [authService]);
 
   useEffect(() => {
     // Check for existing session on mount
     const initAuth = async () => {
       try {
-        const currentUser = await authService.getUser();
+        // Complete magic link / OAuth sign-in if we were redirected back with one
+        const linked = await authService.completeSessionFromUrl().catch(() => null);
+        if (linked && typeof window !== 'undefined') {
+          window.history.replaceState(null, '', window.location.pathname);
+        }
+
+        if (linked?.status === 'mfa_required') {
+          setMfaChallenge(linked.challenge);
+          setUser(null);
+          return;
+        }
+
+        const currentUser = linked?.user ?? await authService.getUser();
         setUser(currentUser);
       } catch (error) {
         // Session check failed, user is not authenticated
@@ -58,11 +224,320 @@ export function AuthProvider({ children }: AuthProviderProps) {
     initAuth();
 
     // Subscribe to auth state changes
-    authService.onAuthStateChange((newUser) => {
+    const unsubscribe = authService.onAuthStateChange((newUser) => {
       setUser(newUser);
       setLoading(false);
     });
-  }, [authService]);
+
+    return () => {
+      unsubscribe();
+      // A service created here has no other owner (an injected one is left to its creator)
+      if (!service) {
+        authService.dispose();
+      }
+    };
+  }, [authService, service]);
+
+  useEffect(() => {
+    // Track the session of the signed-in user and schedule its refresh
+    if (!user) {
+      schedulerRef.current?.stop();
+      setSession(null);
+      setStatus((previous) => (previous === 'expired' ? 'expired' : 'anonymous'));
+      return;
+    }
+
+    authService.getSession()
+      .then((currentSession) => {
+        if (!currentSession) {
+          // Signed in without a session: it ran out before it could be restored
+          schedulerRef.current?.stop();
+          setStatus('expired');
+          setSession(null);
+          setUser(null);
+          return;
+        }
+
+        setSession(currentSession);
+        setStatus('authenticated');
+        schedulerRef.current?.schedule(currentSession);
+      })
+      .catch(() => setSession(null));
+  }, [authService, user]);
+
+  useEffect(() => {
+    // Reload linked identities whenever the signed-in user changes
+    if (!user) {
+      setIdentities([]);
+      return;
+    }
+
+    authService.getIdentities()
+      .then(setIdentities)
+      .catch(() => setIdentities([]));
+  }, [authService, user]);
+
+  /**
+   * Signs the user in, or holds the challenge until verifyMfa succeeds
+   */
+  const applyLoginResult = (result: LoginResult) => {
+    if (result.status === 'mfa_required') {
+      setMfaChallenge(result.challenge);
+      return;
+    }
+
+    setMfaChallenge(null);
+    setUser(result.user);
+    broadcastRef.current?.post('login');
+  };
+
+  /**
+   * Logs in with email and password
+   * 
+   * If the account has MFA enabled, `mfaChallenge` is set and the user stays
+   * signed out until verifyMfa succeeds.
+   * 
+   * @param credentials - Email and password
+   * @returns Promise resolving to the login result
+   */
+  const login = async (credentials: LoginCredentials): Promise<LoginResult> => {
+    const result = await authService.login(credentials);
+    applyLoginResult(result);
+    return result;
+  };
+
+  /**
+   * Completes a pending MFA login
+   * 
+   * A password reset waiting for the second factor sets its new password now.
+   * 
+   * @param code - 6-digit code from the authenticator app
+   * @returns Promise resolving to the authenticated user
+   */
+  const verifyMfa = async (code: string): Promise<User> => {
+    if (!mfaChallenge) {
+      throw new AuthError('auth/no_mfa_challenge', 'No MFA challenge pending');
+    }
+
+    let verifiedUser = await authService.verifyMfaChallenge(mfaChallenge, code);
+    const pendingPassword = pendingPasswordRef.current;
+    if (pendingPassword) {
+      pendingPasswordRef.current = null;
+      const result = await authService.completePasswordReset(pendingPassword);
+      if (result.status === 'authenticated') {
+        verifiedUser = result.user;
+      }
+    }
+
+    setMfaChallenge(null);
+    setUser(verifiedUser);
+    broadcastRef.current?.post('login');
+    return verifiedUser;
+  };
+
+  /**
+   * Abandons a pending MFA login
+   */
+  const cancelMfa = () => {
+    setMfaChallenge(null);
+    pendingPasswordRef.current = null;
+    authService.logout().catch(() => {
+      // Nothing to clean up if the half-open session is already gone
+    });
+  };
+
+  /**
+   * Starts TOTP enrollment
+   * 
+   * @param friendlyName - Optional factor label
+   * @returns Promise resolving to the otpauth URI / QR code to show
+   */
+  const enrollMfa = async (friendlyName?: string): Promise<MfaEnrollment> => {
+    return authService.enrollMfa(friendlyName);
+  };
+
+  /**
+   * Confirms TOTP enrollment with the first code
+   * 
+   * @param factorId - The factor from enrollMfa
+   * @param code - 6-digit code
+   */
+  const verifyMfaEnrollment = async (factorId: string, code: string) => {
+    await authService.verifyMfaEnrollment(factorId, code);
+  };
+
+  /**
+   * Lists the MFA factors of the current user
+   * 
+   * @returns Promise resolving to factors
+   */
+  const listMfaFactors = async (): Promise<MfaFactor[]> => {
+    return authService.listMfaFactors();
+  };
+
+  /**
+   * Removes an MFA factor
+   * 
+   * @param factorId - The factor ID
+   */
+  const removeMfaFactor = async (factorId: string) => {
+    await authService.removeMfaFactor(factorId);
+  };
+
+  /**
+   * Sends a magic link or one-time code to the given email
+   * 
+   * @param email - The email to sign in with
+   * @param method - 'magic_link' (default) or 'code'
+   */
+  const requestPasswordlessLogin = async (email: string, method: PasswordlessMethod = 'magic_link') => {
+    setPasswordlessStatus('sending');
+    try {
+      await authService.requestPasswordlessLogin({ email, method });
+      setPasswordlessEmail(email);
+      setPasswordlessStatus(method === 'code' ? 'code_sent' : 'link_sent');
+    } catch (error) {
+      setPasswordlessStatus('idle');
+      throw error;
+    }
+  };
+
+  /**
+   * Verifies the one-time code sent to passwordlessEmail
+   * 
+   * If the account has MFA enabled, `mfaChallenge` is set as with login.
+   * 
+   * @param token - The code entered by the user
+   * @returns Promise resolving to the login result
+   */
+  const verifyOtp = async (token: string): Promise<LoginResult> => {
+    if (!passwordlessEmail) {
+      throw new AuthError('auth/no_otp_requested', 'No login code has been requested');
+    }
+
+    setPasswordlessStatus('verifying');
+    try {
+      const result = await authService.verifyOtp({ email: passwordlessEmail, token });
+      applyLoginResult(result);
+      setPasswordlessStatus('idle');
+      setPasswordlessEmail(null);
+      return result;
+    } catch (error) {
+      // Keep the code step open so the user can retry
+      setPasswordlessStatus('code_sent');
+      throw error;
+    }
+  };
+
+  /**
+   * Starts OAuth sign-in (redirects away from the app)
+   * 
+   * @param provider - 'google', 'apple' or 'github'
+   */
+  const signInWithOAuth = async (provider: OAuthProvider) => {
+    await authService.signInWithOAuth(provider);
+  };
+
+  /**
+   * Links another OAuth identity to the current account (redirects away from the app)
+   * 
+   * @param provider - 'google', 'apple' or 'github'
+   */
+  const linkIdentity = async (provider: OAuthProvider) => {
+    await authService.linkIdentity(provider);
+  };
+
+  /**
+   * Unlinks an identity from the current account
+   * 
+   * @param identityId - The identity ID from `identities`
+   */
+  const unlinkIdentity = async (identityId: string) => {
+    await authService.unlinkIdentity(identityId);
+    setIdentities(await authService.getIdentities());
+  };
+
+  /**
+   * Sends a password reset email
+   * 
+   * @param email - The account's email address
+   */
+  const requestPasswordReset = async (email: string) => {
+    await authService.requestPasswordReset(email);
+  };
+
+  /**
+   * Sets a new password on the page opened from the reset link
+   * 
+   * If the account has MFA enabled, `mfaChallenge` is set and the password is
+   * changed once verifyMfa succeeds.
+   * 
+   * @param newPassword - The new password
+   * @returns Promise resolving to the login result
+   */
+  const completePasswordReset = async (newPassword: string): Promise<LoginResult> => {
+    const result = await authService.completePasswordReset(newPassword);
+    pendingPasswordRef.current = result.status === 'mfa_required' ? newPassword : null;
+    applyLoginResult(result);
+    return result;
+  };
+
+  /**
+   * Changes the password of the signed-in user
+   * 
+   * @param update - New password and optionally the current one
+   */
+  const updatePassword = async (update: PasswordUpdate) => {
+    await authService.updatePassword(update);
+  };
+
+  /**
+   * Sends a confirmation link to a new email address
+   * 
+   * @param newEmail - The new email address
+   */
+  const requestEmailChange = async (newEmail: string) => {
+    await authService.requestEmailChange(newEmail);
+  };
+
+  /**
+   * Re-sends the verification email for the signed-in user
+   */
+  const resendVerification = async () => {
+    await authService.resendVerification();
+  };
+
+  /**
+   * Lists the devices the current user is signed in on
+   * 
+   * @returns Promise resolving to active sessions
+   */
+  const listSessions = async (): Promise<ActiveSession[]> => {
+    return authService.listSessions();
+  };
+
+  /**
+   * Signs a single device out
+   * 
+   * @param sessionId - The session ID from listSessions
+   */
+  const revokeSession = async (sessionId: string) => {
+    const sessions = await authService.listSessions();
+    await authService.revokeSession(sessionId);
+
+    if (sessions.some((entry) => entry.id === sessionId && entry.current)) {
+      setStatus('anonymous');
+      setUser(null);
+      broadcastRef.current?.post('logout');
+    }
+  };
+
+  /**
+   * Signs out every other device (e.g. after losing a phone)
+   */
+  const signOutOtherSessions = async () => {
+    await authService.signOutOtherSessions();
+  };
 
   /**
    * Logs out the current user
@@ -70,18 +545,46 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const logout = async () => {
     try {
       await authService.logout();
+      setStatus('anonymous');
       setUser(null);
+      setMfaChallenge(null);
+      pendingPasswordRef.current = null;
+      broadcastRef.current?.post('logout');
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Logout failed: ${error.message}`);
-      }
-      throw new Error('Logout failed with unknown error');
+      throw toAppError(error, 'Logout failed', 'auth');
     }
   };
 
   const value: AuthContextValue = {
     user,
+    session,
+    status,
     loading,
+    mfaChallenge,
+    login,
+    verifyMfa,
+    cancelMfa,
+    enrollMfa,
+    verifyMfaEnrollment,
+    listMfaFactors,
+    removeMfaFactor,
+    passwordlessStatus,
+    passwordlessEmail,
+    requestPasswordlessLogin,
+    verifyOtp,
+    oauthProviders: authService.getOAuthProviders(),
+    identities,
+    signInWithOAuth,
+    linkIdentity,
+    unlinkIdentity,
+    requestPasswordReset,
+    completePasswordReset,
+    updatePassword,
+    requestEmailChange,
+    resendVerification,
+    listSessions,
+    revokeSession,
+    signOutOtherSessions,
     logout
   };
 
@@ -93,16 +596,18 @@ export function AuthProvider({ children }: AuthProviderProps) {
  * 
  * Must be used within an AuthProvider component.
  * 
- * @returns Authentication context value with user, loading state, and logout method
+ * @returns Authentication context value with user, loading state, sign-in, account recovery, linked identities and logout methods
  * @throws Error if used outside of AuthProvider
  * 
  * @example
  * ```tsx
  * function MyComponent() {
- *   const { user, loading, logout } = useAuth();
+ *   const { user, status, loading, logout } = useAuth();
  *   
  *   if (loading) return <div>Loading...</div>;
+ *   if (status === 'expired') return <div>Your session expired, please sign in again</div>;
  *   if (!user) return <div>Not authenticated</div>;
+ *   if (!user.email_verified) return <div>Please confirm your email to post moments</div>;
  *   
  *   return <button onClick={logout}>Logout</button>;
  * }
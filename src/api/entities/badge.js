@@ -1,4 +1,6 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
 
 /**
  * Create a new badge
@@ -13,7 +15,7 @@ export const create = async (data) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to create badge: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to create badge');
   return created;
 };
 
@@ -30,7 +32,7 @@ export const getById = async (id) => {
     .eq('id', id)
     .single();
   
-  if (error) throw new Error(`Failed to get badge by id: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to get badge by id');
   return data;
 };
 
@@ -40,21 +42,17 @@ export const getById = async (id) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of badge objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of badge objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByUser = async (userId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('badges')
     .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('user_id', userId);
   
-  if (error) throw new Error(`Failed to get badges by user: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get badges by user');
 };
 
 /**
@@ -63,21 +61,17 @@ export const getByUser = async (userId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of badge objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of badge objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByCircle = async (circleId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('badges')
     .select('*')
-    .eq('circle_id', circleId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('circle_id', circleId);
   
-  if (error) throw new Error(`Failed to get badges by circle: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get badges by circle');
 };
 
 /**
@@ -87,22 +81,18 @@ export const getByCircle = async (circleId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of badge objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of badge objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByUserCircle = async (userId, circleId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('badges')
     .select('*')
     .eq('user_id', userId)
-    .eq('circle_id', circleId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('circle_id', circleId);
   
-  if (error) throw new Error(`Failed to get badges by user and circle: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get badges by user and circle');
 };
 
 /**
@@ -110,20 +100,16 @@ export const getByUserCircle = async (userId, circleId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of badge objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of badge objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const list = async (options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('badges')
-    .select('*')
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .select('*');
   
-  if (error) throw new Error(`Failed to list badges: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to list badges');
 };
 
 /**
@@ -132,11 +118,11 @@ export const list = async (options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of badge objects matching filters
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of badge objects matching filters, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const filter = async (filters = {}, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
   let query = supabase.from('badges').select('*');
   
   for (const [key, value] of Object.entries(filters)) {
@@ -145,13 +131,6 @@ export const filter = async (filters = {}, options = {}) => {
     }
   }
   
-  query = query
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
-  
-  const { data, error } = await query;
-  
-  if (error) throw new Error(`Failed to filter badges: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to filter badges');
 };
 
@@ -1,4 +1,6 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
 
 /**
  * Create a new circle
@@ -13,7 +15,7 @@ export const create = async (data) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to create circle: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to create circle');
   return created;
 };
 
@@ -30,7 +32,7 @@ export const getById = async (id) => {
     .eq('id', id)
     .single();
   
-  if (error) throw new Error(`Failed to get circle by id: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to get circle by id');
   return data;
 };
 
@@ -40,21 +42,17 @@ export const getById = async (id) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of circle objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of circle objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByCreator = async (userId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('circles')
     .select('*')
-    .eq('created_by', userId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('created_by', userId);
   
-  if (error) throw new Error(`Failed to get circles by creator: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get circles by creator');
 };
 
 /**
@@ -62,21 +60,17 @@ export const getByCreator = async (userId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of public circle objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of public circle objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getPublic = async (options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('circles')
     .select('*')
-    .eq('is_public', true)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('is_public', true);
   
-  if (error) throw new Error(`Failed to get public circles: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get public circles');
 };
 
 /**
@@ -84,20 +78,16 @@ export const getPublic = async (options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of circle objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of circle objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const list = async (options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('circles')
-    .select('*')
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .select('*');
   
-  if (error) throw new Error(`Failed to list circles: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to list circles');
 };
 
 /**
@@ -106,11 +96,11 @@ export const list = async (options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of circle objects matching filters
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of circle objects matching filters, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const filter = async (filters = {}, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
   let query = supabase.from('circles').select('*');
   
   for (const [key, value] of Object.entries(filters)) {
@@ -119,14 +109,7 @@ export const filter = async (filters = {}, options = {}) => {
     }
   }
   
-  query = query
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
-  
-  const { data, error } = await query;
-  
-  if (error) throw new Error(`Failed to filter circles: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to filter circles');
 };
 
 /**
@@ -144,7 +127,7 @@ export const update = async (id, data) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to update circle: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to update circle');
   return updated;
 };
 
@@ -160,6 +143,6 @@ export const deleteById = async (id) => {
     .delete()
     .eq('id', id);
   
-  if (error) throw new Error(`Failed to delete circle: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to delete circle');
 };
 
@@ -1,4 +1,6 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
 
 /**
  * Create a circle membership (add user to circle)
@@ -15,7 +17,7 @@ export const create = async (userId, circleId, role = 'member') => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to create circle membership: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to create circle membership');
   return data;
 };
 
@@ -32,7 +34,7 @@ export const getById = async (id) => {
     .eq('id', id)
     .single();
   
-  if (error) throw new Error(`Failed to get membership by id: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to get membership by id');
   return data;
 };
 
@@ -42,21 +44,17 @@ export const getById = async (id) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of membership objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of membership objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByUser = async (userId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('circle_memberships')
     .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('user_id', userId);
   
-  if (error) throw new Error(`Failed to get memberships by user: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get memberships by user');
 };
 
 /**
@@ -65,21 +63,17 @@ export const getByUser = async (userId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of membership objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of membership objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByCircle = async (circleId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('circle_memberships')
     .select('*')
-    .eq('circle_id', circleId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('circle_id', circleId);
   
-  if (error) throw new Error(`Failed to get memberships by circle: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get memberships by circle');
 };
 
 /**
@@ -99,7 +93,7 @@ export const update = async (userId, circleId, data) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to update membership: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to update membership');
   return updated;
 };
 
@@ -117,6 +111,6 @@ export const deleteById = async (userId, circleId) => {
     .eq('user_id', userId)
     .eq('circle_id', circleId);
   
-  if (error) throw new Error(`Failed to delete membership: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to delete membership');
 };
 
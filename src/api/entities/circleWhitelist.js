@@ -1,4 +1,6 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
 
 /**
  * Add a user to a circle's whitelist
@@ -14,7 +16,7 @@ export const create = async (circleId, userId) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to create whitelist entry: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to create whitelist entry');
   return data;
 };
 
@@ -24,21 +26,17 @@ export const create = async (circleId, userId) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of whitelist entry objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of whitelist entry objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByCircle = async (circleId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('circle_whitelist')
     .select('*')
-    .eq('circle_id', circleId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('circle_id', circleId);
   
-  if (error) throw new Error(`Failed to get whitelist by circle: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get whitelist by circle');
 };
 
 /**
@@ -55,6 +53,6 @@ export const deleteById = async (circleId, userId) => {
     .eq('circle_id', circleId)
     .eq('user_id', userId);
   
-  if (error) throw new Error(`Failed to delete whitelist entry: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to delete whitelist entry');
 };
 
@@ -1,4 +1,6 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
 
 /**
  * Create a new comment
@@ -13,7 +15,7 @@ export const create = async (data) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to create comment: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to create comment');
   return created;
 };
 
@@ -30,7 +32,7 @@ export const getById = async (id) => {
     .eq('id', id)
     .single();
   
-  if (error) throw new Error(`Failed to get comment by id: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to get comment by id');
   return data;
 };
 
@@ -40,21 +42,17 @@ export const getById = async (id) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of comment objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of comment objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByMoment = async (momentId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('comments')
     .select('*')
-    .eq('moment_id', momentId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('moment_id', momentId);
   
-  if (error) throw new Error(`Failed to get comments by moment: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get comments by moment');
 };
 
 /**
@@ -62,20 +60,16 @@ export const getByMoment = async (momentId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of comment objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of comment objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const list = async (options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('comments')
-    .select('*')
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .select('*');
   
-  if (error) throw new Error(`Failed to list comments: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to list comments');
 };
 
 /**
@@ -93,7 +87,7 @@ export const update = async (id, content) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to update comment: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to update comment');
   return data;
 };
 
@@ -109,6 +103,6 @@ export const deleteById = async (id) => {
     .delete()
     .eq('id', id);
   
-  if (error) throw new Error(`Failed to delete comment: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to delete comment');
 };
 
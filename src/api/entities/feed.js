@@ -0,0 +1,29 @@
+import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { DEFAULT_LIMIT, toPage } from './pagination.js';
+
+/**
+ * Get the home feed of the signed-in user in one request (home_feed RPC, see SUPABASE_SETUP.md)
+ *
+ * Merges moments from accepted follows and from every circle the user is a member of,
+ * de-duplicated, newest first (created_at DESC, id DESC), without soft-deleted moments.
+ * Each item is a moment with `author`, `like_count`, `comment_count` and `liked_by_me`.
+ *
+ * @param {Object} options - Cursor pagination options
+ * @param {number} options.limit - Maximum number of items to return (default: 20)
+ * @param {Object|null} options.cursor - nextCursor of the previous page (default: null, first page)
+ * @returns {Promise<Object>} { items, nextCursor, hasMore }
+ * @throws {Error} If query fails (AuthError when not signed in)
+ */
+export const getHome = async (options = {}) => {
+  const { limit = DEFAULT_LIMIT, cursor = null } = options;
+
+  const { data, error } = await supabase.rpc('home_feed', {
+    p_limit: limit + 1,
+    p_cursor_created_at: cursor?.created_at ?? null,
+    p_cursor_id: cursor?.id ?? null
+  });
+
+  if (error) throw fromDatabaseError(error, 'Failed to get home feed');
+  return toPage(data, limit);
+};
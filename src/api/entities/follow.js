@@ -1,4 +1,6 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
 
 /**
  * Create a follow relationship
@@ -14,7 +16,7 @@ export const create = async (followerId, followingId) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to create follow: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to create follow');
   return data;
 };
 
@@ -24,21 +26,17 @@ export const create = async (followerId, followingId) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of follow objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of follow objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getFollowing = async (userId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('follows')
     .select('*')
-    .eq('follower_id', userId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('follower_id', userId);
   
-  if (error) throw new Error(`Failed to get following: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get following');
 };
 
 /**
@@ -47,21 +45,17 @@ export const getFollowing = async (userId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of follow objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of follow objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getFollowers = async (userId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('follows')
     .select('*')
-    .eq('following_id', userId)
-    .order('created_at', { ascending: false })
-    .range(offset, offset + limit - 1);
+    .eq('following_id', userId);
   
-  if (error) throw new Error(`Failed to get followers: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get followers');
 };
 
 /**
@@ -81,7 +75,7 @@ export const update = async (followerId, followingId, accepted) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to update follow: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to update follow');
   return data;
 };
 
@@ -99,6 +93,6 @@ export const deleteById = async (followerId, followingId) => {
     .eq('follower_id', followerId)
     .eq('following_id', followingId);
   
-  if (error) throw new Error(`Failed to delete follow: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to delete follow');
 };
 
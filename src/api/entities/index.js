@@ -1,12 +1,67 @@
-// Namespace exports for all entity modules
-export * as Profile from './profile.js';
-export * as Moment from './moment.js';
-export * as Circle from './circle.js';
-export * as MomentCircle from './momentCircle.js';
-export * as CircleMembership from './circleMembership.js';
-export * as Like from './like.js';
-export * as Comment from './comment.js';
-export * as Follow from './follow.js';
-export * as Badge from './badge.js';
-export * as CircleWhitelist from './circleWhitelist.js';
+import { isSupabaseConfigured } from '../supabase.ts';
+import { createInMemoryRepositories } from './memory.js';
+import * as SupabaseProfile from './profile.js';
+import * as SupabaseMoment from './moment.js';
+import * as SupabaseCircle from './circle.js';
+import * as SupabaseMomentCircle from './momentCircle.js';
+import * as SupabaseCircleMembership from './circleMembership.js';
+import * as SupabaseLike from './like.js';
+import * as SupabaseComment from './comment.js';
+import * as SupabaseFollow from './follow.js';
+import * as SupabaseBadge from './badge.js';
+import * as SupabaseCircleWhitelist from './circleWhitelist.js';
+import * as SupabaseFeed from './feed.js';
 
+/**
+ * Supabase-backed repositories (the entity modules in this folder)
+ * @type {import('./repositories').Repositories}
+ */
+const supabaseRepositories = {
+  Profile: SupabaseProfile,
+  Moment: SupabaseMoment,
+  Circle: SupabaseCircle,
+  MomentCircle: SupabaseMomentCircle,
+  CircleMembership: SupabaseCircleMembership,
+  Like: SupabaseLike,
+  Comment: SupabaseComment,
+  Follow: SupabaseFollow,
+  Badge: SupabaseBadge,
+  CircleWhitelist: SupabaseCircleWhitelist,
+  Feed: SupabaseFeed
+};
+
+/**
+ * Create the entity repositories for a backend
+ * Backend is taken from the argument, then VITE_DATA_BACKEND; falls back to
+ * 'memory' when Supabase is not configured
+ * @param {import('./repositories').DataBackend} [backend] - 'supabase' or 'memory'
+ * @param {Object} [seed] - Initial rows per table (memory backend only)
+ * @param {Object} [options] - Memory backend settings, e.g. { currentUserId } (see createInMemoryRepositories)
+ * @returns {import('./repositories').Repositories} Repositories for the selected backend
+ */
+export const createRepositories = (backend, seed, options) => {
+  const selected = backend
+    ?? import.meta.env.VITE_DATA_BACKEND
+    ?? (isSupabaseConfigured ? 'supabase' : 'memory');
+
+  if (selected === 'memory') {
+    return createInMemoryRepositories(seed, options);
+  }
+
+  return supabaseRepositories;
+};
+
+// Namespace exports for all entities, bound to the configured backend
+export const {
+  Profile,
+  Moment,
+  Circle,
+  MomentCircle,
+  CircleMembership,
+  Like,
+  Comment,
+  Follow,
+  Badge,
+  CircleWhitelist,
+  Feed
+} = createRepositories();
@@ -1,4 +1,6 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
 
 /**
  * Toggle like on a moment (like if not liked, unlike if already liked)
@@ -25,7 +27,7 @@ export const create = async (userId, momentId) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to like: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to like');
   return data;
 };
 
@@ -35,20 +37,17 @@ export const create = async (userId, momentId) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of like objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of like objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByMoment = async (momentId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('likes')
     .select('*')
-    .eq('moment_id', momentId)
-    .range(offset, offset + limit - 1);
+    .eq('moment_id', momentId);
   
-  if (error) throw new Error(`Failed to get likes by moment: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get likes by moment');
 };
 
 /**
@@ -57,20 +56,17 @@ export const getByMoment = async (momentId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of like objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of like objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByUser = async (userId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('likes')
     .select('*')
-    .eq('user_id', userId)
-    .range(offset, offset + limit - 1);
+    .eq('user_id', userId);
   
-  if (error) throw new Error(`Failed to get likes by user: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get likes by user');
 };
 
 /**
@@ -85,6 +81,6 @@ export const deleteById = async (likeId) => {
     .delete()
     .eq('id', likeId);
   
-  if (error) throw new Error(`Failed to delete like: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to delete like');
 };
 
@@ -0,0 +1,354 @@
+import { fromDatabaseError } from '../errors.ts';
+import { SIMILAR_MOMENT_DEFAULTS, daysAgo, deleteMomentImages, rankSimilar } from './momentImages.js';
+import { DEFAULT_LIMIT, compareNewest, isAfterCursor, isCursorRequest, toPage } from './pagination.js';
+
+/**
+ * In-memory implementation of all entity repositories
+ *
+ * Mirrors the Supabase modules: same function names, pagination defaults,
+ * ordering and offset/cursor pagination (pagination.js), soft delete (hidden
+ * from reads unless includeDeleted), restore and purge for moments, like toggle
+ * and composite keys. Intended for offline development and tests.
+ */
+
+// PostgREST error shapes, so both backends throw the same NotFoundError / ConflictError codes
+const NOT_FOUND = { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' };
+const DUPLICATE_KEY = { code: '23505', message: 'duplicate key value violates unique constraint' };
+const PERMISSION_DENIED = { code: '42501', message: 'permission denied' };
+
+/**
+ * Create a fresh set of in-memory repositories
+ * @param {Object} seed - Optional initial rows per table (e.g., { moments: [...], profiles: [...] })
+ * @param {Object} options - Optional settings
+ * @param {() => string|null} options.currentUserId - Signed-in user, stands in for auth.uid() (default: nobody)
+ * @returns {import('./repositories').Repositories} Repositories backed by in-memory tables
+ */
+export const createInMemoryRepositories = (seed = {}, options = {}) => {
+  const { currentUserId = () => null } = options;
+  const db = {
+    profiles: [],
+    moments: [],
+    circles: [],
+    moment_circles: [],
+    circle_memberships: [],
+    likes: [],
+    comments: [],
+    follows: [],
+    badges: [],
+    circle_whitelist: []
+  };
+
+  for (const [table, rows] of Object.entries(seed)) {
+    if (db[table]) db[table] = rows.map(row => withDefaults(row));
+  }
+
+  const Profile = {
+    getByEmail: async (email) => single(db.profiles, { email }, 'get profile by email'),
+    getByUsername: async (username) => single(db.profiles, { username }, 'get profile by username'),
+    getById: async (id) => single(db.profiles, { id }, 'get profile by id'),
+    list: async (options = {}) => page(db.profiles, options),
+    update: async (id, data) => updateOne(db.profiles, { id }, data, 'update profile'),
+    filter: async (filters = {}, options = {}) => page(where(db.profiles, filters), options)
+  };
+
+  const Moment = {
+    create: async (data) => insert(db.moments, data, 'create moment'),
+    getById: async (id, options = {}) => single(withoutDeleted(db.moments, options), { id }, 'get moment by id'),
+    getByUser: async (userId, options = {}) =>
+      page(withoutDeleted(byKey(db.moments, { created_by: userId }), options), options),
+    getByCircle: async (circleId, options = {}) => page(withoutDeleted(momentsInCircle(circleId), options), options),
+    list: async (options = {}) => page(withoutDeleted(db.moments, options), options),
+    filter: async (filters = {}, options = {}) => page(withoutDeleted(where(db.moments, filters), options), options),
+    update: async (id, data) => updateOne(db.moments, { id }, data, 'update moment'),
+    deleteById: async (id) => updateOne(
+      db.moments,
+      { id },
+      { is_deleted: true, deleted_at: new Date().toISOString() },
+      'delete moment'
+    ),
+    restore: async (id) => updateOne(db.moments, { id }, { is_deleted: false, deleted_at: null }, 'restore moment'),
+    hardDeleteById: async (id) => {
+      remove(db.moment_circles, { moment_id: id });
+      remove(db.moments, { id });
+    },
+    findSimilar: async (userId, hash, options = {}) => {
+      const {
+        threshold = SIMILAR_MOMENT_DEFAULTS.threshold,
+        recent = SIMILAR_MOMENT_DEFAULTS.recent,
+        excludeId
+      } = options;
+      const candidates = withoutDeleted(byKey(db.moments, { created_by: userId }))
+        .filter(moment => moment.image_hashes)
+        .sort(compareNewest)
+        .slice(0, recent)
+        .filter(moment => moment.id !== excludeId);
+
+      return rankSimilar(candidates, hash, threshold);
+    },
+    purgeDeleted: async (olderThanDays, storage) => {
+      const cutoff = daysAgo(olderThanDays);
+      const expired = db.moments.filter(moment => moment.is_deleted && moment.deleted_at < cutoff);
+      const purged = [];
+      const failed = [];
+
+      for (const moment of expired) {
+        try {
+          await deleteMomentImages(moment, storage);
+          await Moment.hardDeleteById(moment.id);
+          purged.push(moment.id);
+        } catch (error) {
+          failed.push({ id: moment.id, error });
+        }
+      }
+
+      return { purged, failed };
+    }
+  };
+
+  const Circle = {
+    create: async (data) => insert(db.circles, data, 'create circle'),
+    getById: async (id) => single(db.circles, { id }, 'get circle by id'),
+    getByCreator: async (userId, options = {}) => page(byKey(db.circles, { created_by: userId }), options),
+    getPublic: async (options = {}) => page(byKey(db.circles, { is_public: true }), options),
+    list: async (options = {}) => page(db.circles, options),
+    filter: async (filters = {}, options = {}) => page(where(db.circles, filters), options),
+    update: async (id, data) => updateOne(db.circles, { id }, data, 'update circle'),
+    deleteById: async (id) => remove(db.circles, { id })
+  };
+
+  const MomentCircle = {
+    create: async (momentId, circleId) => insertUnique(
+      db.moment_circles,
+      { moment_id: momentId, circle_id: circleId },
+      ['moment_id', 'circle_id'],
+      'create moment-circle link'
+    ),
+    getByMoment: async (momentId, options = {}) => page(byKey(db.moment_circles, { moment_id: momentId }), options),
+    getByCircle: async (circleId, options = {}) => page(withoutDeleted(momentsInCircle(circleId), options), options),
+    deleteById: async (momentId, circleId) => remove(db.moment_circles, { moment_id: momentId, circle_id: circleId })
+  };
+
+  const CircleMembership = {
+    create: async (userId, circleId, role = 'member') => insertUnique(
+      db.circle_memberships,
+      { user_id: userId, circle_id: circleId, role },
+      ['user_id', 'circle_id'],
+      'create circle membership'
+    ),
+    getById: async (id) => single(db.circle_memberships, { id }, 'get membership by id'),
+    getByUser: async (userId, options = {}) => page(byKey(db.circle_memberships, { user_id: userId }), options),
+    getByCircle: async (circleId, options = {}) => page(byKey(db.circle_memberships, { circle_id: circleId }), options),
+    update: async (userId, circleId, data) =>
+      updateOne(db.circle_memberships, { user_id: userId, circle_id: circleId }, data, 'update membership'),
+    deleteById: async (userId, circleId) => remove(db.circle_memberships, { user_id: userId, circle_id: circleId })
+  };
+
+  const Like = {
+    create: async (userId, momentId) => {
+      const [existing] = byKey(db.likes, { moment_id: momentId, user_id: userId });
+
+      if (existing) {
+        return Like.deleteById(existing.id);  // Already liked → unlike
+      }
+
+      return insert(db.likes, { moment_id: momentId, user_id: userId }, 'like');
+    },
+    getByMoment: async (momentId, options = {}) => page(byKey(db.likes, { moment_id: momentId }), options),
+    getByUser: async (userId, options = {}) => page(byKey(db.likes, { user_id: userId }), options),
+    deleteById: async (likeId) => remove(db.likes, { id: likeId })
+  };
+
+  const Comment = {
+    create: async (data) => insert(db.comments, data, 'create comment'),
+    getById: async (id) => single(db.comments, { id }, 'get comment by id'),
+    getByMoment: async (momentId, options = {}) => page(byKey(db.comments, { moment_id: momentId }), options),
+    list: async (options = {}) => page(db.comments, options),
+    update: async (id, content) => updateOne(db.comments, { id }, { content }, 'update comment'),
+    deleteById: async (id) => remove(db.comments, { id })
+  };
+
+  const Follow = {
+    create: async (followerId, followingId) => insertUnique(
+      db.follows,
+      { follower_id: followerId, following_id: followingId },
+      ['follower_id', 'following_id'],
+      'create follow'
+    ),
+    getFollowing: async (userId, options = {}) => page(byKey(db.follows, { follower_id: userId }), options),
+    getFollowers: async (userId, options = {}) => page(byKey(db.follows, { following_id: userId }), options),
+    update: async (followerId, followingId, accepted) =>
+      updateOne(db.follows, { follower_id: followerId, following_id: followingId }, { accepted }, 'update follow'),
+    deleteById: async (followerId, followingId) => remove(db.follows, { follower_id: followerId, following_id: followingId })
+  };
+
+  const Badge = {
+    create: async (data) => insert(db.badges, data, 'create badge'),
+    getById: async (id) => single(db.badges, { id }, 'get badge by id'),
+    getByUser: async (userId, options = {}) => page(byKey(db.badges, { user_id: userId }), options),
+    getByCircle: async (circleId, options = {}) => page(byKey(db.badges, { circle_id: circleId }), options),
+    getByUserCircle: async (userId, circleId, options = {}) =>
+      page(byKey(db.badges, { user_id: userId, circle_id: circleId }), options),
+    list: async (options = {}) => page(db.badges, options),
+    filter: async (filters = {}, options = {}) => page(where(db.badges, filters), options)
+  };
+
+  const Feed = {
+    getHome: async (options = {}) => {
+      // Like the home_feed RPC: only the signed-in user's own feed
+      const userId = currentUserId();
+      if (!userId) throw fromDatabaseError(PERMISSION_DENIED, 'Failed to get home feed');
+
+      const followed = new Set(byKey(db.follows, { follower_id: userId, accepted: true }).map(follow => follow.following_id));
+      const circles = new Set(byKey(db.circle_memberships, { user_id: userId }).map(membership => membership.circle_id));
+      const inCircles = new Set(
+        db.moment_circles.filter(link => circles.has(link.circle_id)).map(link => link.moment_id)
+      );
+      const moments = db.moments.filter(moment =>
+        !moment.is_deleted && (followed.has(moment.created_by) || inCircles.has(moment.id))
+      );
+
+      const { items, nextCursor, hasMore } = page(moments, { limit: options.limit, cursor: options.cursor ?? null });
+      return { items: items.map(moment => toFeedItem(moment, userId)), nextCursor, hasMore };
+    }
+  };
+
+  const CircleWhitelist = {
+    create: async (circleId, userId) => insertUnique(
+      db.circle_whitelist,
+      { circle_id: circleId, user_id: userId },
+      ['circle_id', 'user_id'],
+      'create whitelist entry'
+    ),
+    getByCircle: async (circleId, options = {}) => page(byKey(db.circle_whitelist, { circle_id: circleId }), options),
+    deleteById: async (circleId, userId) => remove(db.circle_whitelist, { circle_id: circleId, user_id: userId })
+  };
+
+  /**
+   * Embed author, counts and liked-by-me (same shape as the home_feed RPC)
+   */
+  const toFeedItem = (moment, userId) => {
+    const author = db.profiles.find(profile => profile.id === moment.created_by);
+    const likes = byKey(db.likes, { moment_id: moment.id });
+
+    return {
+      ...moment,
+      author: author ? { id: author.id, username: author.username ?? null, avatar_url: author.avatar_url ?? null } : null,
+      like_count: likes.length,
+      comment_count: byKey(db.comments, { moment_id: moment.id }).length,
+      liked_by_me: likes.some(like => like.user_id === userId)
+    };
+  };
+
+  /**
+   * Moments linked to a circle (like the `moment_circles!inner()` embed)
+   */
+  const momentsInCircle = (circleId) => {
+    const ids = new Set(byKey(db.moment_circles, { circle_id: circleId }).map(link => link.moment_id));
+    return db.moments.filter(moment => ids.has(moment.id));
+  };
+
+  return {
+    Profile,
+    Moment,
+    Circle,
+    MomentCircle,
+    CircleMembership,
+    Like,
+    Comment,
+    Follow,
+    Badge,
+    CircleWhitelist,
+    Feed
+  };
+};
+
+// Table helpers
+
+const copy = (row) => (row ? { ...row } : row);
+
+const withDefaults = (row) => ({
+  id: crypto.randomUUID(),
+  created_at: new Date().toISOString(),
+  ...row
+});
+
+/**
+ * Rows matching all non-null filter values (same rule as the Supabase filter functions)
+ */
+const where = (rows, filters) => rows.filter(row =>
+  Object.entries(filters).every(([key, value]) =>
+    value === undefined || value === null || row[key] === value
+  )
+);
+
+/**
+ * Rows whose key columns equal the given values; a missing (undefined/null) value
+ * matches nothing, like `.eq(column, undefined)` in Supabase
+ */
+const byKey = (rows, key) => rows.filter(row =>
+  Object.entries(key).every(([column, value]) =>
+    value !== undefined && value !== null && row[column] === value
+  )
+);
+
+/**
+ * Sorts newest first and pages by offset, or by cursor when options.cursor is set
+ */
+const page = (rows, options = {}) => {
+  const { limit = DEFAULT_LIMIT, offset = 0, cursor } = options;
+  const sorted = [...rows].sort(compareNewest);
+
+  if (!isCursorRequest(options)) {
+    return sorted.slice(offset, offset + limit).map(copy);
+  }
+
+  const remaining = cursor ? sorted.filter(row => isAfterCursor(row, cursor)) : sorted;
+  return toPage(remaining.slice(0, limit + 1).map(copy), limit);
+};
+
+/**
+ * Soft-deleted moments are hidden unless options.includeDeleted is set
+ */
+const withoutDeleted = (rows, options = {}) =>
+  options.includeDeleted ? rows : rows.filter(row => !row.is_deleted);
+
+const single = (rows, key, context) => {
+  const matches = byKey(rows, key);
+  if (matches.length !== 1) {
+    throw fromDatabaseError(NOT_FOUND, `Failed to ${context}`);
+  }
+  return copy(matches[0]);
+};
+
+const insert = (rows, data, context) => {
+  const row = withDefaults(data);
+  if (rows.some(existing => existing.id === row.id)) {
+    throw fromDatabaseError(DUPLICATE_KEY, `Failed to ${context}`);
+  }
+  rows.push(row);
+  return copy(row);
+};
+
+const insertUnique = (rows, data, keys, context) => {
+  const key = Object.fromEntries(keys.map(name => [name, data[name]]));
+  if (byKey(rows, key).length > 0) {
+    throw fromDatabaseError(DUPLICATE_KEY, `Failed to ${context}`);
+  }
+  return insert(rows, data, context);
+};
+
+const updateOne = (rows, key, data, context) => {
+  const [row] = byKey(rows, key);
+  if (!row) {
+    throw fromDatabaseError(NOT_FOUND, `Failed to ${context}`);
+  }
+  Object.assign(row, data);
+  return copy(row);
+};
+
+const remove = (rows, key) => {
+  const matches = new Set(byKey(rows, key));
+  for (let i = rows.length - 1; i >= 0; i--) {
+    if (matches.has(rows[i])) rows.splice(i, 1);
+  }
+};
@@ -0,0 +1,208 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createInMemoryRepositories } from './memory.js';
+import { ConflictError, NotFoundError } from '../errors.ts';
+
+const at = (minute) => `2025-06-01T12:${String(minute).padStart(2, '0')}:00.000Z`;
+
+describe('createInMemoryRepositories', () => {
+  it('creates, reads, updates and deletes rows', async () => {
+    const { Circle } = createInMemoryRepositories();
+
+    const circle = await Circle.create({ name: 'Climbing', created_by: 'u1', is_public: true });
+    expect(circle.id).toEqual(expect.any(String));
+    expect(await Circle.getById(circle.id)).toEqual(circle);
+
+    const updated = await Circle.update(circle.id, { name: 'Bouldering' });
+    expect(updated.name).toBe('Bouldering');
+
+    await Circle.deleteById(circle.id);
+    await expect(Circle.getById(circle.id)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('returns copies, not the stored rows', async () => {
+    const { Profile } = createInMemoryRepositories({ profiles: [{ id: 'u1', username: 'ada' }] });
+
+    const profile = await Profile.getById('u1');
+    profile.username = 'changed';
+
+    expect((await Profile.getById('u1')).username).toBe('ada');
+  });
+
+  it('throws NotFoundError with the Supabase code for missing rows', async () => {
+    const { Moment } = createInMemoryRepositories();
+
+    await expect(Moment.getById('missing')).rejects.toMatchObject({ code: 'db/not_found' });
+    await expect(Moment.update('missing', { caption: 'x' })).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('throws ConflictError for duplicate composite keys', async () => {
+    const { Follow } = createInMemoryRepositories();
+
+    await Follow.create('u1', 'u2');
+    await expect(Follow.create('u1', 'u2')).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  describe('missing key values', () => {
+    it('delete nothing', async () => {
+      const { Circle } = createInMemoryRepositories({ circles: [{ id: 'c1' }, { id: 'c2' }] });
+
+      await Circle.deleteById(undefined);
+      await Circle.deleteById(null);
+
+      expect(await Circle.list()).toHaveLength(2);
+    });
+
+    it('update nothing', async () => {
+      const { Moment } = createInMemoryRepositories({ moments: [{ id: 'm1', caption: 'keep' }] });
+
+      await expect(Moment.update(undefined, { caption: 'lost' })).rejects.toBeInstanceOf(NotFoundError);
+      expect((await Moment.getById('m1')).caption).toBe('keep');
+    });
+
+    it('match nothing in keyed lookups', async () => {
+      const { Profile, Moment, CircleMembership } = createInMemoryRepositories({
+        profiles: [{ id: 'u1' }],
+        moments: [{ id: 'm1', created_by: 'u1' }],
+        circle_memberships: [{ user_id: 'u1', circle_id: 'c1' }]
+      });
+
+      await expect(Profile.getById(undefined)).rejects.toBeInstanceOf(NotFoundError);
+      expect(await Moment.getByUser(undefined)).toEqual([]);
+      await CircleMembership.deleteById('u1', undefined);
+      expect(await CircleMembership.getByUser('u1')).toHaveLength(1);
+    });
+
+    it('are skipped by filter(), like the Supabase filter functions', async () => {
+      const { Circle } = createInMemoryRepositories({
+        circles: [{ id: 'c1', is_public: true }, { id: 'c2', is_public: false }]
+      });
+
+      expect(await Circle.filter({ is_public: true, created_by: undefined })).toHaveLength(1);
+      expect(await Circle.filter({ is_public: null })).toHaveLength(2);
+    });
+  });
+
+  describe('pagination', () => {
+    const seed = {
+      moments: Array.from({ length: 5 }, (_, i) => ({ id: `m${i}`, created_by: 'u1', created_at: at(i) }))
+    };
+
+    it('pages by offset, newest first', async () => {
+      const { Moment } = createInMemoryRepositories(seed);
+
+      const rows = await Moment.list({ limit: 2, offset: 1 });
+
+      expect(rows.map((row) => row.id)).toEqual(['m3', 'm2']);
+    });
+
+    it('pages by cursor until hasMore is false', async () => {
+      const { Moment } = createInMemoryRepositories(seed);
+      const seen = [];
+      let cursor = null;
+      let hasMore = true;
+
+      while (hasMore) {
+        const result = await Moment.list({ limit: 2, cursor });
+        seen.push(...result.items.map((row) => row.id));
+        ({ nextCursor: cursor, hasMore } = result);
+      }
+
+      expect(seen).toEqual(['m4', 'm3', 'm2', 'm1', 'm0']);
+    });
+
+    it('does not repeat rows inserted while paging', async () => {
+      const { Moment } = createInMemoryRepositories(seed);
+
+      const first = await Moment.list({ limit: 2, cursor: null });
+      await Moment.create({ id: 'new', created_by: 'u1', created_at: at(9) });
+      const second = await Moment.list({ limit: 2, cursor: first.nextCursor });
+
+      expect(second.items.map((row) => row.id)).toEqual(['m2', 'm1']);
+    });
+  });
+
+  describe('moments', () => {
+    it('hides soft-deleted moments unless includeDeleted is set, and restores them', async () => {
+      const { Moment } = createInMemoryRepositories({ moments: [{ id: 'm1', created_by: 'u1' }] });
+
+      await Moment.deleteById('m1');
+
+      expect(await Moment.getByUser('u1')).toEqual([]);
+      await expect(Moment.getById('m1')).rejects.toBeInstanceOf(NotFoundError);
+      expect((await Moment.getById('m1', { includeDeleted: true })).is_deleted).toBe(true);
+
+      await Moment.restore('m1');
+      expect(await Moment.getByUser('u1')).toHaveLength(1);
+    });
+
+    it('purges expired soft-deleted moments with their images and links', async () => {
+      const { Moment, MomentCircle } = createInMemoryRepositories({
+        moments: [
+          { id: 'old', created_by: 'u1', is_deleted: true, deleted_at: '2020-01-01T00:00:00.000Z' },
+          { id: 'recent', created_by: 'u1', is_deleted: true, deleted_at: new Date().toISOString() }
+        ],
+        moment_circles: [{ moment_id: 'old', circle_id: 'c1' }]
+      });
+      const storage = { deleteFile: vi.fn(async () => {}) };
+
+      const result = await Moment.purgeDeleted(30, storage);
+
+      expect(result).toEqual({ purged: ['old'], failed: [] });
+      expect(storage.deleteFile).toHaveBeenCalledWith(expect.stringMatching(/^u1\/old\//));
+      expect(await MomentCircle.getByMoment('old')).toEqual([]);
+      await expect(Moment.getById('recent', { includeDeleted: true })).resolves.toBeDefined();
+    });
+
+    it('finds similar moments of the user by Hamming distance', async () => {
+      const { Moment } = createInMemoryRepositories({
+        moments: [
+          { id: 'same', created_by: 'u1', image_hashes: { front: 'ffffffffffffffff', back: '0000000000000000' } },
+          { id: 'far', created_by: 'u1', image_hashes: { front: '0f0f0f0f0f0f0f0f' } },
+          { id: 'other-user', created_by: 'u2', image_hashes: { front: 'ffffffffffffffff' } }
+        ]
+      });
+
+      const matches = await Moment.findSimilar('u1', 'fffffffffffffffe', { threshold: 10 });
+
+      expect(matches).toEqual([{ moment: expect.objectContaining({ id: 'same' }), imageType: 'front', distance: 1 }]);
+    });
+  });
+
+  it('toggles likes', async () => {
+    const { Like } = createInMemoryRepositories();
+
+    await Like.create('u1', 'm1');
+    expect(await Like.getByMoment('m1')).toHaveLength(1);
+
+    await Like.create('u1', 'm1');
+    expect(await Like.getByMoment('m1')).toEqual([]);
+  });
+
+  it('builds the home feed of the signed-in user from followed users and member circles', async () => {
+    const { Feed } = createInMemoryRepositories({
+      profiles: [{ id: 'u2', username: 'grace' }],
+      follows: [{ follower_id: 'u1', following_id: 'u2', accepted: true }, { follower_id: 'u1', following_id: 'u4', accepted: false }],
+      circle_memberships: [{ user_id: 'u1', circle_id: 'c1' }],
+      moment_circles: [{ moment_id: 'circle-moment', circle_id: 'c1' }],
+      moments: [
+        { id: 'followed', created_by: 'u2', created_at: at(2) },
+        { id: 'circle-moment', created_by: 'u3', created_at: at(1) },
+        { id: 'pending-follow', created_by: 'u4', created_at: at(3) },
+        { id: 'deleted', created_by: 'u2', created_at: at(4), is_deleted: true }
+      ],
+      likes: [{ moment_id: 'followed', user_id: 'u1' }]
+    }, { currentUserId: () => 'u1' });
+
+    const { items, hasMore } = await Feed.getHome();
+
+    expect(items.map((item) => item.id)).toEqual(['followed', 'circle-moment']);
+    expect(items[0]).toMatchObject({ author: { id: 'u2', username: 'grace' }, like_count: 1, liked_by_me: true });
+    expect(hasMore).toBe(false);
+  });
+
+  it('refuses the home feed without a signed-in user', async () => {
+    const { Feed } = createInMemoryRepositories();
+
+    await expect(Feed.getHome()).rejects.toMatchObject({ code: 'db/permission_denied' });
+  });
+});
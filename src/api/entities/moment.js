@@ -1,4 +1,7 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
+import { SIMILAR_MOMENT_DEFAULTS, daysAgo, deleteMomentImages, rankSimilar } from './momentImages.js';
 
 /**
  * Create a new moment
@@ -13,24 +16,28 @@ export const create = async (data) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to create moment: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to create moment');
   return created;
 };
 
 /**
  * Get moment by ID
  * @param {string} id - The moment ID
+ * @param {Object} options - Read options
+ * @param {boolean} [options.includeDeleted] - Also return a soft-deleted moment (default: false)
  * @returns {Promise<Object>} Moment object
- * @throws {Error} If query fails
+ * @throws {Error} If query fails or the moment is soft-deleted
  */
-export const getById = async (id) => {
-  const { data, error } = await supabase
-    .from('moments')
-    .select('*')
-    .eq('id', id)
-    .single();
+export const getById = async (id, options = {}) => {
+  const { data, error } = await withoutDeleted(
+    supabase
+      .from('moments')
+      .select('*')
+      .eq('id', id),
+    options
+  ).single();
   
-  if (error) throw new Error(`Failed to get moment by id: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to get moment by id');
   return data;
 };
 
@@ -40,20 +47,18 @@ export const getById = async (id) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of moment objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @param {boolean} [options.includeDeleted] - Also return soft-deleted moments (default: false)
+ * @returns {Promise<Array|Object>} Array of moment objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByUser = async (userId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('moments')
     .select('*')
-    .eq('created_by', userId)
-    .range(offset, offset + limit - 1);
+    .eq('created_by', userId);
   
-  if (error) throw new Error(`Failed to get moments by user: ${error.message}`);
-  return data;
+  return paginate(withoutDeleted(query, options), options, 'Failed to get moments by user');
 };
 
 /**
@@ -62,20 +67,19 @@ export const getByUser = async (userId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of moment objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @param {boolean} [options.includeDeleted] - Also return soft-deleted moments (default: false)
+ * @returns {Promise<Array|Object>} Array of moment objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByCircle = async (circleId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
-    .from('moment_circles')
-    .select('moments(*)')
-    .eq('circle_id', circleId)
-    .range(offset, offset + limit - 1);
+  // Empty inner embed: filters on the link table, sorts and pages by the moment itself
+  const query = supabase
+    .from('moments')
+    .select('*, moment_circles!inner()')
+    .eq('moment_circles.circle_id', circleId);
   
-  if (error) throw new Error(`Failed to get moments by circle: ${error.message}`);
-  return data.map(row => row.moments);
+  return paginate(withoutDeleted(query, options), options, 'Failed to get moments by circle');
 };
 
 /**
@@ -83,19 +87,17 @@ export const getByCircle = async (circleId, options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of moment objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @param {boolean} [options.includeDeleted] - Also return soft-deleted moments (default: false)
+ * @returns {Promise<Array|Object>} Array of moment objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const list = async (options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('moments')
-    .select('*')
-    .range(offset, offset + limit - 1);
+    .select('*');
   
-  if (error) throw new Error(`Failed to list moments: ${error.message}`);
-  return data;
+  return paginate(withoutDeleted(query, options), options, 'Failed to list moments');
 };
 
 /**
@@ -104,11 +106,12 @@ export const list = async (options = {}) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of moment objects matching filters
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @param {boolean} [options.includeDeleted] - Also return soft-deleted moments (default: false)
+ * @returns {Promise<Array|Object>} Array of moment objects matching filters, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const filter = async (filters = {}, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
   let query = supabase.from('moments').select('*');
   
   for (const [key, value] of Object.entries(filters)) {
@@ -117,11 +120,7 @@ export const filter = async (filters = {}, options = {}) => {
     }
   }
   
-  query = query.range(offset, offset + limit - 1);
-  const { data, error } = await query;
-  
-  if (error) throw new Error(`Failed to filter moments: ${error.message}`);
-  return data;
+  return paginate(withoutDeleted(query, options), options, 'Failed to filter moments');
 };
 
 /**
@@ -139,7 +138,7 @@ export const update = async (id, data) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to update moment: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to update moment');
   return updated;
 };
 
@@ -161,7 +160,127 @@ export const deleteById = async (id) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to delete moment: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to delete moment');
+  return data;
+};
+
+
+/**
+ * Restore a soft-deleted moment
+ * Clears is_deleted and deleted_at
+ * @param {string} id - The moment ID
+ * @returns {Promise<Object>} Restored moment object
+ * @throws {Error} If query fails
+ */
+export const restore = async (id) => {
+  const { data, error } = await supabase
+    .from('moments')
+    .update({ 
+      is_deleted: false, 
+      deleted_at: null 
+    })
+    .eq('id', id)
+    .select()
+    .single();
+  
+  if (error) throw fromDatabaseError(error, 'Failed to restore moment');
   return data;
 };
 
+/**
+ * Permanently delete a moment and its moment_circles rows (no soft delete)
+ * Used by purgeDeleted and to roll back a failed publish; images are not touched
+ * @param {string} id - The moment ID
+ * @returns {Promise<void>}
+ * @throws {Error} If query fails
+ */
+export const hardDeleteById = async (id) => {
+  const { error: linkError } = await supabase
+    .from('moment_circles')
+    .delete()
+    .eq('moment_id', id);
+  
+  if (linkError) throw fromDatabaseError(linkError, 'Failed to delete moment-circle links');
+  
+  const { error } = await supabase
+    .from('moments')
+    .delete()
+    .eq('id', id);
+  
+  if (error) throw fromDatabaseError(error, 'Failed to hard delete moment');
+};
+
+/**
+ * Find the user's recent moments whose front or back image looks like a given image
+ * Compares the perceptual hashes stored in image_hashes (see publishMoment).
+ * @param {string} userId - Author whose moments to search
+ * @param {string} hash - pHash of the image, e.g. await computeImageHash(file)
+ * @param {Object} options - Search options
+ * @param {number} [options.threshold] - Maximum Hamming distance (default: 10 of 64 bits)
+ * @param {number} [options.recent] - Number of newest moments to compare (default: 50)
+ * @param {string} [options.excludeId] - Moment to leave out (e.g. the one being published)
+ * @returns {Promise<Array>} { moment, imageType, distance }[], closest first
+ * @throws {Error} If query fails
+ */
+export const findSimilar = async (userId, hash, options = {}) => {
+  const {
+    threshold = SIMILAR_MOMENT_DEFAULTS.threshold,
+    recent = SIMILAR_MOMENT_DEFAULTS.recent,
+    excludeId
+  } = options;
+
+  const { data, error } = await withoutDeleted(
+    supabase
+      .from('moments')
+      .select('*')
+      .eq('created_by', userId)
+      .not('image_hashes', 'is', null)
+  )
+    .order('created_at', { ascending: false })
+    .limit(recent);
+  
+  if (error) throw fromDatabaseError(error, 'Failed to find similar moments');
+  return rankSimilar(data.filter((moment) => moment.id !== excludeId), hash, threshold);
+};
+
+/**
+ * Hard delete moments that were soft-deleted more than N days ago
+ * Removes their front/back camera images via the storage service and their
+ * moment_circles rows first. A moment whose cleanup fails is kept, so the
+ * next purge retries it.
+ * @param {number} olderThanDays - Minimum age of the soft delete in days
+ * @param {Object} storage - StorageService used to delete the images
+ * @returns {Promise<Object>} { purged: string[], failed: { id, error }[] }
+ * @throws {Error} If the expired moments cannot be queried
+ */
+export const purgeDeleted = async (olderThanDays, storage) => {
+  const { data: expired, error } = await supabase
+    .from('moments')
+    .select('id, created_by')
+    .eq('is_deleted', true)
+    .lt('deleted_at', daysAgo(olderThanDays));
+  
+  if (error) throw fromDatabaseError(error, 'Failed to get expired moments');
+  
+  const purged = [];
+  const failed = [];
+  
+  for (const moment of expired) {
+    try {
+      await deleteMomentImages(moment, storage);
+      await hardDeleteById(moment.id);
+      purged.push(moment.id);
+    } catch (purgeError) {
+      failed.push({ id: moment.id, error: purgeError });
+    }
+  }
+  
+  return { purged, failed };
+};
+
+/**
+ * Exclude soft-deleted moments unless options.includeDeleted is set
+ * (`not.is.true` also keeps rows where is_deleted is null)
+ */
+const withoutDeleted = (query, options = {}) =>
+  options.includeDeleted ? query : query.not('is_deleted', 'is', true);
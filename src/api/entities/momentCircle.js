@@ -1,4 +1,6 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
 
 /**
  * Create a moment-circle link (add moment to circle)
@@ -14,7 +16,7 @@ export const create = async (momentId, circleId) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to create moment-circle link: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to create moment-circle link');
   return data;
 };
 
@@ -24,42 +26,42 @@ export const create = async (momentId, circleId) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of moment-circle link objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of moment-circle link objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByMoment = async (momentId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('moment_circles')
     .select('*')
-    .eq('moment_id', momentId)
-    .range(offset, offset + limit - 1);
+    .eq('moment_id', momentId);
   
-  if (error) throw new Error(`Failed to get circles by moment: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to get circles by moment');
 };
 
 /**
- * Get all moments in a specific circle (returns full moment objects)
+ * Get all moments in a specific circle (returns full moment objects, without soft-deleted ones)
  * @param {string} circleId - The circle ID
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of moment objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @param {boolean} [options.includeDeleted] - Also return soft-deleted moments (default: false)
+ * @returns {Promise<Array|Object>} Array of moment objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const getByCircle = async (circleId, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
-    .from('moment_circles')
-    .select('moments(*)')
-    .eq('circle_id', circleId)
-    .range(offset, offset + limit - 1);
+  // Empty inner embed: filters on the link table, sorts and pages by the moment itself
+  const query = supabase
+    .from('moments')
+    .select('*, moment_circles!inner()')
+    .eq('moment_circles.circle_id', circleId);
   
-  if (error) throw new Error(`Failed to fetch moments: ${error.message}`);
-  return data.map(row => row.moments);
+  return paginate(
+    options.includeDeleted ? query : query.not('is_deleted', 'is', true),
+    options,
+    'Failed to fetch moments'
+  );
 };
 
 /**
@@ -76,6 +78,6 @@ export const deleteById = async (momentId, circleId) => {
     .eq('moment_id', momentId)
     .eq('circle_id', circleId);
   
-  if (error) throw new Error(`Failed to delete moment-circle link: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to delete moment-circle link');
 };
 
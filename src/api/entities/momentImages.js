@@ -0,0 +1,90 @@
+import { NotFoundError } from '../errors.ts';
+import { MOMENT_VARIANTS, variantPath } from '../storage/imageVariants.ts';
+import { hammingDistance } from '../../utils/imageCompression.ts';
+
+/**
+ * Defaults of Moment.findSimilar: max Hamming distance of the 64-bit pHashes,
+ * and how many of the user's newest moments are compared
+ */
+export const SIMILAR_MOMENT_DEFAULTS = { threshold: 10, recent: 50 };
+
+/**
+ * Extensions an uploaded image can have (see compressImage's format negotiation)
+ */
+const IMAGE_EXTENSIONS = ['jpg', 'webp', 'avif'];
+
+/**
+ * Extension of a stored image URL, or every possible extension if unknown
+ * @param {string} [url] - front_camera_url or back_camera_url
+ * @returns {string[]}
+ */
+const extensionsOf = (url) => {
+  const match = /\.(\w+)(?:\?.*)?$/.exec(url ?? '');
+  return match ? [match[1]] : IMAGE_EXTENSIONS;
+};
+
+/**
+ * Storage paths of a moment's camera images, all variants (same layout as StorageService.uploadMomentImage)
+ *
+ * The extension is taken from front/back_camera_url; without a URL, paths for
+ * every output format are returned. Without imageType, the paths of the
+ * composite (StorageService.uploadMomentComposite) are included, in every format.
+ *
+ * @param {Object} moment - Moment row with id and created_by
+ * @param {string} [imageType] - 'front' or 'back' (default: both and the composite)
+ * @returns {string[]} Paths of every variant of the front and/or back camera image
+ */
+export const momentImagePaths = (moment, imageType) => {
+  const variantPaths = (name, extensions) =>
+    extensions.flatMap((extension) =>
+      MOMENT_VARIANTS.map((variant) => variantPath(`${moment.created_by}/${moment.id}/${name}`, variant.name, extension))
+    );
+
+  const cameraPaths = (imageType ? [imageType] : ['front', 'back']).flatMap((type) =>
+    variantPaths(`${type}_camera`, extensionsOf(moment[`${type}_camera_url`]))
+  );
+  return imageType ? cameraPaths : [...cameraPaths, ...variantPaths('composite', IMAGE_EXTENSIONS)];
+};
+
+/**
+ * Delete a moment's camera images (all variants), ignoring images that were never uploaded
+ * @param {Object} moment - Moment row with id and created_by
+ * @param {Object} storage - StorageService (only deleteFile is used)
+ * @returns {Promise<void>}
+ * @throws {Error} If a deletion fails for another reason
+ */
+export const deleteMomentImages = async (moment, storage) => {
+  for (const path of momentImagePaths(moment)) {
+    try {
+      await storage.deleteFile(path);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+    }
+  }
+};
+
+/**
+ * ISO timestamp N days before now
+ * @param {number} days - Age in days
+ * @returns {string}
+ */
+export const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Moments with a camera image within `threshold` bits of a perceptual hash, closest first
+ * @param {Object[]} moments - Moment rows; rows without image_hashes are skipped
+ * @param {string} hash - pHash of the image (computeImageHash)
+ * @param {number} threshold - Maximum Hamming distance
+ * @returns {Object[]} { moment, imageType, distance }[] with the closer camera image of each moment
+ */
+export const rankSimilar = (moments, hash, threshold) =>
+  moments
+    .flatMap((moment) => {
+      const matches = ['front', 'back']
+        .filter((imageType) => moment.image_hashes?.[imageType])
+        .map((imageType) => ({ moment, imageType, distance: hammingDistance(hash, moment.image_hashes[imageType]) }))
+        .filter((match) => match.distance <= threshold)
+        .sort((a, b) => a.distance - b.distance);
+      return matches.slice(0, 1);
+    })
+    .sort((a, b) => a.distance - b.distance);
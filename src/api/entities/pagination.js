@@ -0,0 +1,95 @@
+import { fromDatabaseError } from '../errors.ts';
+
+/**
+ * Shared pagination for all entity list functions
+ *
+ * Every list is sorted newest first by (created_at DESC, id DESC); id breaks ties
+ * between rows created in the same instant, so the order is total and stable.
+ *
+ * Two modes, chosen by options.cursor:
+ * - offset (cursor undefined): `{ limit, offset }` → array of rows (previous behavior)
+ * - keyset (cursor null or { created_at, id }): `{ limit, cursor }` → `{ items, nextCursor, hasMore }`
+ *
+ * Keyset pages don't shift or repeat rows when new rows are inserted while scrolling.
+ */
+
+export const DEFAULT_LIMIT = 20;
+
+/**
+ * Whether the options ask for a cursor page
+ * @param {Object} options - Pagination options
+ * @returns {boolean}
+ */
+export const isCursorRequest = (options = {}) => options.cursor !== undefined;
+
+/**
+ * Cursor pointing at a row (the last item of a page)
+ * @param {Object} row - Row with created_at and id
+ * @returns {{ created_at: string, id: string }}
+ */
+export const cursorOf = (row) => ({ created_at: row.created_at, id: row.id });
+
+/**
+ * Default sort comparator: created_at DESC, id DESC
+ */
+export const compareNewest = (a, b) =>
+  b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id);
+
+/**
+ * Whether a row sorts after the cursor (i.e. belongs to the next page)
+ * @param {Object} row - Row with created_at and id
+ * @param {Object} cursor - Cursor from a previous page
+ * @returns {boolean}
+ */
+export const isAfterCursor = (row, cursor) =>
+  row.created_at < cursor.created_at || (row.created_at === cursor.created_at && row.id < cursor.id);
+
+/**
+ * Builds a page from up to limit + 1 sorted rows (the extra row only signals hasMore)
+ * @param {Array} rows - Sorted rows, at most limit + 1
+ * @param {number} limit - Page size
+ * @returns {{ items: Array, nextCursor: Object|null, hasMore: boolean }}
+ */
+export const toPage = (rows, limit) => {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    items,
+    nextCursor: hasMore ? cursorOf(items[items.length - 1]) : null,
+    hasMore
+  };
+};
+
+/**
+ * Applies the default sort and offset or keyset pagination to a Supabase query, then runs it
+ * @param {Object} query - Filtered Supabase query builder (before order/range)
+ * @param {Object} options - { limit, offset } or { limit, cursor }
+ * @param {string} context - Error message prefix, e.g. 'Failed to list moments'
+ * @returns {Promise<Array|Object>} Rows, or { items, nextCursor, hasMore } in cursor mode
+ * @throws {Error} If query fails
+ */
+export const paginate = async (query, options = {}, context) => {
+  const { limit = DEFAULT_LIMIT, offset = 0, cursor } = options;
+
+  if (cursor) {
+    const createdAt = quote(cursor.created_at);
+    query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${quote(cursor.id)})`);
+  }
+
+  query = query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  const { data, error } = isCursorRequest(options)
+    ? await query.limit(limit + 1)
+    : await query.range(offset, offset + limit - 1);
+
+  if (error) throw fromDatabaseError(error, context);
+  return isCursorRequest(options) ? toPage(data, limit) : data;
+};
+
+/**
+ * Quotes a value for PostgREST logic filters (timestamps contain reserved characters)
+ */
+const quote = (value) => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { compareNewest, isAfterCursor, isCursorRequest, paginate, toPage } from './pagination.js';
+import { NotFoundError } from '../errors.ts';
+
+/**
+ * Chainable stand-in for a Supabase query builder that records its calls
+ */
+const stubQuery = (result = { data: [], error: null }) => {
+  const calls = [];
+  const query = {
+    calls,
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject)
+  };
+  for (const method of ['or', 'order', 'limit', 'range']) {
+    query[method] = (...args) => {
+      calls.push([method, ...args]);
+      return query;
+    };
+  }
+  return query;
+};
+
+const row = (id, minute) => ({ id, created_at: `2025-06-01T12:0${minute}:00.000Z` });
+
+describe('pagination helpers', () => {
+  it('detects cursor requests, including the first page (cursor null)', () => {
+    expect(isCursorRequest({ limit: 10 })).toBe(false);
+    expect(isCursorRequest({ cursor: null })).toBe(true);
+    expect(isCursorRequest()).toBe(false);
+  });
+
+  it('sorts newest first with id as the tie breaker', () => {
+    const rows = [row('a', 1), row('c', 2), row('b', 2)];
+
+    expect(rows.sort(compareNewest).map((entry) => entry.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('places rows after the cursor by created_at, then id', () => {
+    const cursor = { created_at: row('b', 2).created_at, id: 'b' };
+
+    expect(isAfterCursor(row('a', 2), cursor)).toBe(true);
+    expect(isAfterCursor(row('c', 2), cursor)).toBe(false);
+    expect(isAfterCursor(row('z', 1), cursor)).toBe(true);
+  });
+
+  it('builds a page from limit + 1 rows', () => {
+    expect(toPage([row('c', 3), row('b', 2), row('a', 1)], 2)).toEqual({
+      items: [row('c', 3), row('b', 2)],
+      nextCursor: { created_at: row('b', 2).created_at, id: 'b' },
+      hasMore: true
+    });
+    expect(toPage([row('a', 1)], 2)).toEqual({ items: [row('a', 1)], nextCursor: null, hasMore: false });
+  });
+});
+
+describe('paginate', () => {
+  it('uses range() in offset mode and returns the rows', async () => {
+    const query = stubQuery({ data: [row('a', 1)], error: null });
+
+    const rows = await paginate(query, { limit: 10, offset: 20 }, 'Failed to list moments');
+
+    expect(rows).toEqual([row('a', 1)]);
+    expect(query.calls).toEqual([
+      ['order', 'created_at', { ascending: false }],
+      ['order', 'id', { ascending: false }],
+      ['range', 20, 29]
+    ]);
+  });
+
+  it('fetches one extra row for the first cursor page', async () => {
+    const query = stubQuery({ data: [row('c', 3), row('b', 2), row('a', 1)], error: null });
+
+    const page = await paginate(query, { limit: 2, cursor: null }, 'Failed to list moments');
+
+    expect(page.hasMore).toBe(true);
+    expect(page.items).toHaveLength(2);
+    expect(query.calls.some(([method]) => method === 'or')).toBe(false);
+    expect(query.calls.at(-1)).toEqual(['limit', 3]);
+  });
+
+  it('filters past the cursor with quoted values', async () => {
+    const query = stubQuery();
+    const cursor = { created_at: '2025-06-01T12:00:00+00:00', id: 'm"1' };
+
+    await paginate(query, { limit: 5, cursor }, 'Failed to list moments');
+
+    expect(query.calls[0]).toEqual([
+      'or',
+      'created_at.lt."2025-06-01T12:00:00+00:00",and(created_at.eq."2025-06-01T12:00:00+00:00",id.lt."m\\"1")'
+    ]);
+  });
+
+  it('maps query errors with the given context', async () => {
+    const query = stubQuery({ data: null, error: { message: 'No rows', code: 'PGRST116' } });
+
+    const failure = paginate(query, {}, 'Failed to list moments');
+
+    await expect(failure).rejects.toBeInstanceOf(NotFoundError);
+    await expect(failure).rejects.toThrow('Failed to list moments: No rows');
+  });
+});
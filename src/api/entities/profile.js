@@ -1,4 +1,6 @@
 import { supabase } from '../supabase.ts';
+import { fromDatabaseError } from '../errors.ts';
+import { paginate } from './pagination.js';
 
 /**
  * Get profile by email address
@@ -13,7 +15,7 @@ export const getByEmail = async (email) => {
     .eq('email', email)
     .single();
   
-  if (error) throw new Error(`Failed to get profile by email: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to get profile by email');
   return data;
 };
 
@@ -30,7 +32,7 @@ export const getByUsername = async (username) => {
     .eq('username', username)
     .single();
   
-  if (error) throw new Error(`Failed to get profile by username: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to get profile by username');
   return data;
 };
 
@@ -47,7 +49,7 @@ export const getById = async (id) => {
     .eq('id', id)
     .single();
   
-  if (error) throw new Error(`Failed to get profile by id: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to get profile by id');
   return data;
 };
 
@@ -56,19 +58,16 @@ export const getById = async (id) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of profile objects
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of profile objects, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const list = async (options = {}) => {
-  const { limit = 20, offset = 0 } = options;
-  
-  const { data, error } = await supabase
+  const query = supabase
     .from('profiles')
-    .select('*')
-    .range(offset, offset + limit - 1);
+    .select('*');
   
-  if (error) throw new Error(`Failed to list profiles: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to list profiles');
 };
 
 /**
@@ -87,7 +86,7 @@ export const update = async (id, data) => {
     .select()
     .single();
   
-  if (error) throw new Error(`Failed to update profile: ${error.message}`);
+  if (error) throw fromDatabaseError(error, 'Failed to update profile');
   return updated;
 };
 
@@ -97,11 +96,11 @@ export const update = async (id, data) => {
  * @param {Object} options - Pagination options
  * @param {number} options.limit - Maximum number of items to return (default: 20)
  * @param {number} options.offset - Number of items to skip (default: 0)
- * @returns {Promise<Array>} Array of profile objects matching filters
+ * @param {Object|null} [options.cursor] - Keyset cursor { created_at, id }; pass null for the first page to get a cursor page
+ * @returns {Promise<Array|Object>} Array of profile objects matching filters, or { items, nextCursor, hasMore } when options.cursor is set
  * @throws {Error} If query fails
  */
 export const filter = async (filters = {}, options = {}) => {
-  const { limit = 20, offset = 0 } = options;
   let query = supabase.from('profiles').select('*');
   
   for (const [key, value] of Object.entries(filters)) {
@@ -110,10 +109,6 @@ export const filter = async (filters = {}, options = {}) => {
     }
   }
   
-  query = query.range(offset, offset + limit - 1);
-  const { data, error } = await query;
-  
-  if (error) throw new Error(`Failed to filter profiles: ${error.message}`);
-  return data;
+  return paginate(query, options, 'Failed to filter profiles');
 };
 
@@ -0,0 +1,340 @@
+/**
+ * Entity repository contracts
+ *
+ * Each entity module in this folder (profile.js, moment.js, ...) is the Supabase
+ * implementation of the matching repository below; memory.js provides the
+ * in-memory implementation. index.js picks the backend.
+ * This allows swapping the data layer (Supabase → Base SDK in Phase 3).
+ */
+
+import type { StorageService } from '../storage/StorageService';
+import type { ImageMetadata, ImagePlaceholder } from '@/utils/imageCompression';
+
+/**
+ * Offset pagination options accepted by all list/filter functions
+ */
+export interface PaginationOptions {
+  /** Maximum number of items to return (default: 20) */
+  limit?: number;
+  /** Number of items to skip (default: 0) */
+  offset?: number;
+}
+
+/**
+ * Position after the last item of a page; lists sort by (created_at DESC, id DESC)
+ */
+export interface Cursor {
+  created_at: string;
+  id: string;
+}
+
+/**
+ * Keyset pagination options: pass cursor null for the first page, then nextCursor
+ */
+export interface CursorPaginationOptions {
+  /** Maximum number of items to return (default: 20) */
+  limit?: number;
+  cursor: Cursor | null;
+}
+
+/**
+ * One page of a keyset-paginated list
+ */
+export interface CursorPage<T> {
+  items: T[];
+  /** Cursor for the following page, null on the last page */
+  nextCursor: Cursor | null;
+  hasMore: boolean;
+}
+
+export type ListOptions = PaginationOptions | CursorPaginationOptions;
+
+/**
+ * Return type of a list function: an array for offset options, a CursorPage when a cursor is passed
+ */
+export type ListResult<T, O extends ListOptions> = O extends CursorPaginationOptions ? CursorPage<T> : T[];
+
+/**
+ * Base shape of every row
+ */
+export interface EntityRow {
+  id: string;
+  created_at: string;
+  [column: string]: unknown;
+}
+
+export interface Profile extends EntityRow {
+  email?: string;
+  username?: string;
+  bio?: string;
+  avatar_url?: string;
+  /** BlurHash / colour of the avatar (manifest.placeholder of uploadProfileImage) */
+  avatar_placeholder?: ImagePlaceholder | null;
+}
+
+/**
+ * EXIF fields kept per camera image (see publishMoment's keepMetadata)
+ */
+export interface MomentMetadata {
+  front?: ImageMetadata;
+  back?: ImageMetadata;
+}
+
+/**
+ * Loading placeholders per camera image
+ */
+export interface MomentPlaceholders {
+  front?: ImagePlaceholder;
+  back?: ImagePlaceholder;
+}
+
+/**
+ * Perceptual hashes (pHash) per camera image, for duplicate detection
+ */
+export interface MomentImageHashes {
+  front?: string;
+  back?: string;
+}
+
+export interface Moment extends EntityRow {
+  created_by: string;
+  front_camera_url?: string;
+  back_camera_url?: string;
+  title?: string;
+  metadata?: MomentMetadata | null;
+  placeholders?: MomentPlaceholders | null;
+  image_hashes?: MomentImageHashes | null;
+  is_deleted?: boolean;
+  deleted_at?: string | null;
+}
+
+export interface Circle extends EntityRow {
+  name: string;
+  created_by: string;
+  is_public?: boolean;
+}
+
+export interface MomentCircleLink extends EntityRow {
+  moment_id: string;
+  circle_id: string;
+}
+
+export interface CircleMembership extends EntityRow {
+  user_id: string;
+  circle_id: string;
+  role: string;
+}
+
+export interface Like extends EntityRow {
+  moment_id: string;
+  user_id: string;
+}
+
+export interface Comment extends EntityRow {
+  moment_id: string;
+  user_id: string;
+  content: string;
+}
+
+export interface Follow extends EntityRow {
+  follower_id: string;
+  following_id: string;
+  accepted?: boolean;
+}
+
+export interface Badge extends EntityRow {
+  user_id: string;
+  circle_id?: string;
+}
+
+export interface CircleWhitelistEntry extends EntityRow {
+  circle_id: string;
+  user_id: string;
+}
+
+export interface ProfileRepository {
+  getByEmail(email: string): Promise<Profile>;
+  getByUsername(username: string): Promise<Profile>;
+  getById(id: string): Promise<Profile>;
+  list<O extends ListOptions = PaginationOptions>(options?: O): Promise<ListResult<Profile, O>>;
+  update(id: string, data: Partial<Profile>): Promise<Profile>;
+  filter<O extends ListOptions = PaginationOptions>(filters?: Partial<Profile>, options?: O): Promise<ListResult<Profile, O>>;
+}
+
+/**
+ * Moment reads hide soft-deleted rows unless includeDeleted is set
+ */
+export interface MomentReadOptions {
+  includeDeleted?: boolean;
+}
+
+/**
+ * Result of MomentRepository.purgeDeleted
+ */
+export interface PurgeResult {
+  /** IDs of hard-deleted moments */
+  purged: string[];
+  /** Moments kept because image or link cleanup failed (retried by the next purge) */
+  failed: { id: string; error: unknown }[];
+}
+
+/**
+ * Options for MomentRepository.findSimilar
+ */
+export interface SimilarMomentOptions {
+  /** Maximum Hamming distance of the 64-bit hashes (default: 10) */
+  threshold?: number;
+  /** Number of the user's newest moments to compare (default: 50) */
+  recent?: number;
+  /** Moment to leave out (e.g. the one being published) */
+  excludeId?: string;
+}
+
+/**
+ * Moment with a camera image similar to a queried image
+ */
+export interface SimilarMoment {
+  moment: Moment;
+  /** The closer of the moment's two images */
+  imageType: 'front' | 'back';
+  /** Hamming distance, 0 = same hash */
+  distance: number;
+}
+
+export interface MomentRepository {
+  create(data: Partial<Moment>): Promise<Moment>;
+  getById(id: string, options?: MomentReadOptions): Promise<Moment>;
+  getByUser<O extends ListOptions = PaginationOptions>(userId: string, options?: O & MomentReadOptions): Promise<ListResult<Moment, O>>;
+  getByCircle<O extends ListOptions = PaginationOptions>(circleId: string, options?: O & MomentReadOptions): Promise<ListResult<Moment, O>>;
+  list<O extends ListOptions = PaginationOptions>(options?: O & MomentReadOptions): Promise<ListResult<Moment, O>>;
+  filter<O extends ListOptions = PaginationOptions>(filters?: Partial<Moment>, options?: O & MomentReadOptions): Promise<ListResult<Moment, O>>;
+  update(id: string, data: Partial<Moment>): Promise<Moment>;
+  /** Soft delete: sets is_deleted and deleted_at */
+  deleteById(id: string): Promise<Moment>;
+  /** Undo a soft delete: clears is_deleted and deleted_at */
+  restore(id: string): Promise<Moment>;
+  /** Permanent delete of the row and its moment_circles rows (images are not touched) */
+  hardDeleteById(id: string): Promise<void>;
+  /** The user's recent moments with an image within threshold of a pHash (computeImageHash), closest first */
+  findSimilar(userId: string, hash: string, options?: SimilarMomentOptions): Promise<SimilarMoment[]>;
+  /** Hard delete moments soft-deleted more than N days ago, with their images and moment_circles rows */
+  purgeDeleted(olderThanDays: number, storage: Pick<StorageService, 'deleteFile'>): Promise<PurgeResult>;
+}
+
+export interface CircleRepository {
+  create(data: Partial<Circle>): Promise<Circle>;
+  getById(id: string): Promise<Circle>;
+  getByCreator<O extends ListOptions = PaginationOptions>(userId: string, options?: O): Promise<ListResult<Circle, O>>;
+  getPublic<O extends ListOptions = PaginationOptions>(options?: O): Promise<ListResult<Circle, O>>;
+  list<O extends ListOptions = PaginationOptions>(options?: O): Promise<ListResult<Circle, O>>;
+  filter<O extends ListOptions = PaginationOptions>(filters?: Partial<Circle>, options?: O): Promise<ListResult<Circle, O>>;
+  update(id: string, data: Partial<Circle>): Promise<Circle>;
+  deleteById(id: string): Promise<void>;
+}
+
+export interface MomentCircleRepository {
+  create(momentId: string, circleId: string): Promise<MomentCircleLink>;
+  getByMoment<O extends ListOptions = PaginationOptions>(momentId: string, options?: O): Promise<ListResult<MomentCircleLink, O>>;
+  /** Returns full moment objects */
+  getByCircle<O extends ListOptions = PaginationOptions>(circleId: string, options?: O & MomentReadOptions): Promise<ListResult<Moment, O>>;
+  deleteById(momentId: string, circleId: string): Promise<void>;
+}
+
+export interface CircleMembershipRepository {
+  create(userId: string, circleId: string, role?: string): Promise<CircleMembership>;
+  getById(id: string): Promise<CircleMembership>;
+  getByUser<O extends ListOptions = PaginationOptions>(userId: string, options?: O): Promise<ListResult<CircleMembership, O>>;
+  getByCircle<O extends ListOptions = PaginationOptions>(circleId: string, options?: O): Promise<ListResult<CircleMembership, O>>;
+  update(userId: string, circleId: string, data: Partial<CircleMembership>): Promise<CircleMembership>;
+  deleteById(userId: string, circleId: string): Promise<void>;
+}
+
+export interface LikeRepository {
+  /** Toggle: creates the like, or removes it if it already exists */
+  create(userId: string, momentId: string): Promise<Like | void>;
+  getByMoment<O extends ListOptions = PaginationOptions>(momentId: string, options?: O): Promise<ListResult<Like, O>>;
+  getByUser<O extends ListOptions = PaginationOptions>(userId: string, options?: O): Promise<ListResult<Like, O>>;
+  deleteById(likeId: string): Promise<void>;
+}
+
+export interface CommentRepository {
+  create(data: Partial<Comment>): Promise<Comment>;
+  getById(id: string): Promise<Comment>;
+  getByMoment<O extends ListOptions = PaginationOptions>(momentId: string, options?: O): Promise<ListResult<Comment, O>>;
+  list<O extends ListOptions = PaginationOptions>(options?: O): Promise<ListResult<Comment, O>>;
+  update(id: string, content: string): Promise<Comment>;
+  deleteById(id: string): Promise<void>;
+}
+
+export interface FollowRepository {
+  create(followerId: string, followingId: string): Promise<Follow>;
+  getFollowing<O extends ListOptions = PaginationOptions>(userId: string, options?: O): Promise<ListResult<Follow, O>>;
+  getFollowers<O extends ListOptions = PaginationOptions>(userId: string, options?: O): Promise<ListResult<Follow, O>>;
+  update(followerId: string, followingId: string, accepted: boolean): Promise<Follow>;
+  deleteById(followerId: string, followingId: string): Promise<void>;
+}
+
+export interface BadgeRepository {
+  create(data: Partial<Badge>): Promise<Badge>;
+  getById(id: string): Promise<Badge>;
+  getByUser<O extends ListOptions = PaginationOptions>(userId: string, options?: O): Promise<ListResult<Badge, O>>;
+  getByCircle<O extends ListOptions = PaginationOptions>(circleId: string, options?: O): Promise<ListResult<Badge, O>>;
+  getByUserCircle<O extends ListOptions = PaginationOptions>(userId: string, circleId: string, options?: O): Promise<ListResult<Badge, O>>;
+  list<O extends ListOptions = PaginationOptions>(options?: O): Promise<ListResult<Badge, O>>;
+  filter<O extends ListOptions = PaginationOptions>(filters?: Partial<Badge>, options?: O): Promise<ListResult<Badge, O>>;
+}
+
+export interface CircleWhitelistRepository {
+  create(circleId: string, userId: string): Promise<CircleWhitelistEntry>;
+  getByCircle<O extends ListOptions = PaginationOptions>(circleId: string, options?: O): Promise<ListResult<CircleWhitelistEntry, O>>;
+  deleteById(circleId: string, userId: string): Promise<void>;
+}
+
+/**
+ * Public profile fields embedded in feed items
+ */
+export interface FeedAuthor {
+  id: string;
+  username: string | null;
+  avatar_url: string | null;
+}
+
+/**
+ * A moment as shown in the home feed
+ */
+export interface FeedItem extends Moment {
+  author: FeedAuthor | null;
+  like_count: number;
+  comment_count: number;
+  liked_by_me: boolean;
+}
+
+export interface FeedRepository {
+  /**
+   * Moments from accepted follows and member circles of the signed-in user,
+   * de-duplicated, newest first, without soft-deleted moments
+   */
+  getHome(options?: Partial<CursorPaginationOptions>): Promise<CursorPage<FeedItem>>;
+}
+
+/**
+ * The full set of repositories returned by createRepositories()
+ */
+export interface Repositories {
+  Profile: ProfileRepository;
+  Moment: MomentRepository;
+  Circle: CircleRepository;
+  MomentCircle: MomentCircleRepository;
+  CircleMembership: CircleMembershipRepository;
+  Like: LikeRepository;
+  Comment: CommentRepository;
+  Follow: FollowRepository;
+  Badge: BadgeRepository;
+  CircleWhitelist: CircleWhitelistRepository;
+  Feed: FeedRepository;
+}
+
+/**
+ * Available data backends
+ */
+export type DataBackend = 'supabase' | 'memory';
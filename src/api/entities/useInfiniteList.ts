@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState, DependencyList } from 'react';
+import type { Cursor, CursorPage } from './repositories';
+
+/**
+ * Infinite list state and controls
+ */
+export interface InfiniteListState<T> {
+  items: T[];
+  hasMore: boolean;
+  loading: boolean;
+  error: Error | null;
+  /** Loads the next page (no-op while loading or on the last page) */
+  loadMore: () => Promise<void>;
+  /** Drops all pages and loads the first one again */
+  reset: () => void;
+  /** Callback ref for an element at the end of the list; loads more when it scrolls into view */
+  sentinelRef: (node: Element | null) => void;
+}
+
+/**
+ * Options for useInfiniteList
+ */
+export interface InfiniteListOptions {
+  /** IntersectionObserver rootMargin for the sentinel (default: '200px') */
+  rootMargin?: string;
+}
+
+/**
+ * Infinite scrolling over any cursor-paginated entity list
+ *
+ * Loads the first page on mount and whenever deps change. Responses that arrive
+ * after a reset are discarded, so switching lists never mixes items.
+ *
+ * @param fetchPage - Loads the page after the given cursor (null for the first page)
+ * @param deps - Values the list depends on (like useEffect); a change resets the list
+ * @param options - Sentinel options
+ *
+ * @example
+ * ```tsx
+ * const { items, hasMore, sentinelRef } = useInfiniteList(
+ *   (cursor) => Moment.getByUser(userId, { cursor, limit: 20 }),
+ *   [userId]
+ * );
+ *
+ * return (
+ *   <>
+ *     {items.map((moment) => <MomentCard key={moment.id} moment={moment} />)}
+ *     {hasMore && <div ref={sentinelRef} />}
+ *   </>
+ * );
+ * ```
+ */
+export function useInfiniteList<T>(
+  fetchPage: (cursor: Cursor | null) => Promise<CursorPage<T>>,
+  deps: DependencyList = [],
+  options: InfiniteListOptions = {}
+): InfiniteListState<T> {
+  const { rootMargin = '200px' } = options;
+  const [items, setItems] = useState<T[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchRef = useRef(fetchPage);
+  const cursorRef = useRef<Cursor | null>(null);
+  const hasMoreRef = useRef(true);
+  const loadingRef = useRef(false);
+  const generationRef = useRef(0);
+  const visibleRef = useRef(false);
+  const observerRef = useRef<IntersectionObserver | null>(null);
+
+  fetchRef.current = fetchPage;
+
+  const loadMore = useCallback(async () => {
+    if (loadingRef.current || !hasMoreRef.current) {
+      return;
+    }
+
+    const generation = generationRef.current;
+    loadingRef.current = true;
+    setLoading(true);
+
+    try {
+      const page = await fetchRef.current(cursorRef.current);
+
+      if (generation !== generationRef.current) {
+        return;
+      }
+
+      cursorRef.current = page.nextCursor;
+      hasMoreRef.current = page.hasMore;
+      setItems((previous) => [...previous, ...page.items]);
+      setHasMore(page.hasMore);
+      setError(null);
+    } catch (err) {
+      if (generation === generationRef.current) {
+        setError(err instanceof Error ? err : new Error('Loading the list failed'));
+      }
+    } finally {
+      if (generation === generationRef.current) {
+        loadingRef.current = false;
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    generationRef.current += 1;
+    cursorRef.current = null;
+    hasMoreRef.current = true;
+    loadingRef.current = false;
+    setItems([]);
+    setHasMore(true);
+    setError(null);
+    setLoading(false);
+    void loadMore();
+  }, [loadMore]);
+
+  // First page on mount and whenever the list changes
+  useEffect(() => {
+    reset();
+  }, deps); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // A short page may leave the sentinel visible, which doesn't retrigger the observer
+  useEffect(() => {
+    if (!loading && !error && hasMore && visibleRef.current) {
+      void loadMore();
+    }
+  }, [loading, error, hasMore, loadMore]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const sentinelRef = useCallback((node: Element | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    visibleRef.current = false;
+
+    if (!node || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    observerRef.current = new IntersectionObserver((entries) => {
+      visibleRef.current = entries.some((entry) => entry.isIntersecting);
+      if (visibleRef.current) {
+        void loadMore();
+      }
+    }, { rootMargin });
+    observerRef.current.observe(node);
+  }, [loadMore, rootMargin]);
+
+  return { items, hasMore, loading, error, loadMore, reset, sentinelRef };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AppError,
+  AuthError,
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  StorageError,
+  ValidationError,
+  fromAuthError,
+  fromDatabaseError,
+  fromStorageError,
+  toAppError
+} from './errors';
+
+describe('fromStorageError', () => {
+  it('prefers statusCode over the HTTP status storage-js reports', () => {
+    const error = fromStorageError({ message: 'Object not found', status: 400, statusCode: '404' }, 'Download failed');
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ code: 'storage/not_found', status: 404, message: 'Download failed: Object not found' });
+  });
+
+  it('falls back to status without a statusCode', () => {
+    expect(fromStorageError({ message: 'Duplicate', status: 409 }, 'Upload failed')).toBeInstanceOf(ConflictError);
+    expect(fromStorageError({ message: 'Too large', status: 400, statusCode: '' }, 'Upload failed')).toMatchObject({
+      code: 'storage/invalid_request'
+    });
+  });
+
+  it('maps unknown statuses to a StorageError that is retryable for 5xx', () => {
+    const error = fromStorageError({ message: 'Bad gateway', statusCode: '502' }, 'Upload failed');
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('maps fetch failures to NetworkError', () => {
+    const error = fromStorageError({ name: 'TypeError', message: 'Failed to fetch' }, 'Upload failed');
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.code).toBe('network/unavailable');
+  });
+});
+
+describe('fromAuthError', () => {
+  it('maps auth codes to error classes', () => {
+    expect(fromAuthError({ message: 'exists', code: 'user_already_exists', status: 422 }, 'Signup failed')).toBeInstanceOf(ConflictError);
+    expect(fromAuthError({ message: 'weak', code: 'weak_password', status: 422 }, 'Signup failed')).toBeInstanceOf(ValidationError);
+    expect(fromAuthError({ message: 'bad', code: 'invalid_credentials', status: 400 }, 'Login failed')).toMatchObject({
+      code: 'auth/invalid_credentials'
+    });
+  });
+});
+
+describe('fromDatabaseError', () => {
+  it('maps PostgREST and Postgres codes', () => {
+    expect(fromDatabaseError({ message: 'none', code: 'PGRST116' }, 'Failed to get moment')).toBeInstanceOf(NotFoundError);
+    expect(fromDatabaseError({ message: 'dup', code: '23505' }, 'Failed to follow')).toMatchObject({ code: 'db/duplicate' });
+    expect(fromDatabaseError({ message: 'rls', code: '42501' }, 'Failed to update')).toBeInstanceOf(AuthError);
+  });
+});
+
+describe('toAppError', () => {
+  it('passes AppErrors through and wraps everything else', () => {
+    const original = new ConflictError('db/duplicate', 'Already exists');
+
+    expect(toAppError(original, 'Ignored', 'db')).toBe(original);
+
+    const wrapped = toAppError(new Error('boom'), 'Upload failed', 'storage');
+    expect(wrapped).toBeInstanceOf(AppError);
+    expect(wrapped.code).toBe('storage/unknown');
+  });
+});
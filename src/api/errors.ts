@@ -0,0 +1,261 @@
+/**
+ * Typed error hierarchy shared by auth, storage and entities
+ *
+ * Every error thrown from src/api is an AppError subclass with:
+ * - a stable, namespaced `code` ('auth/invalid_credentials', 'db/not_found', ...)
+ *   that UI code can switch on instead of parsing messages
+ * - the original backend error as `cause`
+ * - a `retryable` flag (network failures, rate limits, 5xx)
+ *
+ * Errors are wrapped exactly once: toAppError() passes AppErrors through unchanged,
+ * so messages read "Login failed: Invalid login credentials" rather than
+ * "Login error: Login failed: Invalid login credentials".
+ */
+
+export interface AppErrorOptions {
+  /** The original error */
+  cause?: unknown;
+  /** Whether retrying the same call may succeed */
+  retryable?: boolean;
+  /** HTTP status of the failed request, when known */
+  status?: number;
+}
+
+/**
+ * Base class for all API errors
+ */
+export class AppError extends Error {
+  readonly code: string;
+  readonly retryable: boolean;
+  readonly status?: number;
+  declare readonly cause?: unknown;
+
+  constructor(code: string, message: string, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AppError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+  }
+}
+
+/**
+ * Authentication / authorization failures (code prefix 'auth/')
+ */
+export class AuthError extends AppError {
+  constructor(code: string, message: string, options?: AppErrorOptions) {
+    super(code, message, options);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Storage bucket failures (code prefix 'storage/')
+ */
+export class StorageError extends AppError {
+  constructor(code: string, message: string, options?: AppErrorOptions) {
+    super(code, message, options);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Invalid input, rejected before or by the backend
+ */
+export class ValidationError extends AppError {
+  constructor(code: string, message: string, options?: AppErrorOptions) {
+    super(code, message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The requested row, object or account does not exist
+ */
+export class NotFoundError extends AppError {
+  constructor(code: string, message: string, options?: AppErrorOptions) {
+    super(code, message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Unique constraint / already-exists failures
+ */
+export class ConflictError extends AppError {
+  constructor(code: string, message: string, options?: AppErrorOptions) {
+    super(code, message, options);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * The backend could not be reached; retryable by default
+ */
+export class NetworkError extends AppError {
+  constructor(code: string, message: string, options?: AppErrorOptions) {
+    super(code, message, { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Error layer, used as the code prefix for unmapped errors
+ */
+export type ErrorLayer = 'auth' | 'storage' | 'db';
+
+interface BackendError {
+  message: string;
+  name?: string;
+  code?: string;
+  status?: number;
+  statusCode?: string;
+}
+
+const AUTH_CONFLICT_CODES = new Set(['user_already_exists', 'email_exists', 'phone_exists', 'identity_already_exists']);
+const AUTH_VALIDATION_CODES = new Set(['weak_password', 'validation_failed', 'email_address_invalid', 'same_password']);
+const AUTH_NOT_FOUND_CODES = new Set(['user_not_found', 'identity_not_found', 'mfa_factor_not_found', 'session_not_found']);
+
+/**
+ * Maps a Supabase Auth error to an AppError
+ * @param error - AuthError from @supabase/auth-js
+ * @param context - Message prefix, e.g. 'Login failed'
+ */
+export function fromAuthError(error: BackendError, context: string): AppError {
+  const message = `${context}: ${error.message}`;
+  const status = error.status;
+  const options = { cause: error, status };
+
+  if (isNetworkFailure(error)) {
+    return new NetworkError('network/unavailable', message, options);
+  }
+
+  const code = error.code ?? 'unknown';
+
+  if (AUTH_CONFLICT_CODES.has(code)) {
+    return new ConflictError(`auth/${code}`, message, options);
+  }
+  if (AUTH_VALIDATION_CODES.has(code)) {
+    return new ValidationError(`auth/${code}`, message, options);
+  }
+  if (AUTH_NOT_FOUND_CODES.has(code)) {
+    return new NotFoundError(`auth/${code}`, message, options);
+  }
+
+  return new AuthError(`auth/${code}`, message, { ...options, retryable: isRetryableStatus(status) });
+}
+
+/**
+ * Maps a Supabase Storage error to an AppError
+ * @param error - StorageError from @supabase/storage-js
+ * @param context - Message prefix, e.g. 'Moment image upload failed'
+ */
+export function fromStorageError(error: BackendError, context: string): AppError {
+  const message = `${context}: ${error.message}`;
+  // storage-js reports e.g. a missing object as status 400 with statusCode '404'
+  const statusCode = Number(error.statusCode);
+  const status = Number.isFinite(statusCode) && statusCode > 0 ? statusCode : error.status;
+  const options = { cause: error, status };
+
+  if (isNetworkFailure(error)) {
+    return new NetworkError('network/unavailable', message, options);
+  }
+
+  switch (status) {
+    case 400:
+      return new ValidationError('storage/invalid_request', message, options);
+    case 401:
+    case 403:
+      return new AuthError('storage/unauthorized', message, options);
+    case 404:
+      return new NotFoundError('storage/not_found', message, options);
+    case 409:
+      return new ConflictError('storage/already_exists', message, options);
+    case 413:
+      return new ValidationError('storage/payload_too_large', message, options);
+    default:
+      return new StorageError('storage/unknown', message, { ...options, retryable: isRetryableStatus(status) });
+  }
+}
+
+/**
+ * Maps a PostgREST / Postgres error to an AppError
+ * @param error - PostgrestError from a query result
+ * @param context - Message prefix, e.g. 'Failed to create moment'
+ */
+export function fromDatabaseError(error: BackendError, context: string): AppError {
+  const message = `${context}: ${error.message}`;
+  const options = { cause: error };
+
+  if (isNetworkFailure(error)) {
+    return new NetworkError('network/unavailable', message, options);
+  }
+
+  switch (error.code) {
+    case 'PGRST116':
+      return new NotFoundError('db/not_found', message, options);
+    case '23505':
+      return new ConflictError('db/duplicate', message, options);
+    case '23503':
+      return new ValidationError('db/foreign_key_violation', message, options);
+    case '23502':
+    case '23514':
+    case '22P02':
+      return new ValidationError('db/invalid_input', message, options);
+    case '42501':
+    case 'PGRST301':
+      return new AuthError('db/permission_denied', message, options);
+    default:
+      return new AppError('db/unknown', message, options);
+  }
+}
+
+/**
+ * Normalizes anything thrown into an AppError
+ *
+ * AppErrors are returned unchanged; fetch failures become NetworkError;
+ * everything else is wrapped as `<layer>/unknown`.
+ * @param error - The caught value
+ * @param context - Message prefix, e.g. 'Logout failed'
+ * @param layer - Layer used for the fallback error class and code
+ */
+export function toAppError(error: unknown, context: string, layer: ErrorLayer): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  const detail = error instanceof Error ? error.message : 'Unknown error';
+  const message = `${context}: ${detail}`;
+
+  if (isNetworkFailure(error)) {
+    return new NetworkError('network/unavailable', message, { cause: error });
+  }
+
+  switch (layer) {
+    case 'auth':
+      return new AuthError('auth/unknown', message, { cause: error });
+    case 'storage':
+      return new StorageError('storage/unknown', message, { cause: error });
+    default:
+      return new AppError('db/unknown', message, { cause: error });
+  }
+}
+
+/**
+ * Whether an error is a transport failure (offline, DNS, CORS, aborted connection)
+ */
+function isNetworkFailure(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { name, message } = error as { name?: string; message?: string };
+
+  return name === 'AuthRetryableFetchError'
+    || (name === 'TypeError' && /fetch|network/i.test(message ?? ''))
+    || /Failed to fetch|NetworkError|Load failed/.test(message ?? '');
+}
+
+function isRetryableStatus(status: number | undefined): boolean {
+  return status === 429 || (status !== undefined && status >= 500);
+}
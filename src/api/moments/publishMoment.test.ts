@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { publishMoment } from './publishMoment';
+import type { PublishMomentContext, PublishProgressEvent } from './publishMoment';
+import { createInMemoryRepositories } from '../entities/memory.js';
+import { NetworkError } from '../errors';
+import type { ImageVariantManifest } from '../storage/imageVariants';
+
+const manifestFor = (path: string): ImageVariantManifest => ({
+  src: `https://cdn.test/${path}.webp`,
+  variants: [
+    { name: 'thumb', width: 256, height: 256, size: 10, path: `${path}_thumb.webp`, url: `https://cdn.test/${path}_thumb.webp` },
+    { name: 'full', width: 1920, height: 1920, size: 100, path: `${path}.webp`, url: `https://cdn.test/${path}.webp` }
+  ],
+  hash: 'ffffffffffffffff'
+});
+
+const setup = (uploadBack: () => Promise<ImageVariantManifest> = async () => manifestFor('u1/m/back_camera')) => {
+  const repositories = createInMemoryRepositories();
+  const storage = {
+    uploadMomentImage: vi.fn<PublishMomentContext['storage']['uploadMomentImage']>(async (_userId, _momentId, imageType) =>
+      imageType === 'front' ? manifestFor('u1/m/front_camera') : uploadBack()
+    ),
+    deleteFile: vi.fn(async (_path: string) => {})
+  };
+  const events: PublishProgressEvent[] = [];
+  const context: PublishMomentContext = {
+    userId: 'u1',
+    Moment: repositories.Moment,
+    MomentCircle: repositories.MomentCircle,
+    storage,
+    onProgress: (event) => events.push(event)
+  };
+  const input = { front: new File(['f'], 'front.jpg'), back: new File(['b'], 'back.jpg'), caption: 'Sunset', circleIds: ['c1'] };
+
+  return { repositories, storage, events, context, input };
+};
+
+describe('publishMoment', () => {
+  it('creates the moment, uploads both images and links the circles', async () => {
+    const { repositories, context, input } = setup();
+
+    const moment = await publishMoment(input, context);
+
+    expect(moment).toMatchObject({
+      title: 'Sunset',
+      front_camera_url: 'https://cdn.test/u1/m/front_camera.webp',
+      image_hashes: { front: 'ffffffffffffffff', back: 'ffffffffffffffff' }
+    });
+    expect(await repositories.MomentCircle.getByMoment(moment.id)).toHaveLength(1);
+  });
+
+  it('never lets the storage queue uploads it may have to roll back', async () => {
+    const { storage, context, input } = setup();
+
+    await publishMoment(input, context);
+
+    for (const call of storage.uploadMomentImage.mock.calls) {
+      expect(call[4]).toMatchObject({ queueOnFailure: false });
+    }
+  });
+
+  it('deletes the uploaded variants and the row when a later step fails', async () => {
+    const { repositories, storage, events, context, input } = setup(async () => {
+      throw new NetworkError('network/unavailable', 'Upload failed: offline');
+    });
+
+    await expect(publishMoment(input, context)).rejects.toMatchObject({ code: 'network/unavailable' });
+
+    expect(storage.deleteFile.mock.calls.map(([path]) => path)).toEqual(['u1/m/front_camera_thumb.webp', 'u1/m/front_camera.webp']);
+    expect(await repositories.Moment.list({ includeDeleted: true })).toEqual([]);
+    expect(events).toContainEqual({ step: 'upload_front', status: 'rolled_back' });
+    expect(events).toContainEqual(expect.objectContaining({ step: 'upload_back', status: 'failed' }));
+  });
+});
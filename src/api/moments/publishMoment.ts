@@ -0,0 +1,186 @@
+import { toAppError } from '../errors';
+import type { Moment, MomentCircleRepository, MomentRepository } from '../entities/repositories';
+import type { StorageService } from '../storage/StorageService';
+import type { ImageVariantManifest } from '../storage/imageVariants';
+import type { DuplicateCheck } from '../storage/duplicateCheck';
+import type { KeepableMetadataField } from '@/utils/imageCompression';
+
+/**
+ * Steps of publishMoment, in execution order
+ */
+export const PUBLISH_STEPS = ['create', 'upload_front', 'upload_back', 'save_urls', 'link_circles'] as const;
+
+export type PublishStep = typeof PUBLISH_STEPS[number];
+
+/**
+ * Status of a single step
+ * - 'rolled_back': the step succeeded, but was undone after a later step failed
+ */
+export type PublishStepStatus = 'pending' | 'running' | 'done' | 'failed' | 'rolled_back';
+
+/**
+ * Progress event emitted for every status change
+ */
+export interface PublishProgressEvent {
+  step: PublishStep;
+  status: PublishStepStatus;
+  error?: unknown;
+}
+
+/**
+ * What to publish
+ */
+export interface PublishMomentInput {
+  /** Front camera image */
+  front: File;
+  /** Back camera image */
+  back: File;
+  /** Stored as the moment title */
+  caption?: string;
+  /** Circles to share the moment into */
+  circleIds?: string[];
+  /** EXIF fields to store in moment.metadata (e.g. ['capturedAt']); GPS is never kept */
+  keepMetadata?: KeepableMetadataField[];
+  /** Compare both images with the author's recent moments (warn or reject near-duplicates) */
+  duplicateCheck?: Omit<DuplicateCheck, 'findSimilar'>;
+}
+
+/**
+ * Services publishMoment runs against
+ */
+export interface PublishMomentContext {
+  /** Author of the moment */
+  userId: string;
+  Moment: Pick<MomentRepository, 'create' | 'update' | 'hardDeleteById' | 'findSimilar'>;
+  MomentCircle: Pick<MomentCircleRepository, 'create' | 'deleteById'>;
+  storage: Pick<StorageService, 'uploadMomentImage' | 'deleteFile'>;
+  onProgress?: (event: PublishProgressEvent) => void;
+}
+
+/**
+ * Posts a moment: creates the row, uploads both camera images, writes their URLs
+ * back onto the moment and links it to every target circle
+ *
+ * All-or-nothing: if a step fails, the completed steps are compensated in reverse
+ * order (circle links removed, uploaded images deleted, row hard-deleted) and the
+ * original error is rethrown. Compensation is best effort; a failed undo is logged
+ * and reported as a 'failed' event for that step. Images are never handed to the
+ * offline upload queue, so publishing without a connection fails and rolls back.
+ *
+ * @param input - Images, caption and target circles
+ * @param context - Repositories, storage service, author and progress callback
+ * @returns Promise resolving to the published moment (with front/back_camera_url = full-size variants,
+ *   placeholders, image_hashes, and metadata when keepMetadata is set)
+ * @throws AppError of the failed step (ValidationError, StorageError, NetworkError, ConflictError
+ *   'storage/duplicate_image' for a rejected duplicate, ...)
+ */
+export async function publishMoment(
+  input: PublishMomentInput,
+  context: PublishMomentContext
+): Promise<Moment> {
+  const { userId, Moment, MomentCircle, storage, onProgress } = context;
+  const circleIds = [...new Set(input.circleIds ?? [])];
+  const undo: { step: PublishStep; run: () => Promise<void> }[] = [];
+  let failedStep: PublishStep | null = null;
+
+  const run = async <T>(step: PublishStep, action: () => Promise<T>): Promise<T> => {
+    onProgress?.({ step, status: 'running' });
+    try {
+      const result = await action();
+      onProgress?.({ step, status: 'done' });
+      return result;
+    } catch (error) {
+      failedStep = step;
+      onProgress?.({ step, status: 'failed', error });
+      throw error;
+    }
+  };
+
+  try {
+    const moment = await run('create', () => Moment.create({ created_by: userId, title: input.caption }));
+    undo.push({ step: 'create', run: () => Moment.hardDeleteById(moment.id) });
+
+    const duplicateCheck = input.duplicateCheck && { ...input.duplicateCheck, findSimilar: Moment.findSimilar };
+    // A queued upload would outlive the rollback and recreate the deleted images
+    const uploadOptions = { keepMetadata: input.keepMetadata, duplicateCheck, queueOnFailure: false };
+
+    const front = await run('upload_front', () =>
+      storage.uploadMomentImage(userId, moment.id, 'front', input.front, uploadOptions)
+    );
+    undo.push({ step: 'upload_front', run: () => deleteVariants(storage, front) });
+
+    const back = await run('upload_back', () =>
+      storage.uploadMomentImage(userId, moment.id, 'back', input.back, uploadOptions)
+    );
+    undo.push({ step: 'upload_back', run: () => deleteVariants(storage, back) });
+
+    const metadata = input.keepMetadata?.length ? { front: front.metadata, back: back.metadata } : undefined;
+    const placeholders = { front: front.placeholder, back: back.placeholder };
+    const imageHashes = { front: front.hash, back: back.hash };
+    const published = await run('save_urls', () =>
+      Moment.update(moment.id, {
+        front_camera_url: front.src,
+        back_camera_url: back.src,
+        placeholders,
+        image_hashes: imageHashes,
+        ...(metadata && { metadata })
+      })
+    );
+    // Undone by the hard delete of the row
+    undo.push({ step: 'save_urls', run: async () => {} });
+
+    await run('link_circles', async () => {
+      for (const circleId of circleIds) {
+        await MomentCircle.create(moment.id, circleId);
+        undo.push({ step: 'link_circles', run: () => MomentCircle.deleteById(moment.id, circleId) });
+      }
+    });
+
+    return published;
+  } catch (error) {
+    await rollback(undo, failedStep, onProgress);
+    throw toAppError(error, 'Publish moment failed', 'db');
+  }
+}
+
+/**
+ * Deletes every uploaded variant of an image (paths carry the negotiated extension)
+ */
+async function deleteVariants(
+  storage: Pick<StorageService, 'deleteFile'>,
+  manifest: ImageVariantManifest
+): Promise<void> {
+  for (const variant of manifest.variants) {
+    await storage.deleteFile(variant.path);
+  }
+}
+
+/**
+ * Runs the compensations newest first; keeps going when one of them fails
+ *
+ * The failed step keeps its 'failed' status even if part of it (e.g. some circle
+ * links) had to be undone.
+ */
+async function rollback(
+  undo: { step: PublishStep; run: () => Promise<void> }[],
+  failedStep: PublishStep | null,
+  onProgress?: (event: PublishProgressEvent) => void
+): Promise<void> {
+  const failedSteps = new Set<PublishStep>(failedStep ? [failedStep] : []);
+
+  for (const { step, run } of [...undo].reverse()) {
+    try {
+      await run();
+    } catch (error) {
+      failedSteps.add(step);
+      console.error(`[Publish Rollback] ${step}:`, error);
+      onProgress?.({ step, status: 'failed', error });
+    }
+  }
+
+  for (const step of new Set(undo.map((entry) => entry.step))) {
+    if (!failedSteps.has(step)) {
+      onProgress?.({ step, status: 'rolled_back' });
+    }
+  }
+}
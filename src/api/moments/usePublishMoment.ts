@@ -0,0 +1,99 @@
+import { useCallback, useRef, useState } from 'react';
+import { useAuth } from '../auth/useAuth';
+import { useStorage } from '../storage/useStorage';
+import { Moment as MomentRepository, MomentCircle as MomentCircleRepository } from '../entities/index.js';
+import { AuthError, ConflictError } from '../errors';
+import { PUBLISH_STEPS, publishMoment } from './publishMoment';
+import type { PublishMomentContext, PublishMomentInput, PublishStep, PublishStepStatus } from './publishMoment';
+import type { Moment } from '../entities/repositories';
+
+/**
+ * Publish hook state and controls
+ */
+export interface PublishMomentState {
+  /** Status of every step, updated live */
+  steps: Record<PublishStep, PublishStepStatus>;
+  publishing: boolean;
+  error: Error | null;
+  /** The published moment after success */
+  moment: Moment | null;
+  /** Runs publishMoment for the signed-in user */
+  publish: (input: PublishMomentInput) => Promise<Moment>;
+  /** Clears steps, error and moment (e.g. before a retry) */
+  reset: () => void;
+}
+
+/**
+ * Options for usePublishMoment
+ */
+export interface UsePublishMomentOptions {
+  /** Repositories to use (default: the configured entity backend) */
+  repositories?: Pick<PublishMomentContext, 'Moment' | 'MomentCircle'>;
+}
+
+const initialSteps = (): Record<PublishStep, PublishStepStatus> =>
+  Object.fromEntries(PUBLISH_STEPS.map((step) => [step, 'pending'])) as Record<PublishStep, PublishStepStatus>;
+
+/**
+ * Posts moments with per-step status for progress UIs
+ *
+ * Must be used within AuthProvider and StorageProvider. Uploads go through the
+ * StorageProvider's service, so an injected LocalStorageProvider works offline.
+ *
+ * @example
+ * ```tsx
+ * const { publish, steps, publishing, error } = usePublishMoment();
+ *
+ * await publish({ front, back, caption: 'Sunset', circleIds: [circleId] });
+ * // steps → { create: 'done', upload_front: 'done', upload_back: 'running', ... }
+ * ```
+ */
+export function usePublishMoment(options: UsePublishMomentOptions = {}): PublishMomentState {
+  const { user } = useAuth();
+  const { uploadMomentImage, deleteFile } = useStorage();
+  const [steps, setSteps] = useState(initialSteps);
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [moment, setMoment] = useState<Moment | null>(null);
+  const runningRef = useRef(false);
+
+  const repositories = options.repositories ?? { Moment: MomentRepository, MomentCircle: MomentCircleRepository };
+
+  const reset = useCallback(() => {
+    setSteps(initialSteps());
+    setError(null);
+    setMoment(null);
+  }, []);
+
+  const publish = async (input: PublishMomentInput): Promise<Moment> => {
+    if (!user) {
+      throw new AuthError('auth/not_authenticated', 'Publish moment failed: Not authenticated');
+    }
+    if (runningRef.current) {
+      throw new ConflictError('db/publish_in_progress', 'Publish moment failed: A moment is already being published');
+    }
+
+    runningRef.current = true;
+    reset();
+    setPublishing(true);
+
+    try {
+      const published = await publishMoment(input, {
+        userId: user.id,
+        ...repositories,
+        storage: { uploadMomentImage, deleteFile },
+        onProgress: ({ step, status }) => setSteps((previous) => ({ ...previous, [step]: status }))
+      });
+      setMoment(published);
+      return published;
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Publish moment failed'));
+      throw err;
+    } finally {
+      runningRef.current = false;
+      setPublishing(false);
+    }
+  };
+
+  return { steps, publishing, error, moment, publish, reset };
+}
@@ -0,0 +1,97 @@
+import { resolveObjectURL } from 'node:buffer';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileSystemBlobStore, LocalStorageProvider } from './LocalStorageProvider';
+import { NotFoundError } from '../errors';
+
+const HOUR = 60 * 60 * 1000;
+
+let rootDir: string;
+let store: FileSystemBlobStore;
+let provider: LocalStorageProvider;
+
+const stored = (blob: Blob, expiresAt?: number) => ({ blob, contentType: blob.type, createdAt: Date.now(), expiresAt });
+
+beforeEach(async () => {
+  rootDir = await mkdtemp(join(tmpdir(), 'yomo-storage-'));
+  store = new FileSystemBlobStore(rootDir);
+  provider = new LocalStorageProvider(store);
+});
+
+afterEach(async () => {
+  provider.revokeSignedUrls();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  await rm(rootDir, { recursive: true, force: true });
+});
+
+describe('LocalStorageProvider', () => {
+  it('stores temp uploads under {bucket}/temp/{userId} and returns a stable local:// URL', async () => {
+    const url = await provider.uploadTempFile('u1', new File(['notes'], 'notes.txt', { type: 'text/plain' }));
+
+    const [, path] = /^local:\/\/temp-uploads\/(temp\/u1\/\d+_notes\.txt)$/.exec(url) ?? [];
+    expect(path).toBeDefined();
+    expect(await readFile(join(rootDir, 'temp-uploads', path), 'utf8')).toBe('notes');
+    expect(JSON.parse(await readFile(join(rootDir, 'temp-uploads', `${path}.meta.json`), 'utf8')))
+      .toMatchObject({ contentType: 'text/plain' });
+    expect(await store.list('temp-uploads')).toEqual([path]);
+  });
+
+  it('resolves the bucket of a storage path like the Supabase provider', async () => {
+    await store.put('profiles', 'u1/avatar_thumb.webp', stored(new Blob(['avatar'], { type: 'image/webp' })));
+    await store.put('moments', 'u1/m1/front_camera.webp', stored(new Blob(['front'], { type: 'image/webp' })));
+
+    await expect(provider.getSignedUrl('u1/avatar_thumb.webp')).resolves.toMatch(/^blob:/);
+    await provider.deleteFile('u1/m1/front_camera.webp');
+
+    expect(await readdir(join(rootDir, 'moments', 'u1', 'm1'))).toEqual([]);
+    await expect(provider.deleteFile('u1/m1/front_camera.webp')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('hands out object URLs for local:// URLs and revokes them after expiresIn', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const url = await provider.uploadTempFile('u1', new File(['notes'], 'notes.txt', { type: 'text/plain' }));
+
+    const signed = await provider.getSignedUrl(url, 60);
+    expect(await resolveObjectURL(signed)?.text()).toBe('notes');
+
+    vi.advanceTimersByTime(59_000);
+    expect(resolveObjectURL(signed)).toBeDefined();
+    vi.advanceTimersByTime(1000);
+    expect(resolveObjectURL(signed)).toBeUndefined();
+  });
+
+  it('revokes every handed-out URL on revokeSignedUrls', async () => {
+    const revoke = vi.spyOn(URL, 'revokeObjectURL');
+    await store.put('moments', 'u1/m1/front_camera.webp', stored(new Blob(['front'], { type: 'image/webp' })));
+
+    const first = await provider.getSignedUrl('u1/m1/front_camera.webp');
+    const second = await provider.getSignedUrl('local://moments/u1/m1/front_camera.webp');
+    provider.revokeSignedUrls();
+
+    expect(revoke.mock.calls).toEqual([[first], [second]]);
+  });
+
+  it('treats temp uploads as deleted after 24 hours', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const url = await provider.uploadTempFile('u1', new File(['notes'], 'notes.txt', { type: 'text/plain' }));
+
+    vi.setSystemTime(Date.now() + 24 * HOUR - 1);
+    await expect(provider.getSignedUrl(url)).resolves.toMatch(/^blob:/);
+
+    vi.setSystemTime(Date.now() + 1);
+    await expect(provider.getSignedUrl(url)).rejects.toBeInstanceOf(NotFoundError);
+    expect(await store.list('temp-uploads')).toEqual([]);
+  });
+
+  it('purges expired temp uploads and keeps the rest', async () => {
+    await store.put('temp-uploads', 'temp/u1/1_old.txt', stored(new Blob(['old']), Date.now() - 1));
+    await store.put('temp-uploads', 'temp/u1/2_new.txt', stored(new Blob(['new']), Date.now() + HOUR));
+
+    expect(await provider.purgeExpired()).toBe(1);
+    expect(await store.list('temp-uploads')).toEqual(['temp/u1/2_new.txt']);
+  });
+});
@@ -0,0 +1,585 @@
+import { HEIC_TYPES } from '@/utils/heicDecoder';
+import { createCompositeImage, isImageFile, toWebSafeImage, validateImage } from '@/utils/imageCompression';
+import { ConflictError, NotFoundError, StorageError, ValidationError, toAppError } from '../errors';
+import { progressOf, throwIfAborted } from './uploadTransport';
+import { AVATAR_VARIANTS, MOMENT_VARIANTS, generateVariants, hashFor, placeholderFor, stripTempImage, variantPath, withKeptMetadata } from './imageVariants';
+import { checkDuplicates } from './duplicateCheck';
+import type { GeneratedVariant, ImageVariant, ImageVariantManifest } from './imageVariants';
+import type { StorageService, StorageBucket, MomentImageType, UploadOptions, CompositeUploadOptions, MomentCompositeManifests } from './StorageService';
+
+/**
+ * Temp uploads expire after 24 hours (mirrors the Supabase bucket lifecycle)
+ */
+const TEMP_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stored object with metadata
+ */
+export interface StoredObject {
+  blob: Blob;
+  contentType: string;
+  createdAt: number;
+  /** Epoch ms after which the object is treated as deleted */
+  expiresAt?: number;
+}
+
+/**
+ * Minimal key/value blob store used by LocalStorageProvider
+ */
+export interface BlobStore {
+  get(bucket: StorageBucket, path: string): Promise<StoredObject | null>;
+  put(bucket: StorageBucket, path: string, object: StoredObject): Promise<void>;
+  delete(bucket: StorageBucket, path: string): Promise<boolean>;
+  list(bucket: StorageBucket): Promise<string[]>;
+}
+
+/**
+ * BlobStore backed by IndexedDB (browser)
+ */
+export class IndexedDBBlobStore implements BlobStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = 'yomo-storage') {}
+
+  async get(bucket: StorageBucket, path: string): Promise<StoredObject | null> {
+    const result = await this.request<StoredObject | undefined>('readonly', (store) => store.get(this.key(bucket, path)));
+    return result ?? null;
+  }
+
+  async put(bucket: StorageBucket, path: string, object: StoredObject): Promise<void> {
+    await this.request('readwrite', (store) => store.put(object, this.key(bucket, path)));
+  }
+
+  async delete(bucket: StorageBucket, path: string): Promise<boolean> {
+    const existing = await this.get(bucket, path);
+    if (!existing) {
+      return false;
+    }
+    await this.request('readwrite', (store) => store.delete(this.key(bucket, path)));
+    return true;
+  }
+
+  async list(bucket: StorageBucket): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', (store) => store.getAllKeys());
+    const prefix = `${bucket}:`;
+    return keys
+      .map(String)
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length));
+  }
+
+  private key(bucket: StorageBucket, path: string): string {
+    return `${bucket}:${path}`;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore('objects');
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new StorageError('storage/indexeddb_unavailable', `Failed to open IndexedDB: ${request.error?.message}`, { cause: request.error }));
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = fn(db.transaction('objects', mode).objectStore('objects'));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(new StorageError('storage/indexeddb_failed', `IndexedDB request failed: ${request.error?.message}`, { cause: request.error }));
+    });
+  }
+}
+
+/**
+ * BlobStore backed by a directory on disk (Node)
+ *
+ * Layout: {rootDir}/{bucket}/{path} plus a sidecar {path}.meta.json
+ */
+export class FileSystemBlobStore implements BlobStore {
+  constructor(private readonly rootDir: string = '.yomo-storage') {}
+
+  async get(bucket: StorageBucket, path: string): Promise<StoredObject | null> {
+    const fs = await import('node:fs/promises');
+    const file = this.resolve(bucket, path);
+    try {
+      const [data, meta] = await Promise.all([
+        fs.readFile(file),
+        fs.readFile(`${file}.meta.json`, 'utf8')
+      ]);
+      const { contentType, createdAt, expiresAt } = JSON.parse(meta);
+      return { blob: new Blob([new Uint8Array(data)], { type: contentType }), contentType, createdAt, expiresAt };
+    } catch {
+      return null;
+    }
+  }
+
+  async put(bucket: StorageBucket, path: string, object: StoredObject): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const { dirname } = await import('node:path');
+    const file = this.resolve(bucket, path);
+    const { blob, ...meta } = object;
+    await fs.mkdir(dirname(file), { recursive: true });
+    await fs.writeFile(file, new Uint8Array(await blob.arrayBuffer()));
+    await fs.writeFile(`${file}.meta.json`, JSON.stringify(meta));
+  }
+
+  async delete(bucket: StorageBucket, path: string): Promise<boolean> {
+    const fs = await import('node:fs/promises');
+    const file = this.resolve(bucket, path);
+    try {
+      await fs.unlink(file);
+      await fs.rm(`${file}.meta.json`, { force: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(bucket: StorageBucket): Promise<string[]> {
+    const fs = await import('node:fs/promises');
+    // Paths are built while walking (Dirent.parentPath needs Node 20.12)
+    const walk = async (dir: string, prefix: string): Promise<string[]> => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      const paths = await Promise.all(entries.map((entry) => {
+        if (entry.isDirectory()) {
+          return walk(`${dir}/${entry.name}`, `${prefix}${entry.name}/`);
+        }
+        return entry.isFile() && !entry.name.endsWith('.meta.json') ? [`${prefix}${entry.name}`] : [];
+      }));
+      return paths.flat();
+    };
+
+    try {
+      return await walk(`${this.rootDir}/${bucket}`, '');
+    } catch {
+      return [];
+    }
+  }
+
+  private resolve(bucket: StorageBucket, path: string): string {
+    if (path.split('/').includes('..')) {
+      throw new ValidationError('storage/invalid_path', `Invalid storage path: ${path}`);
+    }
+    return `${this.rootDir}/${bucket}/${path}`;
+  }
+}
+
+/**
+ * Local implementation of StorageService
+ *
+ * Stores uploads in a BlobStore (IndexedDB in the browser, a directory under Node)
+ * using the same buckets, paths and compression settings as SupabaseStorageProvider.
+ * Uploads return stable local://{bucket}/{path} URLs; getSignedUrl turns them (or a
+ * storage path) into object URLs that are revoked once they expire.
+ */
+export class LocalStorageProvider implements StorageService {
+  private readonly store: BlobStore;
+  /** Object URLs handed out by getSignedUrl and their revocation timers */
+  private readonly signedUrls = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /**
+   * @param store - Blob store to use (default: IndexedDBBlobStore)
+   */
+  constructor(store?: BlobStore) {
+    this.store = store ?? new IndexedDBBlobStore();
+  }
+
+  /**
+   * Uploads a moment image (front or back camera) to the 'moments' bucket
+   *
+   * Stores the same variants and paths as SupabaseStorageProvider.
+   *
+   * @param userId - The ID of the user uploading the image
+   * @param momentId - The ID of the moment this image belongs to
+   * @param imageType - Whether this is a 'front' or 'back' camera image
+   * @param file - The image file to upload (max 50MB)
+   * @param options - Progress callback (reported once stored), abort signal and duplicate check
+   * @returns Promise resolving to the variant manifest (local:// URLs)
+   * @throws ValidationError if validation fails, ConflictError for a rejected duplicate,
+   * StorageError if compression or upload fails
+   */
+  async uploadMomentImage(
+    userId: string,
+    momentId: string,
+    imageType: MomentImageType,
+    file: File,
+    options: UploadOptions = {}
+  ): Promise<ImageVariantManifest> {
+    try {
+      throwIfAborted(options.signal);
+
+      const { variants, hash } = await this.renderMomentImage(userId, momentId, file, options);
+
+      throwIfAborted(options.signal);
+      // Placeholder is computed from the thumbnail while the variants upload
+      const [manifest, placeholder] = await Promise.all([
+        this.putVariants('moments', `${userId}/${momentId}/${imageType}_camera`, variants, options),
+        placeholderFor(variants)
+      ]);
+      return await withKeptMetadata({ ...manifest, placeholder, hash }, file, options.keepMetadata);
+    } catch (error) {
+      throw toAppError(error, 'Moment image upload failed', 'storage');
+    }
+  }
+
+  /**
+   * Uploads both camera images of a moment and their composite to the 'moments' bucket
+   *
+   * Stores the same variants and paths as SupabaseStorageProvider.
+   *
+   * @param userId - The ID of the user uploading the images
+   * @param momentId - The ID of the moment the images belong to
+   * @param front - Front camera image (max 50MB)
+   * @param back - Back camera image (max 50MB)
+   * @param options - Progress callback (reported as each image is stored), abort signal,
+   * duplicate check and composite layout
+   * @returns Promise resolving to the variant manifests of front, back and composite (local:// URLs)
+   * @throws ValidationError if validation fails, ConflictError for a rejected duplicate,
+   * StorageError if rendering, compression or upload fails
+   */
+  async uploadMomentComposite(
+    userId: string,
+    momentId: string,
+    front: File,
+    back: File,
+    options: CompositeUploadOptions = {}
+  ): Promise<MomentCompositeManifests> {
+    try {
+      throwIfAborted(options.signal);
+
+      const frontImage = await this.renderMomentImage(userId, momentId, front, options);
+      const backImage = await this.renderMomentImage(userId, momentId, back, options);
+      const composite = await generateVariants(await createCompositeImage(front, back, options.composite), MOMENT_VARIANTS);
+
+      throwIfAborted(options.signal);
+
+      const total = [frontImage.variants, backImage.variants, composite]
+        .flat()
+        .reduce((sum, variant) => sum + variant.blob.size, 0);
+      let stored = 0;
+
+      const put = async (basePath: string, variants: GeneratedVariant[]): Promise<ImageVariantManifest> => {
+        const offset = stored;
+        stored += variants.reduce((sum, variant) => sum + variant.blob.size, 0);
+
+        const [manifest, placeholder] = await Promise.all([
+          this.putVariants('moments', basePath, variants, {
+            signal: options.signal,
+            onProgress: options.onProgress && ((progress) => options.onProgress?.(progressOf(offset + progress.loaded, total)))
+          }),
+          placeholderFor(variants)
+        ]);
+        return { ...manifest, placeholder };
+      };
+
+      const manifests: ImageVariantManifest[] = [];
+      try {
+        manifests.push(await put(`${userId}/${momentId}/front_camera`, frontImage.variants));
+        manifests.push(await put(`${userId}/${momentId}/back_camera`, backImage.variants));
+        manifests.push(await put(`${userId}/${momentId}/composite`, composite));
+      } catch (error) {
+        // The failed image removed its own variants; remove the images stored before it
+        await this.discardVariants('moments', manifests.flatMap((manifest) => manifest.variants));
+        throw error;
+      }
+      const [frontManifest, backManifest, compositeManifest] = manifests;
+
+      return {
+        front: await withKeptMetadata({ ...frontManifest, hash: frontImage.hash }, front, options.keepMetadata),
+        back: await withKeptMetadata({ ...backManifest, hash: backImage.hash }, back, options.keepMetadata),
+        composite: compositeManifest
+      };
+    } catch (error) {
+      throw toAppError(error, 'Moment composite upload failed', 'storage');
+    }
+  }
+
+  /**
+   * Uploads a profile/avatar image to the 'profiles' bucket
+   *
+   * Stores the same variants and paths as SupabaseStorageProvider.
+   *
+   * @param userId - The ID of the user uploading the profile image
+   * @param file - The image file to upload (max 10MB)
+   * @param options - Progress callback (reported once stored) and abort signal
+   * @returns Promise resolving to the variant manifest (local:// URLs)
+   * @throws ValidationError if validation fails, StorageError if compression or upload fails
+   */
+  async uploadProfileImage(userId: string, file: File, options: UploadOptions = {}): Promise<ImageVariantManifest> {
+    try {
+      throwIfAborted(options.signal);
+
+      const validation = await validateImage(file, {
+        maxSize: 10 * 1024 * 1024, // 10MB
+        allowedTypes: ['image/jpeg', 'image/png', 'image/webp', ...HEIC_TYPES],
+        maxWidth: 4096,
+        maxHeight: 4096
+      });
+
+      if (!validation.valid) {
+        throw new ValidationError('validation/invalid_image', `Image validation failed: ${validation.error}`);
+      }
+
+      const variants = await generateVariants(file, AVATAR_VARIANTS);
+
+      throwIfAborted(options.signal);
+      // Placeholder is computed from the thumbnail while the variants upload
+      const [manifest, placeholder] = await Promise.all([
+        this.putVariants('profiles', `${userId}/avatar`, variants, options),
+        placeholderFor(variants)
+      ]);
+      return await withKeptMetadata({ ...manifest, placeholder }, file, options.keepMetadata);
+    } catch (error) {
+      throw toAppError(error, 'Profile image upload failed', 'storage');
+    }
+  }
+
+  /**
+   * Uploads a temporary file to the 'temp-uploads' bucket
+   *
+   * Files are stored without compression (images without metadata, re-encoded as PNG where
+   * it cannot be stripped in place, HEIC/HEIF as JPEG) and expire after 24 hours.
+   *
+   * @param userId - The ID of the user uploading the file
+   * @param file - The file to upload (max 100MB)
+   * @param options - Progress callback (reported once stored) and abort signal
+   * @returns Promise resolving to the local:// URL of the stored file
+   * @throws ValidationError if an image cannot be cleaned, StorageError if upload fails
+   */
+  async uploadTempFile(userId: string, file: File, options: UploadOptions = {}): Promise<string> {
+    try {
+      throwIfAborted(options.signal);
+
+      const image = await toWebSafeImage(file);
+      // Types that cannot be stripped in place are re-encoded (e.g. AVIF → PNG)
+      const body = isImageFile(image) ? await stripTempImage(image) : image;
+      const timestamp = Date.now();
+      const path = `temp/${userId}/${timestamp}_${body.name}`;
+
+      if (await this.read('temp-uploads', path)) {
+        throw new ConflictError('storage/already_exists', 'Upload failed: The resource already exists');
+      }
+
+      await this.put('temp-uploads', path, body, body.type, timestamp + TEMP_UPLOAD_TTL_MS);
+      options.onProgress?.(progressOf(body.size, body.size));
+
+      return this.urlFor('temp-uploads', path);
+    } catch (error) {
+      throw toAppError(error, 'Temp file upload failed', 'storage');
+    }
+  }
+
+  /**
+   * Generates an object URL that is revoked after expiresIn seconds
+   *
+   * @param path - The storage path to the file (e.g., "user123/moment456/front_camera.jpg")
+   *               or a local:// URL returned by an upload
+   * @param expiresIn - Optional expiration time in seconds (default: 3600 = 1 hour)
+   * @returns Promise resolving to an object URL
+   * @throws NotFoundError if file doesn't exist or has expired
+   */
+  async getSignedUrl(path: string, expiresIn: number = 3600): Promise<string> {
+    try {
+      const [bucket, storagePath] = this.locate(path);
+      const object = await this.read(bucket, storagePath);
+
+      if (!object) {
+        throw new NotFoundError('storage/not_found', 'Signed URL generation failed: Object not found');
+      }
+
+      const url = URL.createObjectURL(object.blob);
+      this.signedUrls.set(url, setTimeout(() => this.revokeSignedUrl(url), expiresIn * 1000));
+
+      return url;
+    } catch (error) {
+      throw toAppError(error, 'Get signed URL failed', 'storage');
+    }
+  }
+
+  /**
+   * Deletes a file from storage
+   *
+   * @param path - The storage path to the file (e.g., "user123/moment456/front_camera.jpg")
+   * @throws NotFoundError if file doesn't exist, StorageError if deletion fails
+   */
+  async deleteFile(path: string): Promise<void> {
+    try {
+      const deleted = await this.store.delete(this.resolveBucket(path), path);
+
+      if (!deleted) {
+        throw new NotFoundError('storage/not_found', 'Delete failed: Object not found');
+      }
+    } catch (error) {
+      throw toAppError(error, 'Delete file failed', 'storage');
+    }
+  }
+
+  /**
+   * Revokes every object URL handed out by getSignedUrl (e.g. on logout or unmount)
+   */
+  revokeSignedUrls(): void {
+    for (const url of [...this.signedUrls.keys()]) {
+      this.revokeSignedUrl(url);
+    }
+  }
+
+  /**
+   * Removes expired temp uploads (the local equivalent of the bucket lifecycle rule)
+   *
+   * @returns Promise resolving to the number of removed files
+   */
+  async purgeExpired(): Promise<number> {
+    const paths = await this.store.list('temp-uploads');
+    let removed = 0;
+
+    for (const path of paths) {
+      const object = await this.store.get('temp-uploads', path);
+      if (object?.expiresAt && object.expiresAt <= Date.now()) {
+        await this.store.delete('temp-uploads', path);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  private revokeSignedUrl(url: string): void {
+    clearTimeout(this.signedUrls.get(url));
+    this.signedUrls.delete(url);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Reads an object, treating expired ones as missing (and removing them)
+   */
+  private async read(bucket: StorageBucket, path: string): Promise<StoredObject | null> {
+    const object = await this.store.get(bucket, path);
+
+    if (object?.expiresAt && object.expiresAt <= Date.now()) {
+      await this.store.delete(bucket, path);
+      return null;
+    }
+
+    return object;
+  }
+
+  /**
+   * Validates a moment image, renders its variants and runs the duplicate check on its pHash
+   */
+  private async renderMomentImage(
+    userId: string,
+    momentId: string,
+    file: File,
+    options: UploadOptions
+  ): Promise<{ variants: GeneratedVariant[]; hash: string }> {
+    const validation = await validateImage(file, {
+      maxSize: 50 * 1024 * 1024, // 50MB
+      allowedTypes: ['image/jpeg', 'image/png', 'image/webp', ...HEIC_TYPES],
+      maxWidth: 8192,
+      maxHeight: 8192
+    });
+
+    if (!validation.valid) {
+      throw new ValidationError('validation/invalid_image', `Image validation failed: ${validation.error}`);
+    }
+
+    const variants = await generateVariants(file, MOMENT_VARIANTS);
+    const hash = await hashFor(variants);
+    await checkDuplicates(userId, momentId, hash, options.duplicateCheck);
+
+    return { variants, hash };
+  }
+
+  /**
+   * Stores rendered variants under {basePath}[_{variant}].{extension} and builds the manifest
+   *
+   * All or nothing: if a variant fails or the upload is aborted, the variants already
+   * stored are removed before the error is rethrown.
+   */
+  private async putVariants(
+    bucket: StorageBucket,
+    basePath: string,
+    variants: GeneratedVariant[],
+    options: UploadOptions
+  ): Promise<ImageVariantManifest> {
+    const stored: ImageVariant[] = [];
+
+    try {
+      for (const { spec, blob, extension, width, height } of variants) {
+        throwIfAborted(options.signal);
+        const path = variantPath(basePath, spec.name, extension);
+        await this.put(bucket, path, blob, blob.type);
+        stored.push({ name: spec.name, width, height, size: blob.size, path, url: this.urlFor(bucket, path) });
+      }
+    } catch (error) {
+      await this.discardVariants(bucket, stored);
+      throw error;
+    }
+
+    const total = stored.reduce((sum, variant) => sum + variant.size, 0);
+    options.onProgress?.(progressOf(total, total));
+
+    return { src: stored[stored.length - 1].url, variants: stored };
+  }
+
+  /**
+   * Removes variants of an upload that failed part-way (best effort, failures are logged)
+   */
+  private async discardVariants(bucket: StorageBucket, variants: ImageVariant[]): Promise<void> {
+    for (const variant of variants) {
+      await this.store.delete(bucket, variant.path).catch((error) => {
+        console.error('[Storage] Failed to remove partially stored variant:', error);
+      });
+    }
+  }
+
+  private async put(
+    bucket: StorageBucket,
+    path: string,
+    blob: Blob,
+    contentType: string,
+    expiresAt?: number
+  ): Promise<void> {
+    await this.store.put(bucket, path, {
+      blob,
+      contentType: contentType || 'application/octet-stream',
+      createdAt: Date.now(),
+      expiresAt
+    });
+  }
+
+  /**
+   * Stable URL of a stored object; resolved to an object URL by getSignedUrl
+   */
+  private urlFor(bucket: StorageBucket, path: string): string {
+    return `local://${bucket}/${path}`;
+  }
+
+  /**
+   * Bucket and storage path of a local:// URL or a plain storage path
+   */
+  private locate(pathOrUrl: string): [StorageBucket, string] {
+    const match = /^local:\/\/(moments|profiles|temp-uploads)\/(.+)$/.exec(pathOrUrl);
+    if (match) {
+      return [match[1] as StorageBucket, match[2]];
+    }
+    return [this.resolveBucket(pathOrUrl), pathOrUrl];
+  }
+
+  /**
+   * Determines the bucket from a path (same rules as SupabaseStorageProvider)
+   */
+  private resolveBucket(path: string): StorageBucket {
+    if (path.startsWith('temp/')) {
+      return 'temp-uploads';
+    }
+    if (/\/avatar[._]/.test(path)) {
+      return 'profiles';
+    }
+    return 'moments';
+  }
+}
@@ -1,3 +1,8 @@
+import type { UploadQueue } from './uploadQueue';
+import type { ImageVariantManifest } from './imageVariants';
+import type { DuplicateCheck } from './duplicateCheck';
+import type { CompositeOptions, KeepableMetadataField } from '@/utils/imageCompression';
+
 /**
  * Storage bucket type for organizing uploads
  */
@@ -8,6 +13,59 @@ export type StorageBucket = 'moments' | 'profiles' | 'temp-uploads';
  */
 export type MomentImageType = 'front' | 'back';
 
+/**
+ * Upload progress snapshot
+ */
+export interface UploadProgress {
+  /** Bytes uploaded so far */
+  loaded: number;
+  /** Total bytes (after compression for images) */
+  total: number;
+  /** 0-100 */
+  percent: number;
+}
+
+/**
+ * Per-upload options
+ */
+export interface UploadOptions {
+  /** Called as bytes are sent (at least once on completion) */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Aborts the upload; rejects with StorageError code 'storage/aborted' */
+  signal?: AbortSignal;
+  /**
+   * Image uploads: EXIF fields of the original to return as manifest.metadata.
+   * Uploaded files never carry EXIF (no GPS), whatever is kept here.
+   */
+  keepMetadata?: KeepableMetadataField[];
+  /** Moment uploads: compare the image's pHash with the user's recent moments */
+  duplicateCheck?: DuplicateCheck;
+  /**
+   * Image uploads: hand variants to uploadQueue when offline or after a retryable failure
+   * (default: true). Off for uploads that may be rolled back, since queued jobs would
+   * recreate the files later.
+   */
+  queueOnFailure?: boolean;
+}
+
+/**
+ * Options of uploadMomentComposite (progress spans all three images)
+ */
+export interface CompositeUploadOptions extends UploadOptions {
+  /** Layout and overlay of the composite (see createCompositeImage) */
+  composite?: CompositeOptions;
+}
+
+/**
+ * Variant manifests of a moment uploaded with its composite
+ */
+export interface MomentCompositeManifests {
+  front: ImageVariantManifest;
+  back: ImageVariantManifest;
+  /** Picture-in-picture image (no hash; metadata is kept on the originals only) */
+  composite: ImageVariantManifest;
+}
+
 /**
  * Storage service abstraction layer
  * 
@@ -15,38 +73,82 @@ export type MomentImageType = 'front' | 'back';
  * allowing for easy swapping of storage providers (Supabase → Base SDK in Phase 3)
  */
 export interface StorageService {
+  /**
+   * Durable queue for image uploads that failed while offline (null if the
+   * provider uploads synchronously only)
+   */
+  readonly uploadQueue?: UploadQueue | null;
+
   /**
    * Uploads a moment image (front or back camera) to storage
    * 
-   * Images are compressed to ~1.5MB target before upload.
-   * Path: {userId}/{momentId}/{imageType}_camera.jpg
+   * Stored as variants thumb (256px), medium (720px) and full (1920px, ~1.5MB target).
+   * Paths: {userId}/{momentId}/{imageType}_camera.{ext} (full),
+   * {userId}/{momentId}/{imageType}_camera_{thumb|medium}.{ext}
+   * where ext is the smallest format the browser can encode (avif, webp, or jpg);
+   * HEIC/HEIF input (iPhone) is accepted and never stored as such
+   * 
+   * The manifest carries the image's perceptual hash (manifest.hash); with
+   * options.duplicateCheck, near-duplicates of the user's recent moments are
+   * reported or rejected before anything is uploaded.
    * 
    * @param userId - The ID of the user uploading the image
    * @param momentId - The ID of the moment this image belongs to
    * @param imageType - Whether this is a 'front' or 'back' camera image
    * @param file - The image file to upload (max 50MB)
-   * @returns Promise resolving to the public URL of the uploaded image
-   * @throws Error if validation fails, compression fails, or upload fails
+   * @param options - Progress callback and abort signal
+   * @returns Promise resolving to the variant manifest (src = full-size URL; see toSrcSet) and placeholder
+   * @throws ValidationError if validation fails, ConflictError 'storage/duplicate_image' for a rejected
+   * duplicate, StorageError if compression or upload fails
    */
   uploadMomentImage(
     userId: string,
     momentId: string,
     imageType: MomentImageType,
-    file: File
-  ): Promise<string>;
+    file: File,
+    options?: UploadOptions
+  ): Promise<ImageVariantManifest>;
+
+  /**
+   * Uploads both camera images of a moment together with their composite
+   * 
+   * The front and back images are stored exactly as by uploadMomentImage
+   * (including the duplicate check); the picture-in-picture image rendered from
+   * the originals (createCompositeImage) is stored with the same variants at
+   * {userId}/{momentId}/composite.{ext} and composite_{thumb|medium}.{ext}.
+   * Everything is rendered before the first byte is sent.
+   * 
+   * @param userId - The ID of the user uploading the images
+   * @param momentId - The ID of the moment the images belong to
+   * @param front - Front camera image (max 50MB)
+   * @param back - Back camera image (max 50MB)
+   * @param options - Progress callback (across all three images), abort signal,
+   * duplicate check and composite layout
+   * @returns Promise resolving to the variant manifests of front, back and composite
+   * @throws ValidationError if validation fails, ConflictError 'storage/duplicate_image' for a rejected
+   * duplicate, StorageError if rendering, compression or upload fails
+   */
+  uploadMomentComposite(
+    userId: string,
+    momentId: string,
+    front: File,
+    back: File,
+    options?: CompositeUploadOptions
+  ): Promise<MomentCompositeManifests>;
 
   /**
    * Uploads a profile/avatar image to storage
    * 
-   * Images are compressed to ~100KB target before upload.
-   * Path: {userId}/avatar.jpg
+   * Stored as square variants thumb (64px), medium (128px) and full (512px, ~100KB target).
+   * Paths: {userId}/avatar.{ext} (full), {userId}/avatar_{thumb|medium}.{ext}
    * 
    * @param userId - The ID of the user uploading the profile image
    * @param file - The image file to upload (max 10MB)
-   * @returns Promise resolving to the public URL of the uploaded image
-   * @throws Error if validation fails, compression fails, or upload fails
+   * @param options - Progress callback and abort signal
+   * @returns Promise resolving to the variant manifest (src = full-size URL; see toSrcSet) and placeholder
+   * @throws ValidationError if validation fails, StorageError if compression or upload fails
    */
-  uploadProfileImage(userId: string, file: File): Promise<string>;
+  uploadProfileImage(userId: string, file: File, options?: UploadOptions): Promise<ImageVariantManifest>;
 
   /**
    * Uploads a temporary file to storage
@@ -55,12 +157,19 @@ export interface StorageService {
    * Auto-deleted after 24 hours.
    * Path: temp/{userId}/{timestamp}_{filename}
    * 
+   * Large files are uploaded in resumable chunks (tus) where the provider supports it.
+   * JPEG, PNG, WebP and GIF files are stripped of EXIF/GPS and other identifying metadata;
+   * other images (AVIF, TIFF, ...) are re-encoded as PNG (filename ending .png) and
+   * HEIC/HEIF files are converted to JPEG (filename ending .jpg).
+   * 
    * @param userId - The ID of the user uploading the file
    * @param file - The file to upload (max 100MB)
+   * @param options - Progress callback and abort signal
    * @returns Promise resolving to the public URL of the uploaded file
-   * @throws Error if upload fails
+   * @throws ValidationError if an image cannot be decoded to remove its metadata,
+   *         StorageError if upload fails or is aborted
    */
-  uploadTempFile(userId: string, file: File): Promise<string>;
+  uploadTempFile(userId: string, file: File, options?: UploadOptions): Promise<string>;
 
   /**
    * Generates a signed URL for private file access
@@ -68,7 +177,7 @@ export interface StorageService {
    * @param path - The storage path to the file
    * @param expiresIn - Optional expiration time in seconds (default: 3600)
    * @returns Promise resolving to a signed URL
-   * @throws Error if file doesn't exist or URL generation fails
+   * @throws NotFoundError if file doesn't exist, StorageError if URL generation fails
    */
   getSignedUrl(path: string, expiresIn?: number): Promise<string>;
 
@@ -76,7 +185,7 @@ export interface StorageService {
    * Deletes a file from storage
    * 
    * @param path - The storage path to the file
-   * @throws Error if file doesn't exist or deletion fails
+   * @throws NotFoundError if file doesn't exist, StorageError if deletion fails
    */
   deleteFile(path: string): Promise<void>;
 }
@@ -1,91 +1,194 @@
-import { supabase } from '../supabase';
-import { compressImage, validateImage } from '@/utils/imageCompression';
-import type { StorageService, MomentImageType } from './StorageService';
+import { supabase, supabaseAnonKey, supabaseUrl } from '../supabase';
+import { HEIC_TYPES } from '@/utils/heicDecoder';
+import { createCompositeImage, isImageFile, toWebSafeImage, validateImage } from '@/utils/imageCompression';
+import { AppError, StorageError, ValidationError, fromStorageError, toAppError } from '../errors';
+import { TUS_CHUNK_SIZE, findResumableUpload, tusUpload } from './tusUpload';
+import type { ResumeStore } from './tusUpload';
+import { UploadQueue } from './uploadQueue';
+import type { UploadQueueOptions } from './uploadQueue';
+import { AVATAR_VARIANTS, MOMENT_VARIANTS, generateVariants, hashFor, placeholderFor, stripTempImage, variantPath, withKeptMetadata } from './imageVariants';
+import { checkDuplicates } from './duplicateCheck';
+import type { GeneratedVariant, ImageVariant, ImageVariantManifest } from './imageVariants';
+import { progressOf, throwIfAborted, xhrUpload } from './uploadTransport';
+import type { StorageService, StorageBucket, MomentImageType, UploadOptions, CompositeUploadOptions, MomentCompositeManifests } from './StorageService';
+
+/**
+ * Options for SupabaseStorageProvider
+ */
+export interface SupabaseStorageOptions {
+  /** Uploads larger than this many bytes use resumable chunks (default: 6MB) */
+  resumableThreshold?: number;
+  /** Bytes per resumable chunk (default: 6MB, required by Supabase) */
+  chunkSize?: number;
+  /** Resumable upload endpoint (default: `${VITE_SUPABASE_URL}/storage/v1/upload/resumable`) */
+  resumableEndpoint?: string;
+  /** fetch used for resumable uploads (e.g. createTusStandIn().fetch) */
+  fetch?: typeof fetch;
+  /** Where resumable upload URLs are remembered (default: localStorage) */
+  resumeStore?: ResumeStore | null;
+  /** Offline upload queue settings; false disables it (default: IndexedDB queue when available) */
+  uploadQueue?: UploadQueueOptions | false;
+}
 
 /**
  * Supabase implementation of StorageService
  * 
  * Provides file storage using Supabase Storage with automatic image compression.
  * Buckets: moments (1.5MB target), profiles (100KB target), temp-uploads (no compression)
+ *
+ * Uploads report progress and can be aborted (UploadOptions). Files above the
+ * resumable threshold are sent as tus chunks and continue after a dropped connection.
+ *
+ * Moment and profile images that cannot be uploaded because the device is offline
+ * (or the request fails with a retryable error) are put into the upload queue and
+ * the public URL is returned right away; the queue uploads them once connectivity
+ * returns (unless UploadOptions.queueOnFailure is false, as in publishMoment).
+ * Call uploadQueue.start() once at startup (StorageProvider does this).
  */
 export class SupabaseStorageProvider implements StorageService {
+  readonly uploadQueue: UploadQueue | null;
+  private readonly options: SupabaseStorageOptions;
+
+  /**
+   * @param options - Resumable upload and offline queue settings
+   */
+  constructor(options: SupabaseStorageOptions = {}) {
+    this.options = options;
+
+    const queueOptions = options.uploadQueue === false ? null : options.uploadQueue ?? {};
+    this.uploadQueue = queueOptions && (queueOptions.store || typeof indexedDB !== 'undefined')
+      ? new UploadQueue(
+          (job) => this.transfer(job.bucket, job.path, job.blob, { upsert: job.upsert, contentType: job.contentType }, {}),
+          queueOptions
+        )
+      : null;
+  }
+
   /**
    * Uploads a moment image (front or back camera) to storage
    * 
    * Flow:
-   * 1. Validate: max 50MB, jpeg/png/webp only
-   * 2. Compress: target 1.5MB, quality 0.85, max 1920x1920
-   * 3. Upload: to 'moments' bucket with path {userId}/{momentId}/{imageType}_camera.jpg
-   * 4. Return: public URL
+   * 1. Validate: max 50MB, jpeg/png/webp/HEIC only
+   * 2. Compress: variants thumb (256px), medium (720px) and full (1920px, target 1.5MB),
+   *    as AVIF/WebP when the browser can encode it smaller, JPEG otherwise
+   * 3. Hash: pHash of the thumbnail; options.duplicateCheck compares it with the
+   *    user's recent moments (warn or reject)
+   * 4. Upload: to 'moments' bucket with paths {userId}/{momentId}/{imageType}_camera.{ext}
+   *    (full) and {imageType}_camera_{variant}.{ext} (queued when offline)
+   * 5. Return: variant manifest (src = full-size public URL) with the BlurHash placeholder and hash
    * 
    * @param userId - The ID of the user uploading the image
    * @param momentId - The ID of the moment this image belongs to
    * @param imageType - Whether this is a 'front' or 'back' camera image
    * @param file - The image file to upload (max 50MB)
-   * @returns Promise resolving to the public URL of the uploaded image
-   * @throws Error if validation fails, compression fails, or upload fails
+   * @param options - Progress callback (across all variants), abort signal and duplicate check
+   * @returns Promise resolving to the variant manifest of the uploaded image
+   * @throws ValidationError if validation fails, ConflictError for a rejected duplicate,
+   * StorageError if compression or upload fails
    */
   async uploadMomentImage(
     userId: string,
     momentId: string,
     imageType: MomentImageType,
-    file: File
-  ): Promise<string> {
+    file: File,
+    options: UploadOptions = {}
+  ): Promise<ImageVariantManifest> {
     try {
-      // Validate image
-      const validation = await validateImage(file, {
-        maxSize: 50 * 1024 * 1024, // 50MB
-        allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
-        maxWidth: 8192,
-        maxHeight: 8192
-      });
+      throwIfAborted(options.signal);
 
-      if (!validation.valid) {
-        throw new Error(`Image validation failed: ${validation.error}`);
-      }
+      const { variants, hash } = await this.renderMomentImage(userId, momentId, file, options);
 
-      // Compress image (target: 1.5MB, quality: 0.85)
-      const compressed = await compressImage(file, {
-        maxSizeMB: 1.5,
-        quality: 0.85,
-        maxWidth: 1920,
-        maxHeight: 1920,
-        maintainAspectRatio: true,
-        mimeType: 'image/jpeg'
-      });
+      throwIfAborted(options.signal);
 
       // Upload to Supabase Storage
-      const path = `${userId}/${momentId}/${imageType}_camera.jpg`;
-      const { data, error } = await supabase.storage
-        .from('moments')
-        .upload(path, compressed, {
-          upsert: true,
-          contentType: 'image/jpeg'
-        });
-
-      if (error) {
-        throw new Error(`Upload failed: ${error.message}`);
-      }
-
-      if (!data) {
-        throw new Error('Upload failed: No data returned');
-      }
-
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('moments')
-        .getPublicUrl(path);
+      // Placeholder is computed from the thumbnail while the variants upload
+      const [manifest, placeholder] = await Promise.all([
+        this.uploadVariants('moments', `${userId}/${momentId}/${imageType}_camera`, variants, options),
+        placeholderFor(variants)
+      ]);
+      return await withKeptMetadata({ ...manifest, placeholder, hash }, file, options.keepMetadata);
+    } catch (error) {
+      throw toAppError(error, 'Moment image upload failed', 'storage');
+    }
+  }
 
-      if (!urlData?.publicUrl) {
-        throw new Error('Failed to get public URL');
+  /**
+   * Uploads both camera images of a moment together with their composite
+   * 
+   * Flow:
+   * 1. Validate, compress, hash and duplicate-check front and back as uploadMomentImage does
+   * 2. Render: picture-in-picture image from the originals (createCompositeImage),
+   *    compressed to the moment variants
+   * 3. Upload: front_camera, back_camera and composite (+ _{variant}) under
+   *    {userId}/{momentId}/ in the 'moments' bucket (queued when offline)
+   * 4. Return: the three variant manifests with their BlurHash placeholders
+   * 
+   * @param userId - The ID of the user uploading the images
+   * @param momentId - The ID of the moment the images belong to
+   * @param front - Front camera image (max 50MB)
+   * @param back - Back camera image (max 50MB)
+   * @param options - Progress callback (across all three images), abort signal,
+   * duplicate check and composite layout
+   * @returns Promise resolving to the variant manifests of front, back and composite
+   * @throws ValidationError if validation fails, ConflictError for a rejected duplicate,
+   * StorageError if rendering, compression or upload fails
+   */
+  async uploadMomentComposite(
+    userId: string,
+    momentId: string,
+    front: File,
+    back: File,
+    options: CompositeUploadOptions = {}
+  ): Promise<MomentCompositeManifests> {
+    try {
+      throwIfAborted(options.signal);
+
+      const frontImage = await this.renderMomentImage(userId, momentId, front, options);
+      const backImage = await this.renderMomentImage(userId, momentId, back, options);
+      const composite = await generateVariants(await createCompositeImage(front, back, options.composite), MOMENT_VARIANTS);
+
+      throwIfAborted(options.signal);
+
+      // One progress across the three images
+      const total = [frontImage.variants, backImage.variants, composite]
+        .flat()
+        .reduce((sum, variant) => sum + variant.blob.size, 0);
+      let sent = 0;
+
+      const upload = async (basePath: string, variants: GeneratedVariant[]): Promise<ImageVariantManifest> => {
+        const offset = sent;
+        sent += variants.reduce((sum, variant) => sum + variant.blob.size, 0);
+
+        const [manifest, placeholder] = await Promise.all([
+          this.uploadVariants('moments', basePath, variants, {
+            signal: options.signal,
+            queueOnFailure: options.queueOnFailure,
+            onProgress: options.onProgress && ((progress) => options.onProgress?.(progressOf(offset + progress.loaded, total)))
+          }),
+          placeholderFor(variants)
+        ]);
+        return { ...manifest, placeholder };
+      };
+
+      const manifests: ImageVariantManifest[] = [];
+      try {
+        manifests.push(await upload(`${userId}/${momentId}/front_camera`, frontImage.variants));
+        manifests.push(await upload(`${userId}/${momentId}/back_camera`, backImage.variants));
+        manifests.push(await upload(`${userId}/${momentId}/composite`, composite));
+      } catch (error) {
+        // The failed image removed its own variants; remove the images uploaded before it
+        await this.discardVariants('moments', manifests.flatMap((manifest) => manifest.variants));
+        throw error;
       }
+      const [frontManifest, backManifest, compositeManifest] = manifests;
 
-      return urlData.publicUrl;
+      return {
+        front: await withKeptMetadata({ ...frontManifest, hash: frontImage.hash }, front, options.keepMetadata),
+        back: await withKeptMetadata({ ...backManifest, hash: backImage.hash }, back, options.keepMetadata),
+        composite: compositeManifest
+      };
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Moment image upload error: ${error.message}`);
-      }
-      throw new Error('Moment image upload failed with unknown error');
+      throw toAppError(error, 'Moment composite upload failed', 'storage');
     }
   }
 
@@ -93,72 +196,49 @@ export class SupabaseStorageProvider implements StorageService {
    * Uploads a profile/avatar image to storage
    * 
    * Flow:
-   * 1. Validate: max 10MB, jpeg/png/webp only
-   * 2. Compress: target 100KB, quality 0.8, max 512x512
-   * 3. Upload: to 'profiles' bucket with path {userId}/avatar.jpg
-   * 4. Return: public URL
+   * 1. Validate: max 10MB, jpeg/png/webp/HEIC only
+   * 2. Compress: square variants thumb (64px), medium (128px) and full (512px, target 100KB),
+   *    in the negotiated format (AVIF/WebP/JPEG)
+   * 3. Upload: to 'profiles' bucket with paths {userId}/avatar.{ext} (full) and
+   *    {userId}/avatar_{variant}.{ext} (queued when offline)
+   * 4. Return: variant manifest (src = full-size public URL) with the BlurHash placeholder
    * 
    * @param userId - The ID of the user uploading the profile image
    * @param file - The image file to upload (max 10MB)
-   * @returns Promise resolving to the public URL of the uploaded image
-   * @throws Error if validation fails, compression fails, or upload fails
+   * @param options - Progress callback (across all variants) and abort signal
+   * @returns Promise resolving to the variant manifest of the uploaded image
+   * @throws ValidationError if validation fails, StorageError if compression or upload fails
    */
-  async uploadProfileImage(userId: string, file: File): Promise<string> {
+  async uploadProfileImage(userId: string, file: File, options: UploadOptions = {}): Promise<ImageVariantManifest> {
     try {
+      throwIfAborted(options.signal);
+
       // Validate image
       const validation = await validateImage(file, {
         maxSize: 10 * 1024 * 1024, // 10MB
-        allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
+        allowedTypes: ['image/jpeg', 'image/png', 'image/webp', ...HEIC_TYPES],
         maxWidth: 4096,
         maxHeight: 4096
       });
 
       if (!validation.valid) {
-        throw new Error(`Image validation failed: ${validation.error}`);
-      }
-
-      // Compress image (target: 100KB, quality: 0.8)
-      const compressed = await compressImage(file, {
-        maxSizeMB: 0.1,
-        quality: 0.8,
-        maxWidth: 512,
-        maxHeight: 512,
-        maintainAspectRatio: true,
-        mimeType: 'image/jpeg'
-      });
-
-      // Upload to Supabase Storage
-      const path = `${userId}/avatar.jpg`;
-      const { data, error } = await supabase.storage
-        .from('profiles')
-        .upload(path, compressed, {
-          upsert: true,
-          contentType: 'image/jpeg'
-        });
-
-      if (error) {
-        throw new Error(`Upload failed: ${error.message}`);
-      }
-
-      if (!data) {
-        throw new Error('Upload failed: No data returned');
+        throw new ValidationError('validation/invalid_image', `Image validation failed: ${validation.error}`);
       }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('profiles')
-        .getPublicUrl(path);
+      // Render square variants (64, 128, 512)
+      const variants = await generateVariants(file, AVATAR_VARIANTS);
 
-      if (!urlData?.publicUrl) {
-        throw new Error('Failed to get public URL');
-      }
+      throwIfAborted(options.signal);
 
-      return urlData.publicUrl;
+      // Upload to Supabase Storage
+      // Placeholder is computed from the thumbnail while the variants upload
+      const [manifest, placeholder] = await Promise.all([
+        this.uploadVariants('profiles', `${userId}/avatar`, variants, options),
+        placeholderFor(variants)
+      ]);
+      return await withKeptMetadata({ ...manifest, placeholder }, file, options.keepMetadata);
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Profile image upload error: ${error.message}`);
-      }
-      throw new Error('Profile image upload failed with unknown error');
+      throw toAppError(error, 'Profile image upload failed', 'storage');
     }
   }
 
@@ -166,36 +246,32 @@ export class SupabaseStorageProvider implements StorageService {
    * Uploads a temporary file to storage
    * 
    * Flow:
-   * 1. No validation or compression (temporary buffer)
+   * 1. No validation or compression (temporary buffer); image metadata (EXIF/GPS) is stripped
+   *    (re-encoded as PNG where it cannot be stripped in place), HEIC/HEIF is converted to JPEG
    * 2. Upload: to 'temp-uploads' bucket with path temp/{userId}/{timestamp}_{filename}
+   *    (resumable chunks above the threshold; retrying the same file resumes under its first path)
    * 3. Return: public URL
    * 
    * Note: Files auto-deleted after 24 hours (configured via bucket lifecycle)
    * 
    * @param userId - The ID of the user uploading the file
    * @param file - The file to upload (max 100MB)
+   * @param options - Progress callback and abort signal
    * @returns Promise resolving to the public URL of the uploaded file
-   * @throws Error if upload fails
+   * @throws ValidationError if an image cannot be cleaned, StorageError if upload fails or is aborted
    */
-  async uploadTempFile(userId: string, file: File): Promise<string> {
+  async uploadTempFile(userId: string, file: File, options: UploadOptions = {}): Promise<string> {
     try {
-      // No compression for temp files
-      const timestamp = Date.now();
-      const path = `temp/${userId}/${timestamp}_${file.name}`;
+      // No compression for temp files, but no EXIF/GPS either (HEIC is converted to JPEG)
+      const image = await toWebSafeImage(file);
+      // Types that cannot be stripped in place are re-encoded (e.g. AVIF → PNG)
+      const body = isImageFile(image) ? await stripTempImage(image) : image;
+      // The path carries a timestamp, so resume by what stays the same across retries
+      const fingerprint = `temp-uploads::${userId}::${file.name}::${file.size}::${file.lastModified}`;
+      const resumed = findResumableUpload(fingerprint, this.options.resumeStore);
+      const path = resumed?.metadata.objectName ?? `temp/${userId}/${Date.now()}_${body.name}`;
 
-      const { data, error } = await supabase.storage
-        .from('temp-uploads')
-        .upload(path, file, {
-          upsert: false
-        });
-
-      if (error) {
-        throw new Error(`Upload failed: ${error.message}`);
-      }
-
-      if (!data) {
-        throw new Error('Upload failed: No data returned');
-      }
+      await this.transfer('temp-uploads', path, body, { upsert: false, contentType: body.type }, options, fingerprint);
 
       // Get public URL
       const { data: urlData } = supabase.storage
@@ -203,15 +279,12 @@ export class SupabaseStorageProvider implements StorageService {
         .getPublicUrl(path);
 
       if (!urlData?.publicUrl) {
-        throw new Error('Failed to get public URL');
+        throw new StorageError('storage/no_public_url', 'Failed to get public URL');
       }
 
       return urlData.publicUrl;
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Temp file upload error: ${error.message}`);
-      }
-      throw new Error('Temp file upload failed with unknown error');
+      throw toAppError(error, 'Temp file upload failed', 'storage');
     }
   }
 
@@ -221,7 +294,7 @@ export class SupabaseStorageProvider implements StorageService {
    * @param path - The storage path to the file (e.g., "user123/moment456/front_camera.jpg")
    * @param expiresIn - Optional expiration time in seconds (default: 3600 = 1 hour)
    * @returns Promise resolving to a signed URL
-   * @throws Error if file doesn't exist or URL generation fails
+   * @throws NotFoundError if file doesn't exist, StorageError if URL generation fails
    */
   async getSignedUrl(path: string, expiresIn: number = 3600): Promise<string> {
     try {
@@ -229,7 +302,7 @@ export class SupabaseStorageProvider implements StorageService {
       let bucket: string;
       if (path.startsWith('temp/')) {
         bucket = 'temp-uploads';
-      } else if (path.includes('/avatar.')) {
+      } else if (/\/avatar[._]/.test(path)) {
         bucket = 'profiles';
       } else {
         bucket = 'moments';
@@ -240,19 +313,16 @@ export class SupabaseStorageProvider implements StorageService {
         .createSignedUrl(path, expiresIn);
 
       if (error) {
-        throw new Error(`Signed URL generation failed: ${error.message}`);
+        throw fromStorageError(error, 'Signed URL generation failed');
       }
 
       if (!data?.signedUrl) {
-        throw new Error('Signed URL generation failed: No URL returned');
+        throw new StorageError('storage/no_data', 'Signed URL generation failed: No URL returned');
       }
 
       return data.signedUrl;
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Get signed URL error: ${error.message}`);
-      }
-      throw new Error('Get signed URL failed with unknown error');
+      throw toAppError(error, 'Get signed URL failed', 'storage');
     }
   }
 
@@ -260,7 +330,7 @@ export class SupabaseStorageProvider implements StorageService {
    * Deletes a file from storage
    * 
    * @param path - The storage path to the file (e.g., "user123/moment456/front_camera.jpg")
-   * @throws Error if file doesn't exist or deletion fails
+   * @throws NotFoundError if file doesn't exist, StorageError if deletion fails
    */
   async deleteFile(path: string): Promise<void> {
     try {
@@ -268,7 +338,7 @@ export class SupabaseStorageProvider implements StorageService {
       let bucket: string;
       if (path.startsWith('temp/')) {
         bucket = 'temp-uploads';
-      } else if (path.includes('/avatar.')) {
+      } else if (/\/avatar[._]/.test(path)) {
         bucket = 'profiles';
       } else {
         bucket = 'moments';
@@ -279,14 +349,221 @@ export class SupabaseStorageProvider implements StorageService {
         .remove([path]);
 
       if (error) {
-        throw new Error(`Delete failed: ${error.message}`);
+        throw fromStorageError(error, 'Delete failed');
       }
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Delete file error: ${error.message}`);
+      throw toAppError(error, 'Delete file failed', 'storage');
+    }
+  }
+
+  /**
+   * Validates a moment image, renders its variants (thumb 256, medium 720, full 1920)
+   * and runs the duplicate check on its pHash
+   */
+  private async renderMomentImage(
+    userId: string,
+    momentId: string,
+    file: File,
+    options: UploadOptions
+  ): Promise<{ variants: GeneratedVariant[]; hash: string }> {
+    const validation = await validateImage(file, {
+      maxSize: 50 * 1024 * 1024, // 50MB
+      allowedTypes: ['image/jpeg', 'image/png', 'image/webp', ...HEIC_TYPES],
+      maxWidth: 8192,
+      maxHeight: 8192
+    });
+
+    if (!validation.valid) {
+      throw new ValidationError('validation/invalid_image', `Image validation failed: ${validation.error}`);
+    }
+
+    const variants = await generateVariants(file, MOMENT_VARIANTS);
+    const hash = await hashFor(variants);
+    await checkDuplicates(userId, momentId, hash, options.duplicateCheck);
+
+    return { variants, hash };
+  }
+
+  /**
+   * Uploads rendered variants under {basePath}[_{variant}].{extension} and builds the manifest
+   *
+   * All or nothing: if a variant fails or the upload is aborted, the variants already
+   * uploaded (or queued) are removed before the error is rethrown.
+   */
+  private async uploadVariants(
+    bucket: StorageBucket,
+    basePath: string,
+    variants: GeneratedVariant[],
+    options: UploadOptions
+  ): Promise<ImageVariantManifest> {
+    const total = variants.reduce((sum, variant) => sum + variant.blob.size, 0);
+    const uploaded: ImageVariant[] = [];
+    let sent = 0;
+
+    try {
+      for (const { spec, blob, extension, width, height } of variants) {
+        const path = variantPath(basePath, spec.name, extension);
+        const offset = sent;
+
+        await this.transferOrQueue(bucket, path, blob, blob.type, {
+          signal: options.signal,
+          queueOnFailure: options.queueOnFailure,
+          onProgress: options.onProgress && ((progress) => options.onProgress?.(progressOf(offset + progress.loaded, total)))
+        });
+
+        sent += blob.size;
+        uploaded.push({ name: spec.name, width, height, size: blob.size, path, url: this.publicUrl(bucket, path) });
       }
-      throw new Error('Delete file failed with unknown error');
+    } catch (error) {
+      await this.discardVariants(bucket, uploaded);
+      throw error;
     }
+
+    return { src: uploaded[uploaded.length - 1].url, variants: uploaded };
   }
-}
 
+  /**
+   * Removes variants of an upload that failed part-way, including their queued jobs
+   *
+   * Best effort: a failed removal is logged, so the original error reaches the caller.
+   */
+  private async discardVariants(bucket: StorageBucket, variants: ImageVariant[]): Promise<void> {
+    const paths = new Set(variants.map((variant) => variant.path));
+    const queue = this.uploadQueue;
+
+    if (paths.size === 0) {
+      return;
+    }
+
+    try {
+      for (const job of queue?.getJobs() ?? []) {
+        if (job.bucket === bucket && paths.has(job.path)) {
+          await queue?.remove(job.id);
+        }
+      }
+
+      const { error } = await supabase.storage.from(bucket).remove([...paths]);
+      if (error) {
+        throw fromStorageError(error, 'Delete failed');
+      }
+    } catch (error) {
+      console.error('[Storage] Failed to remove partially uploaded variants:', error);
+    }
+  }
+
+  private publicUrl(bucket: StorageBucket, path: string): string {
+    const { data } = supabase.storage.from(bucket).getPublicUrl(path);
+
+    if (!data?.publicUrl) {
+      throw new StorageError('storage/no_public_url', 'Failed to get public URL');
+    }
+
+    return data.publicUrl;
+  }
+
+  /**
+   * Uploads an image, or hands it to the upload queue when offline or on a retryable failure
+   * (unless options.queueOnFailure is false)
+   */
+  private async transferOrQueue(
+    bucket: StorageBucket,
+    path: string,
+    body: Blob,
+    contentType: string,
+    options: UploadOptions
+  ): Promise<void> {
+    const queue = options.queueOnFailure === false ? null : this.uploadQueue;
+    const request = { bucket, path, blob: body, contentType, upsert: true };
+
+    if (queue && typeof navigator !== 'undefined' && navigator.onLine === false) {
+      await queue.enqueue(request);
+      return;
+    }
+
+    try {
+      await this.transfer(bucket, path, body, { upsert: true, contentType }, options);
+    } catch (error) {
+      if (!queue || !(error instanceof AppError) || !error.retryable) {
+        throw error;
+      }
+      await queue.enqueue(request);
+    }
+  }
+
+  /**
+   * Uploads a blob to a bucket
+   *
+   * - Above the resumable threshold: tus chunks, resumed after failures
+   * - With a progress callback or abort signal: single XHR request (byte progress)
+   * - Otherwise: supabase-js upload
+   */
+  private async transfer(
+    bucket: StorageBucket,
+    path: string,
+    body: Blob,
+    { upsert, contentType }: { upsert: boolean; contentType?: string },
+    options: UploadOptions,
+    fingerprint?: string
+  ): Promise<void> {
+    const { resumableThreshold = TUS_CHUNK_SIZE } = this.options;
+
+    if (body.size > resumableThreshold) {
+      await tusUpload(body, {
+        ...options,
+        endpoint: this.options.resumableEndpoint ?? `${supabaseUrl}/storage/v1/upload/resumable`,
+        metadata: {
+          bucketName: bucket,
+          objectName: path,
+          contentType: contentType || 'application/octet-stream',
+          cacheControl: '3600'
+        },
+        headers: { ...(await this.authHeaders()), 'x-upsert': String(upsert) },
+        chunkSize: this.options.chunkSize,
+        fetch: this.options.fetch,
+        resumeStore: this.options.resumeStore,
+        fingerprint
+      });
+      return;
+    }
+
+    if (options.onProgress || options.signal) {
+      await xhrUpload({
+        ...options,
+        url: `${supabaseUrl}/storage/v1/object/${bucket}/${path}`,
+        body,
+        headers: {
+          ...(await this.authHeaders()),
+          'x-upsert': String(upsert),
+          'cache-control': 'max-age=3600',
+          'content-type': contentType || 'application/octet-stream'
+        }
+      });
+      return;
+    }
+
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .upload(path, body, { upsert, contentType: contentType || undefined });
+
+    if (error) {
+      throw fromStorageError(error, 'Upload failed');
+    }
+
+    if (!data) {
+      throw new StorageError('storage/no_data', 'Upload failed: No data returned');
+    }
+  }
+
+  /**
+   * Headers for direct Storage API requests (user session, or anon key when signed out)
+   */
+  private async authHeaders(): Promise<Record<string, string>> {
+    const { data } = await supabase.auth.getSession();
+    const token = data.session?.access_token ?? supabaseAnonKey;
+
+    return {
+      authorization: `Bearer ${token}`,
+      apikey: supabaseAnonKey
+    };
+  }
+}
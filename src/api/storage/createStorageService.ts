@@ -0,0 +1,32 @@
+import { isSupabaseConfigured } from '../supabase';
+import { SupabaseStorageProvider } from './SupabaseStorageProvider';
+import { FileSystemBlobStore, IndexedDBBlobStore, LocalStorageProvider } from './LocalStorageProvider';
+import type { StorageService } from './StorageService';
+
+/**
+ * Available storage backends
+ */
+export type StorageBackend = 'supabase' | 'local';
+
+/**
+ * Creates the StorageService for the configured backend
+ *
+ * Backend is taken from the argument, then VITE_STORAGE_BACKEND. Falls back to
+ * the local provider when Supabase is not configured. The local provider keeps its
+ * files in IndexedDB, or in a .yomo-storage directory where IndexedDB is not
+ * available (Node, tests).
+ *
+ * @param backend - Optional explicit backend
+ * @returns StorageService instance
+ */
+export function createStorageService(backend?: StorageBackend): StorageService {
+  const selected = backend
+    ?? (import.meta.env.VITE_STORAGE_BACKEND as StorageBackend | undefined)
+    ?? (isSupabaseConfigured ? 'supabase' : 'local');
+
+  if (selected === 'local') {
+    return new LocalStorageProvider(typeof indexedDB !== 'undefined' ? new IndexedDBBlobStore() : new FileSystemBlobStore());
+  }
+
+  return new SupabaseStorageProvider();
+}
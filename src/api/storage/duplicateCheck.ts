@@ -0,0 +1,54 @@
+import { ConflictError } from '../errors';
+import type { SimilarMoment, SimilarMomentOptions } from '../entities/repositories';
+
+/**
+ * Near-duplicate check for moment uploads (UploadOptions.duplicateCheck)
+ */
+export interface DuplicateCheck {
+  /** Looks up the user's similar moments, e.g. Moment.findSimilar */
+  findSimilar: (userId: string, hash: string, options: SimilarMomentOptions) => Promise<SimilarMoment[]>;
+  /**
+   * 'warn': upload anyway and report the matches through onDuplicate;
+   * 'reject': fail with ConflictError 'storage/duplicate_image' before uploading (default: 'warn')
+   */
+  mode?: 'warn' | 'reject';
+  /** Maximum Hamming distance counted as duplicate (default: 10 of 64 bits) */
+  threshold?: number;
+  /** Called with the matches, closest first (both modes) */
+  onDuplicate?: (matches: SimilarMoment[]) => void;
+}
+
+/**
+ * Runs a duplicate check for a moment image
+ *
+ * @param userId - Author of the moment
+ * @param momentId - Moment being uploaded (excluded from the search)
+ * @param hash - pHash of the image
+ * @param check - Check settings (nothing is done without one)
+ * @returns The matches, closest first
+ * @throws ConflictError 'storage/duplicate_image' in 'reject' mode when there are matches
+ */
+export async function checkDuplicates(
+  userId: string,
+  momentId: string,
+  hash: string,
+  check?: DuplicateCheck
+): Promise<SimilarMoment[]> {
+  if (!check) {
+    return [];
+  }
+
+  const matches = await check.findSimilar(userId, hash, { threshold: check.threshold, excludeId: momentId });
+  if (matches.length === 0) {
+    return matches;
+  }
+
+  check.onDuplicate?.(matches);
+  if (check.mode === 'reject') {
+    throw new ConflictError(
+      'storage/duplicate_image',
+      `Moment image upload failed: Image looks like moment ${matches[0].moment.id} (distance ${matches[0].distance})`
+    );
+  }
+  return matches;
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { compressImageToTarget, resizeImage } from '@/utils/imageCompression';
+import { AVATAR_VARIANTS, MOMENT_VARIANTS, generateVariants, manifestFromUrl, toSrcSet, variantPath } from './imageVariants';
+import type { ImageVariantManifest } from './imageVariants';
+
+vi.mock('@/utils/imageCompression', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/utils/imageCompression')>(),
+  toWebSafeImage: vi.fn(async (file: File) => file),
+  resizeImage: vi.fn(async (file: File) => file),
+  // 'auto' negotiates WebP; the output is scaled to fit maxWidth like a 4:3 photo
+  compressImageToTarget: vi.fn(async (_file: File, options: { maxWidth: number; mimeType: string }) => {
+    const type = options.mimeType === 'auto' ? 'image/webp' : options.mimeType;
+    return {
+      file: new File([new Uint8Array(options.maxWidth)], 'image', { type }),
+      width: options.maxWidth,
+      height: options.maxWidth * 0.75
+    };
+  })
+}));
+
+const SUPABASE = 'https://abc.supabase.co/storage/v1';
+
+describe('variantPath', () => {
+  it("keeps the base path for 'full' and suffixes the other variants", () => {
+    expect(variantPath('u1/m1/front_camera', 'full')).toBe('u1/m1/front_camera.jpg');
+    expect(variantPath('u1/m1/front_camera', 'thumb', 'webp')).toBe('u1/m1/front_camera_thumb.webp');
+  });
+});
+
+describe('manifestFromUrl', () => {
+  it('rebuilds the variants of a public URL, smallest first', () => {
+    const url = `${SUPABASE}/object/public/moments/u1/m1/front_camera.webp`;
+
+    const manifest = manifestFromUrl(url, MOMENT_VARIANTS);
+
+    expect(manifest.src).toBe(url);
+    expect(manifest.variants).toEqual([
+      { name: 'thumb', width: 256, height: 256, size: 0, path: 'u1/m1/front_camera_thumb.webp', url: `${SUPABASE}/object/public/moments/u1/m1/front_camera_thumb.webp` },
+      { name: 'medium', width: 720, height: 720, size: 0, path: 'u1/m1/front_camera_medium.webp', url: `${SUPABASE}/object/public/moments/u1/m1/front_camera_medium.webp` },
+      { name: 'full', width: 1920, height: 1920, size: 0, path: 'u1/m1/front_camera.webp', url }
+    ]);
+  });
+
+  it('keeps the query of a signed URL on every variant URL', () => {
+    const url = `${SUPABASE}/object/sign/profiles/u1/avatar.jpg?token=abc`;
+
+    const { variants } = manifestFromUrl(url, AVATAR_VARIANTS);
+
+    expect(variants.map((variant) => variant.path)).toEqual(['u1/avatar_thumb.jpg', 'u1/avatar_medium.jpg', 'u1/avatar.jpg']);
+    expect(variants.map((variant) => variant.url)).toEqual([
+      `${SUPABASE}/object/sign/profiles/u1/avatar_thumb.jpg?token=abc`,
+      `${SUPABASE}/object/sign/profiles/u1/avatar_medium.jpg?token=abc`,
+      url
+    ]);
+  });
+
+  it('reads the storage path of local:// URLs and plain paths', () => {
+    expect(manifestFromUrl('local://moments/u1/m1/composite.avif', MOMENT_VARIANTS).variants[0])
+      .toMatchObject({ path: 'u1/m1/composite_thumb.avif', url: 'local://moments/u1/m1/composite_thumb.avif' });
+    expect(manifestFromUrl('u1/m1/back_camera.jpg', MOMENT_VARIANTS).variants[1])
+      .toMatchObject({ path: 'u1/m1/back_camera_medium.jpg', url: 'u1/m1/back_camera_medium.jpg' });
+  });
+});
+
+describe('toSrcSet', () => {
+  it('lists the variants by width with descriptors', () => {
+    const manifest: ImageVariantManifest = {
+      src: 'full.webp',
+      variants: [
+        { name: 'full', width: 1920, height: 1440, size: 3, path: 'full.webp', url: 'full.webp' },
+        { name: 'thumb', width: 256, height: 192, size: 1, path: 'thumb.webp', url: 'thumb.webp' },
+        { name: 'medium', width: 720, height: 540, size: 2, path: 'medium.webp', url: 'medium.webp' }
+      ]
+    };
+
+    expect(toSrcSet(manifest, '50vw')).toEqual({
+      src: 'full.webp',
+      srcSet: 'thumb.webp 256w, medium.webp 720w, full.webp 1920w',
+      sizes: '50vw'
+    });
+    expect(toSrcSet(manifest).sizes).toBe('100vw');
+  });
+});
+
+describe('generateVariants', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the largest variant first and returns them smallest first', async () => {
+    const variants = await generateVariants(new File(['image'], 'photo.jpg', { type: 'image/jpeg' }), MOMENT_VARIANTS);
+
+    expect(vi.mocked(compressImageToTarget).mock.calls.map(([, options]) => options?.maxWidth)).toEqual([1920, 720, 256]);
+    expect(variants.map((variant) => [variant.spec.name, variant.width, variant.height])).toEqual([
+      ['thumb', 256, 192],
+      ['medium', 720, 540],
+      ['full', 1920, 1440]
+    ]);
+  });
+
+  it("reuses the format negotiated for 'auto', so all variants share one extension", async () => {
+    const variants = await generateVariants(new File(['image'], 'photo.jpg', { type: 'image/jpeg' }), MOMENT_VARIANTS);
+
+    expect(vi.mocked(compressImageToTarget).mock.calls.map(([, options]) => options?.mimeType)).toEqual(['auto', 'image/webp', 'image/webp']);
+    expect(variants.map((variant) => variant.extension)).toEqual(['webp', 'webp', 'webp']);
+  });
+
+  it('crops square variants before compressing them', async () => {
+    await generateVariants(new File(['image'], 'avatar.png', { type: 'image/png' }), AVATAR_VARIANTS, 'image/jpeg');
+
+    expect(vi.mocked(resizeImage).mock.calls.map(([, width, height, options]) => [width, height, options?.fit])).toEqual([
+      [512, 512, 'cover'],
+      [128, 128, 'cover'],
+      [64, 64, 'cover']
+    ]);
+  });
+});
@@ -0,0 +1,258 @@
+import { compressImageToTarget, computeImageHash, extensionForMimeType, generatePlaceholder, pickMetadata, readExif, resizeImage, stripImageMetadata, toWebSafeImage } from '@/utils/imageCompression';
+import { ValidationError } from '../errors';
+import type { ImageMetadata, ImagePlaceholder, KeepableMetadataField } from '@/utils/imageCompression';
+
+/**
+ * How one variant is produced
+ */
+export interface VariantSpec {
+  /** Variant name, part of the storage path ('full' keeps the base path) */
+  name: string;
+  /** Longest edge in pixels (the edge length for square crops) */
+  size: number;
+  /** Target max file size in MB */
+  maxSizeMB: number;
+  /** Encoder quality 0-1 */
+  quality: number;
+  /** Crop to a size x size square (avatars) instead of keeping the aspect ratio */
+  square?: boolean;
+}
+
+/**
+ * Uploaded variant
+ */
+export interface ImageVariant {
+  name: string;
+  width: number;
+  height: number;
+  /** Bytes */
+  size: number;
+  path: string;
+  url: string;
+}
+
+/**
+ * Variants of one uploaded image, smallest first
+ */
+export interface ImageVariantManifest {
+  /** URL of the largest variant (fallback src, stored as front/back_camera_url or avatar_url) */
+  src: string;
+  variants: ImageVariant[];
+  /** EXIF fields of the original requested via UploadOptions.keepMetadata (the files carry none) */
+  metadata?: ImageMetadata;
+  /** BlurHash and dominant colour to show while the image loads */
+  placeholder?: ImagePlaceholder;
+  /** Perceptual hash (pHash, moment images only; see computeImageHash) */
+  hash?: string;
+}
+
+/**
+ * Variant generated in memory, before upload
+ */
+export interface GeneratedVariant {
+  spec: VariantSpec;
+  /** Encoded image; blob.type is the output MIME type */
+  blob: File;
+  /** File extension for blob.type ('jpg', 'webp', 'avif') */
+  extension: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Moment image variants: feed thumbnails, detail view, full screen
+ */
+export const MOMENT_VARIANTS: VariantSpec[] = [
+  { name: 'thumb', size: 256, maxSizeMB: 0.05, quality: 0.8 },
+  { name: 'medium', size: 720, maxSizeMB: 0.3, quality: 0.82 },
+  { name: 'full', size: 1920, maxSizeMB: 1.5, quality: 0.85 }
+];
+
+/**
+ * Avatar variants: list rows, profile header, profile page
+ */
+export const AVATAR_VARIANTS: VariantSpec[] = [
+  { name: 'thumb', size: 64, maxSizeMB: 0.01, quality: 0.8, square: true },
+  { name: 'medium', size: 128, maxSizeMB: 0.03, quality: 0.8, square: true },
+  { name: 'full', size: 512, maxSizeMB: 0.1, quality: 0.8, square: true }
+];
+
+/**
+ * Storage path of a variant
+ *
+ * 'full' keeps the base path, so existing URLs stay valid:
+ * - variantPath('u1/m1/front_camera', 'full') → 'u1/m1/front_camera.jpg'
+ * - variantPath('u1/m1/front_camera', 'thumb') → 'u1/m1/front_camera_thumb.jpg'
+ *
+ * @param basePath - Path without extension
+ * @param name - Variant name
+ * @param extension - File extension (default: 'jpg')
+ */
+export function variantPath(basePath: string, name: string, extension: string = 'jpg'): string {
+  return name === 'full' ? `${basePath}.${extension}` : `${basePath}_${name}.${extension}`;
+}
+
+/**
+ * Renders every variant of an image (one compression pass per spec)
+ *
+ * With mimeType 'auto' the format is negotiated on the largest variant (see
+ * compressImage) and reused for the smaller ones, so all variants of an image
+ * share one extension. HEIC/HEIF sources are converted to JPEG first.
+ *
+ * @param file - Source image
+ * @param specs - Variants to produce
+ * @param mimeType - Output type or 'auto' (default: 'auto')
+ * @returns Promise resolving to the variants with their actual dimensions, smallest first
+ * @throws Error if the image cannot be decoded or encoded
+ */
+export async function generateVariants(
+  file: File | Blob,
+  specs: VariantSpec[],
+  mimeType: string = 'auto'
+): Promise<GeneratedVariant[]> {
+  const variants: GeneratedVariant[] = [];
+  let outputType = mimeType;
+  // HEIC is decoded once (WASM) instead of once per variant
+  const image = await toWebSafeImage(file);
+
+  for (const spec of [...specs].sort((a, b) => b.size - a.size)) {
+    const source = spec.square
+      ? await resizeImage(image, spec.size, spec.size, { fit: 'cover', quality: 0.92 })
+      : image;
+
+    // Steps below spec.size if the quality floor alone can't meet spec.maxSizeMB
+    const { file: blob, width, height } = await compressImageToTarget(source, {
+      maxSizeMB: spec.maxSizeMB,
+      quality: spec.quality,
+      maxWidth: spec.size,
+      maxHeight: spec.size,
+      maintainAspectRatio: true,
+      mimeType: outputType
+    });
+
+    outputType = blob.type;
+    variants.unshift({ spec, blob, extension: extensionForMimeType(blob.type), width, height });
+  }
+
+  return variants;
+}
+
+/**
+ * Computes the loading placeholder of an image from its smallest variant
+ *
+ * @param variants - Output of generateVariants (smallest first)
+ */
+export function placeholderFor(variants: GeneratedVariant[]): Promise<ImagePlaceholder> {
+  return generatePlaceholder(variants[0].blob);
+}
+
+/**
+ * Computes the perceptual hash of an image from its smallest variant
+ *
+ * pHash works on a 32px downscale, so the thumbnail hashes like the original.
+ *
+ * @param variants - Output of generateVariants (smallest first)
+ */
+export function hashFor(variants: GeneratedVariant[]): Promise<string> {
+  return computeImageHash(variants[0].blob);
+}
+
+/**
+ * Adds the requested EXIF fields of the original image to a manifest
+ *
+ * @param manifest - Manifest of the uploaded variants
+ * @param original - Original file (the variants no longer carry EXIF)
+ * @param fields - Fields to keep (nothing is read when empty)
+ */
+export async function withKeptMetadata(
+  manifest: ImageVariantManifest,
+  original: Blob,
+  fields: KeepableMetadataField[] = []
+): Promise<ImageVariantManifest> {
+  if (fields.length === 0) {
+    return manifest;
+  }
+
+  return { ...manifest, metadata: pickMetadata(await readExif(original), fields) };
+}
+
+/**
+ * Removes the metadata of an image that is stored without variants (temp uploads)
+ *
+ * @param image - Web-safe image (see toWebSafeImage)
+ * @returns The cleaned image; name and type change when it had to be re-encoded
+ * @throws ValidationError if the image cannot be cleaned (it is never stored as is)
+ */
+export async function stripTempImage(image: File): Promise<File> {
+  try {
+    return await stripImageMetadata(image);
+  } catch (error) {
+    throw new ValidationError(
+      'validation/invalid_image',
+      `Image validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Rebuilds a manifest from a stored full-size URL (e.g. moment.front_camera_url)
+ *
+ * Uses the predictable variant paths; width and height are the spec sizes (upper
+ * bounds), size is unknown (0). Meant for public URLs: a signed URL's token
+ * only covers the full-size path.
+ *
+ * @param url - URL of the 'full' variant
+ * @param specs - Variant set the image was uploaded with
+ */
+export function manifestFromUrl(url: string, specs: VariantSpec[]): ImageVariantManifest {
+  const [base, query = ''] = url.split('?');
+  const match = /^(.*)\.(\w+)$/.exec(base);
+  const basePath = match ? match[1] : base;
+  const extension = match ? match[2] : 'jpg';
+  const suffix = query ? `?${query}` : '';
+  // Storage path inside the bucket (public and signed Supabase URLs, local:// URLs)
+  const storageBase = /(?:\/object\/(?:public|sign)\/[^/]+|^local:\/\/[^/]+)\/(.*)$/.exec(basePath)?.[1] ?? basePath;
+
+  const variants = [...specs]
+    .sort((a, b) => a.size - b.size)
+    .map((spec) => ({
+      name: spec.name,
+      width: spec.size,
+      height: spec.size,
+      size: 0,
+      path: variantPath(storageBase, spec.name, extension),
+      url: `${variantPath(basePath, spec.name, extension)}${suffix}`
+    }));
+
+  return { src: url, variants };
+}
+
+/**
+ * Responsive image attributes for <img>
+ */
+export interface ResponsiveImageProps {
+  src: string;
+  srcSet: string;
+  sizes: string;
+}
+
+/**
+ * Builds srcset/sizes from a manifest (width descriptors, smallest first)
+ *
+ * @example
+ * ```tsx
+ * <img {...toSrcSet(manifest, '(max-width: 600px) 50vw, 360px')} alt="" />
+ * ```
+ *
+ * @param manifest - Variant manifest
+ * @param sizes - sizes attribute (default: '100vw')
+ */
+export function toSrcSet(manifest: ImageVariantManifest, sizes: string = '100vw'): ResponsiveImageProps {
+  const srcSet = [...manifest.variants]
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ');
+
+  return { src: manifest.src, srcSet, sizes };
+}
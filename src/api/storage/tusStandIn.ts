@@ -0,0 +1,149 @@
+/**
+ * Upload held by the stand-in server
+ */
+export interface StandInUpload {
+  length: number;
+  offset: number;
+  metadata: Record<string, string>;
+  chunks: Uint8Array[];
+}
+
+/**
+ * In-memory tus 1.0 server, exposed as a fetch implementation
+ */
+export interface TusStandIn {
+  /** Creation endpoint to pass to tusUpload / SupabaseStorageProvider */
+  endpoint: string;
+  /** fetch implementation that serves the endpoint */
+  fetch: typeof fetch;
+  /** Uploads by URL */
+  uploads: Map<string, StandInUpload>;
+  /** Bytes received so far for an upload URL, or null if unknown */
+  getUpload: (url: string) => Blob | null;
+  /** Makes the next PATCH fail like a dropped connection after storing acceptedBytes of its body */
+  interruptNextPatch: (acceptedBytes?: number) => void;
+}
+
+/**
+ * Creates a local tus server stand-in for development and tests
+ *
+ * Implements creation (POST), offset lookup (HEAD), chunk upload (PATCH with
+ * offset check) and termination (DELETE) — enough to exercise chunking, retries
+ * and resuming without a Supabase project.
+ *
+ * @example
+ * ```ts
+ * const server = createTusStandIn();
+ * server.interruptNextPatch(1024);
+ * const url = await tusUpload(blob, { endpoint: server.endpoint, fetch: server.fetch, metadata: {} });
+ * server.getUpload(url); // → complete blob, despite the dropped chunk
+ * ```
+ *
+ * @param options - Base URL of the endpoint (default: 'http://localhost:54321/storage/v1/upload/resumable')
+ */
+export function createTusStandIn(
+  options: { endpoint?: string } = {}
+): TusStandIn {
+  const endpoint = options.endpoint ?? 'http://localhost:54321/storage/v1/upload/resumable';
+  const uploads = new Map<string, StandInUpload>();
+  let interruption: number | null = null;
+  let nextId = 1;
+
+  const respond = (status: number, headers: Record<string, string> = {}) =>
+    new Response(null, { status, headers: { 'Tus-Resumable': '1.0.0', ...headers } });
+
+  const standInFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const url = input instanceof Request ? input.url : String(input);
+    const headers = new Headers(init.headers);
+    const method = (init.method ?? 'GET').toUpperCase();
+
+    if (init.signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    if (method === 'POST' && url === endpoint) {
+      const length = Number(headers.get('Upload-Length'));
+      if (!Number.isFinite(length) || length < 0) {
+        return respond(400);
+      }
+
+      const location = `${endpoint}/${nextId++}`;
+      uploads.set(location, {
+        length,
+        offset: 0,
+        metadata: decodeMetadata(headers.get('Upload-Metadata') ?? ''),
+        chunks: []
+      });
+      return respond(201, { Location: location });
+    }
+
+    const upload = uploads.get(url);
+    if (!upload) {
+      return respond(404);
+    }
+
+    if (method === 'HEAD') {
+      return respond(200, {
+        'Upload-Offset': String(upload.offset),
+        'Upload-Length': String(upload.length),
+        'Cache-Control': 'no-store'
+      });
+    }
+
+    if (method === 'PATCH') {
+      if (Number(headers.get('Upload-Offset')) !== upload.offset) {
+        return respond(409);
+      }
+
+      const bytes = new Uint8Array(await new Response(init.body).arrayBuffer());
+
+      if (interruption !== null) {
+        const accepted = Math.min(interruption, bytes.length);
+        interruption = null;
+        upload.chunks.push(bytes.slice(0, accepted));
+        upload.offset += accepted;
+        throw new TypeError('Failed to fetch');
+      }
+
+      if (upload.offset + bytes.length > upload.length) {
+        return respond(413);
+      }
+
+      upload.chunks.push(bytes);
+      upload.offset += bytes.length;
+      return respond(204, { 'Upload-Offset': String(upload.offset) });
+    }
+
+    if (method === 'DELETE') {
+      uploads.delete(url);
+      return respond(204);
+    }
+
+    return respond(405);
+  };
+
+  return {
+    endpoint,
+    fetch: standInFetch as typeof fetch,
+    uploads,
+    getUpload: (url) => {
+      const upload = uploads.get(url);
+      return upload ? new Blob(upload.chunks as BlobPart[]) : null;
+    },
+    interruptNextPatch: (acceptedBytes = 0) => {
+      interruption = acceptedBytes;
+    }
+  };
+}
+
+function decodeMetadata(header: string): Record<string, string> {
+  const metadata: Record<string, string> = {};
+
+  for (const pair of header.split(',').filter(Boolean)) {
+    const [key, value = ''] = pair.trim().split(' ');
+    const bytes = Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+    metadata[key] = new TextDecoder().decode(bytes);
+  }
+
+  return metadata;
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { RESUME_TTL, findResumableUpload, tusUpload } from './tusUpload';
+import type { ResumeStore } from './tusUpload';
+import { createTusStandIn } from './tusStandIn';
+import { StorageError } from '../errors';
+
+/**
+ * localStorage-like store backed by a Map
+ */
+const memoryStore = (): ResumeStore & { entries: Map<string, string> } => {
+  const entries = new Map<string, string>();
+  return {
+    entries,
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => { entries.set(key, value); },
+    removeItem: (key) => { entries.delete(key); },
+    key: (index) => [...entries.keys()][index] ?? null,
+    get length() {
+      return entries.size;
+    }
+  };
+};
+
+const bytes = (size: number) => new Blob([Uint8Array.from({ length: size }, (_, i) => i % 251)]);
+
+const sameBytes = async (a: Blob | null, b: Blob) =>
+  expect(new Uint8Array(await a!.arrayBuffer())).toEqual(new Uint8Array(await b.arrayBuffer()));
+
+/**
+ * Stand-in server whose PATCH responses carry the given Upload-Offset
+ */
+const withPatchOffset = (offset: string | null) => {
+  const server = createTusStandIn();
+  const fetch = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const response = await server.fetch(input, init);
+    if (init.method !== 'PATCH') {
+      return response;
+    }
+    return new Response(null, { status: 204, headers: offset === null ? {} : { 'Upload-Offset': offset } });
+  }) as typeof globalThis.fetch;
+  return { ...server, fetch };
+};
+
+describe('tusUpload', () => {
+  it('uploads in chunks and reports progress up to the full size', async () => {
+    const server = createTusStandIn();
+    const body = bytes(25);
+    const progress: number[] = [];
+
+    const url = await tusUpload(body, {
+      endpoint: server.endpoint,
+      fetch: server.fetch,
+      metadata: { objectName: 'u1/m1/front.jpg' },
+      chunkSize: 10,
+      resumeStore: null,
+      onProgress: ({ loaded }) => progress.push(loaded)
+    });
+
+    await sameBytes(server.getUpload(url), body);
+    expect(server.uploads.get(url)?.metadata).toEqual({ objectName: 'u1/m1/front.jpg' });
+    expect(progress).toEqual([0, 10, 20, 25]);
+  });
+
+  it('repeats only the unconfirmed bytes after a dropped connection', async () => {
+    const server = createTusStandIn();
+    const body = bytes(30);
+    server.interruptNextPatch(4);
+
+    const url = await tusUpload(body, {
+      endpoint: server.endpoint,
+      fetch: server.fetch,
+      metadata: {},
+      chunkSize: 10,
+      retryDelays: [0],
+      resumeStore: null
+    });
+
+    await sameBytes(server.getUpload(url), body);
+  });
+
+  it('continues a failed upload on the next call with the same fingerprint', async () => {
+    const server = createTusStandIn();
+    const store = memoryStore();
+    const body = bytes(30);
+    const options = {
+      endpoint: server.endpoint,
+      fetch: server.fetch,
+      metadata: { objectName: 'temp/u1/1_photo.jpg' },
+      chunkSize: 10,
+      retryDelays: [],
+      resumeStore: store,
+      fingerprint: 'u1::photo.jpg::30::1700000000000'
+    };
+
+    server.interruptNextPatch(10);
+    await expect(tusUpload(body, options)).rejects.toMatchObject({ code: 'network/unavailable' });
+    expect(findResumableUpload(options.fingerprint, store)?.metadata.objectName).toBe('temp/u1/1_photo.jpg');
+
+    const url = await tusUpload(body, options);
+
+    expect(server.uploads.size).toBe(1);
+    await sameBytes(server.getUpload(url), body);
+    expect(store.entries.size).toBe(0);
+  });
+
+  it('discards remembered uploads after the resume TTL', async () => {
+    const server = createTusStandIn();
+    const store = memoryStore();
+    const stale = { url: `${server.endpoint}/old`, metadata: {}, size: 5, createdAt: Date.now() - RESUME_TTL - 1 };
+    store.setItem('tus::other-upload', JSON.stringify(stale));
+    store.setItem('tus::this-upload', JSON.stringify(stale));
+
+    expect(findResumableUpload('this-upload', store)).toBeNull();
+
+    await tusUpload(bytes(5), { endpoint: server.endpoint, fetch: server.fetch, metadata: {}, resumeStore: store });
+
+    expect(store.entries.size).toBe(0);
+  });
+
+  it.each([
+    ['missing', null],
+    ['not a number', 'abc'],
+    ['not advancing', '0'],
+    ['past the end', '99'],
+    ['fractional', '4.5']
+  ])('rejects an Upload-Offset that is %s', async (_case, offset) => {
+    const server = withPatchOffset(offset);
+
+    const upload = tusUpload(bytes(20), {
+      endpoint: server.endpoint,
+      fetch: server.fetch,
+      metadata: {},
+      chunkSize: 10,
+      resumeStore: null
+    });
+
+    await expect(upload).rejects.toBeInstanceOf(StorageError);
+    await expect(upload).rejects.toMatchObject({ code: 'storage/invalid_offset' });
+  });
+
+  it('fails with storage/aborted when cancelled', async () => {
+    const server = createTusStandIn();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      tusUpload(bytes(5), { endpoint: server.endpoint, fetch: server.fetch, metadata: {}, signal: controller.signal })
+    ).rejects.toMatchObject({ code: 'storage/aborted' });
+  });
+});
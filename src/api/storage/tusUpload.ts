@@ -0,0 +1,338 @@
+import { NetworkError, StorageError, fromStorageError } from '../errors';
+import { abortedError, progressOf, throwIfAborted } from './uploadTransport';
+import type { UploadOptions } from './StorageService';
+
+const TUS_VERSION = '1.0.0';
+
+/**
+ * Chunk size required by Supabase's resumable upload endpoint
+ */
+export const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+
+/**
+ * Supabase keeps unfinished resumable uploads for 24 hours
+ */
+export const RESUME_TTL = 24 * 60 * 60 * 1000;
+
+const RESUME_KEY_PREFIX = 'tus::';
+
+/**
+ * Minimal key-value store for upload URLs (localStorage-compatible)
+ *
+ * With `key` and `length` (as on localStorage), expired entries of other uploads are swept too.
+ */
+export type ResumeStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> & Partial<Pick<Storage, 'key' | 'length'>>;
+
+/**
+ * Unfinished upload remembered in the resume store
+ */
+export interface ResumableUpload {
+  url: string;
+  /** Upload-Metadata the upload was created with (e.g. objectName to reuse the path) */
+  metadata: Record<string, string>;
+  size: number;
+  /** Creation time in epoch ms */
+  createdAt: number;
+}
+
+/**
+ * Options for a resumable (tus 1.0) upload
+ */
+export interface TusUploadOptions extends UploadOptions {
+  /** Creation endpoint, e.g. `${SUPABASE_URL}/storage/v1/upload/resumable` */
+  endpoint: string;
+  /** Upload-Metadata entries (values are base64-encoded on the wire) */
+  metadata: Record<string, string>;
+  /** Extra request headers (authorization, x-upsert, ...) */
+  headers?: Record<string, string>;
+  /** Bytes per PATCH request (default: 6MB) */
+  chunkSize?: number;
+  /** Wait before each retry of a failed chunk; its length is the retry count (default: [0, 1000, 3000, 5000]) */
+  retryDelays?: number[];
+  /** fetch implementation (default: global fetch; a stand-in server for tests) */
+  fetch?: typeof fetch;
+  /** Where upload URLs are remembered to resume after a failure or reload (default: localStorage; null disables) */
+  resumeStore?: ResumeStore | null;
+  /**
+   * Identifies the upload in the resume store (default: endpoint + metadata + size); must
+   * only use data that stays the same across retries, e.g. user id + file name + size + lastModified
+   */
+  fingerprint?: string;
+  /** Remembered uploads older than this many ms are discarded (default: 24 hours) */
+  resumeTTL?: number;
+}
+
+/**
+ * Uploads a blob with the tus resumable upload protocol
+ *
+ * The upload is created once (POST) and sent in chunks (PATCH with Upload-Offset).
+ * A failed chunk is retried after asking the server for the current offset (HEAD),
+ * so a dropped connection only repeats the unconfirmed bytes. The upload URL is kept
+ * in the resume store until completion (at most resumeTTL), so an aborted or failed
+ * upload with the same fingerprint continues where it stopped on the next call.
+ * An Upload-Offset that is not an integer, passes the end or doesn't advance after a chunk fails
+ * with StorageError 'storage/invalid_offset'.
+ *
+ * @param body - Data to upload
+ * @param options - Endpoint, metadata, chunking, retry and resume options
+ * @returns Promise resolving to the upload URL
+ * @throws StorageError (code 'storage/aborted' when cancelled), NetworkError after the retries are exhausted
+ */
+export async function tusUpload(body: Blob, options: TusUploadOptions): Promise<string> {
+  const {
+    endpoint,
+    metadata,
+    headers = {},
+    chunkSize = TUS_CHUNK_SIZE,
+    retryDelays = [0, 1000, 3000, 5000],
+    onProgress,
+    signal
+  } = options;
+  const request = options.fetch ?? globalThis.fetch.bind(globalThis);
+  const resumeStore = resolveResumeStore(options.resumeStore);
+  const resumeKey = RESUME_KEY_PREFIX + (options.fingerprint ?? `${endpoint}::${JSON.stringify(metadata)}::${body.size}`);
+  const baseHeaders = { ...headers, 'Tus-Resumable': TUS_VERSION };
+
+  const send = async (url: string, init: RequestInit): Promise<Response> => {
+    try {
+      return await request(url, { ...init, headers: { ...baseHeaders, ...init.headers }, signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw abortedError();
+      }
+      throw new NetworkError('network/unavailable', 'Resumable upload failed: Network request failed', { cause: error });
+    }
+  };
+
+  const fetchOffset = async (url: string): Promise<number | null> => {
+    const response = await send(url, { method: 'HEAD' });
+    if (response.status === 404 || response.status === 410) {
+      return null;
+    }
+    if (!response.ok) {
+      throw await responseError(response);
+    }
+    return readOffset(response, 0, body.size);
+  };
+
+  const create = async (): Promise<string> => {
+    const response = await send(endpoint, {
+      method: 'POST',
+      headers: {
+        'Upload-Length': String(body.size),
+        'Upload-Metadata': encodeMetadata(metadata)
+      }
+    });
+    const location = response.headers.get('Location');
+
+    if (!response.ok || !location) {
+      throw await responseError(response);
+    }
+
+    return new URL(location, endpoint).toString();
+  };
+
+  throwIfAborted(signal);
+
+  const resumeTTL = options.resumeTTL ?? RESUME_TTL;
+  sweepResumeStore(resumeStore, resumeTTL);
+
+  const resumed = readResumable(resumeStore, resumeKey, resumeTTL);
+  let uploadUrl = resumed?.size === body.size ? resumed.url : null;
+  let offset = uploadUrl ? await fetchOffset(uploadUrl) : null;
+
+  if (!uploadUrl || offset === null) {
+    uploadUrl = await create();
+    offset = 0;
+    const entry: ResumableUpload = { url: uploadUrl, metadata, size: body.size, createdAt: Date.now() };
+    resumeStore?.setItem(resumeKey, JSON.stringify(entry));
+  }
+
+  onProgress?.(progressOf(offset, body.size));
+
+  let attempt = 0;
+  let syncOffset = false;
+
+  while (offset < body.size) {
+    throwIfAborted(signal);
+
+    try {
+      // After a failure the server may have stored part of the chunk
+      if (syncOffset) {
+        const serverOffset = await fetchOffset(uploadUrl);
+        if (serverOffset === null) {
+          resumeStore?.removeItem(resumeKey);
+          throw new StorageError('storage/upload_expired', 'Resumable upload failed: Upload expired on the server');
+        }
+        offset = serverOffset;
+        syncOffset = false;
+        continue;
+      }
+
+      const response = await send(uploadUrl, {
+        method: 'PATCH',
+        headers: {
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream'
+        },
+        body: body.slice(offset, offset + chunkSize)
+      });
+
+      if (!response.ok) {
+        throw await responseError(response);
+      }
+
+      // A server that doesn't advance the offset would otherwise loop forever
+      offset = readOffset(response, offset + 1, body.size);
+      attempt = 0;
+      onProgress?.(progressOf(offset, body.size));
+    } catch (error) {
+      if (signal?.aborted || !isRetryable(error) || attempt >= retryDelays.length) {
+        throw error;
+      }
+
+      await wait(retryDelays[attempt++], signal);
+      syncOffset = true;
+    }
+  }
+
+  resumeStore?.removeItem(resumeKey);
+  return uploadUrl;
+}
+
+/**
+ * Looks up an unfinished upload, e.g. to reuse its object path when retrying
+ *
+ * @param fingerprint - The fingerprint passed to tusUpload
+ * @param store - Resume store (default: localStorage; null disables)
+ * @param ttl - Entries older than this many ms are discarded (default: 24 hours)
+ * @returns The remembered upload, or null if there is none or it has expired
+ */
+export function findResumableUpload(
+  fingerprint: string,
+  store?: ResumeStore | null,
+  ttl: number = RESUME_TTL
+): ResumableUpload | null {
+  return readResumable(resolveResumeStore(store), RESUME_KEY_PREFIX + fingerprint, ttl);
+}
+
+/**
+ * Reads an entry, removing it if it is malformed or expired
+ */
+function readResumable(store: ResumeStore | null, key: string, ttl: number): ResumableUpload | null {
+  const raw = store?.getItem(key);
+
+  if (!store || !raw) {
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(raw) as ResumableUpload;
+    if (typeof entry.url === 'string' && Number.isFinite(entry.createdAt) && Date.now() - entry.createdAt < ttl) {
+      return entry;
+    }
+  } catch {
+    // Not an entry of this version
+  }
+
+  store.removeItem(key);
+  return null;
+}
+
+/**
+ * Removes expired entries of uploads that were never retried
+ */
+function sweepResumeStore(store: ResumeStore | null, ttl: number): void {
+  if (!store?.key || store.length === undefined) {
+    return;
+  }
+
+  const keys: string[] = [];
+  for (let index = 0; index < store.length; index++) {
+    const key = store.key(index);
+    if (key?.startsWith(RESUME_KEY_PREFIX)) {
+      keys.push(key);
+    }
+  }
+
+  keys.forEach((key) => readResumable(store, key, ttl));
+}
+
+/**
+ * Reads Upload-Offset, which must be an integer between min and the upload size
+ */
+function readOffset(response: Response, min: number, size: number): number {
+  const header = response.headers.get('Upload-Offset');
+  const offset = header?.trim() ? Number(header) : NaN;
+
+  if (!Number.isSafeInteger(offset) || offset < min || offset > size) {
+    throw new StorageError(
+      'storage/invalid_offset',
+      `Resumable upload failed: Server sent an invalid Upload-Offset (${header ?? 'missing'})`
+    );
+  }
+
+  return offset;
+}
+
+/**
+ * Encodes Upload-Metadata: comma-separated "key base64(value)" pairs
+ */
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      return `${key} ${btoa(String.fromCharCode(...bytes))}`;
+    })
+    .join(',');
+}
+
+/**
+ * Network failures, server errors, locks and offset conflicts are worth a retry
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  const status = (error as { status?: number }).status;
+  return status === 409 || status === 423 || (status !== undefined && status >= 500);
+}
+
+async function responseError(response: Response) {
+  const text = await response.text().catch(() => '');
+  let message = text || response.statusText || `HTTP ${response.status}`;
+
+  try {
+    message = (JSON.parse(text) as { message?: string }).message ?? message;
+  } catch {
+    // Plain-text error body
+  }
+
+  return fromStorageError({ message, status: response.status }, 'Resumable upload failed');
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function resolveResumeStore(store: ResumeStore | null | undefined): ResumeStore | null {
+  if (store !== undefined) {
+    return store;
+  }
+
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryQueueStore, UploadQueue } from './uploadQueue';
+import type { QueueUploader, UploadRequest } from './uploadQueue';
+import { NetworkError, ValidationError } from '../errors';
+
+const request = (path = 'u1/m1/front_camera.webp'): UploadRequest => ({
+  bucket: 'moments',
+  path,
+  blob: new Blob(['image']),
+  contentType: 'image/webp',
+  upsert: true
+});
+
+const createQueue = (upload: QueueUploader, options: { online?: () => boolean; store?: MemoryQueueStore } = {}) =>
+  new UploadQueue(upload, {
+    store: options.store ?? new MemoryQueueStore(),
+    baseDelayMs: 1000,
+    isOnline: options.online ?? (() => true)
+  });
+
+describe('UploadQueue', () => {
+  it('uploads an enqueued job and drops its blob', async () => {
+    const upload = vi.fn<QueueUploader>(async () => {});
+    const queue = createQueue(upload);
+
+    const job = await queue.enqueue(request());
+    await queue.process();
+
+    expect(upload).toHaveBeenCalledWith(expect.objectContaining({ id: job.id, path: job.path }));
+    expect(queue.getJobs()).toEqual([expect.objectContaining({ id: job.id, status: 'done', blob: null })]);
+  });
+
+  it('keeps retryable failures pending with a backoff', async () => {
+    const queue = createQueue(async () => {
+      throw new NetworkError('network/unavailable', 'Upload failed: offline');
+    });
+
+    await queue.enqueue(request());
+    await queue.process();
+
+    const [job] = queue.getJobs();
+    expect(job).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Upload failed: offline' });
+    expect(job.nextAttemptAt).toBeGreaterThan(Date.now());
+  });
+
+  it('fails non-retryable errors and retries them on request', async () => {
+    const upload = vi.fn<QueueUploader>()
+      .mockRejectedValueOnce(new ValidationError('storage/invalid_request', 'Upload failed: bad request'))
+      .mockResolvedValueOnce(undefined);
+    const queue = createQueue(upload);
+
+    const job = await queue.enqueue(request());
+    await queue.process();
+    expect(queue.getJobs()[0].status).toBe('failed');
+
+    await queue.retry(job.id);
+    await queue.process();
+    expect(queue.getJobs()[0].status).toBe('done');
+  });
+
+  it('waits while offline', async () => {
+    let online = false;
+    const upload = vi.fn<QueueUploader>(async () => {});
+    const queue = createQueue(upload, { online: () => online });
+
+    await queue.enqueue(request());
+    await queue.process();
+    expect(upload).not.toHaveBeenCalled();
+
+    online = true;
+    await queue.process();
+    expect(upload).toHaveBeenCalledOnce();
+  });
+
+  it('replaces an unfinished job for the same path and removes jobs', async () => {
+    const queue = createQueue(async () => {}, { online: () => false });
+
+    await queue.enqueue(request());
+    const latest = await queue.enqueue(request());
+    expect(queue.getJobs().map((job) => job.id)).toEqual([latest.id]);
+
+    await queue.remove(latest.id);
+    expect(queue.getJobs()).toEqual([]);
+  });
+
+  it('restores persisted jobs on start', async () => {
+    const store = new MemoryQueueStore();
+    await createQueue(async () => {}, { store, online: () => false }).enqueue(request());
+
+    const upload = vi.fn<QueueUploader>(async () => {});
+    const restarted = createQueue(upload, { store });
+    await restarted.start();
+    await restarted.process();
+    restarted.stop();
+
+    expect(upload).toHaveBeenCalledOnce();
+    expect(restarted.getJobs()[0].status).toBe('done');
+  });
+});
@@ -0,0 +1,438 @@
+import { AppError, StorageError } from '../errors';
+import type { StorageBucket } from './StorageService';
+
+/**
+ * Status of a queued upload
+ * - 'pending': waiting for its next attempt (or for connectivity)
+ * - 'uploading': attempt in progress
+ * - 'failed': gave up (non-retryable error or attempts exhausted); see retry()
+ * - 'done': uploaded; the blob has been dropped
+ */
+export type UploadJobStatus = 'pending' | 'uploading' | 'failed' | 'done';
+
+/**
+ * Upload persisted in the queue
+ */
+export interface UploadJob {
+  id: string;
+  bucket: StorageBucket;
+  path: string;
+  /** Data to upload (already compressed); null once done */
+  blob: Blob | null;
+  contentType: string;
+  upsert: boolean;
+  status: UploadJobStatus;
+  /** Failed attempts so far */
+  attempts: number;
+  /** Epoch ms of the next attempt */
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * What to enqueue
+ */
+export interface UploadRequest {
+  bucket: StorageBucket;
+  path: string;
+  blob: Blob;
+  contentType: string;
+  upsert: boolean;
+}
+
+/**
+ * Performs one upload attempt; throws an AppError on failure
+ */
+export type QueueUploader = (job: UploadJob & { blob: Blob }) => Promise<void>;
+
+/**
+ * Persistence for queued uploads
+ */
+export interface QueueStore {
+  all(): Promise<UploadJob[]>;
+  put(job: UploadJob): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * QueueStore backed by IndexedDB (browser); blobs are stored as-is
+ */
+export class IndexedDBQueueStore implements QueueStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = 'yomo-upload-queue') {}
+
+  async all(): Promise<UploadJob[]> {
+    return this.request<UploadJob[]>('readonly', (store) => store.getAll());
+  }
+
+  async put(job: UploadJob): Promise<void> {
+    await this.request('readwrite', (store) => store.put(job));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(id));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore('jobs', { keyPath: 'id' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new StorageError('storage/indexeddb_unavailable', `Failed to open IndexedDB: ${request.error?.message}`, { cause: request.error }));
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = fn(db.transaction('jobs', mode).objectStore('jobs'));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(new StorageError('storage/indexeddb_failed', `IndexedDB request failed: ${request.error?.message}`, { cause: request.error }));
+    });
+  }
+}
+
+/**
+ * QueueStore kept in memory (Node, tests); does not survive a restart
+ */
+export class MemoryQueueStore implements QueueStore {
+  private readonly jobs = new Map<string, UploadJob>();
+
+  async all(): Promise<UploadJob[]> {
+    return [...this.jobs.values()].map((job) => ({ ...job }));
+  }
+
+  async put(job: UploadJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+}
+
+/**
+ * Options for UploadQueue
+ */
+export interface UploadQueueOptions {
+  /** Persistence (default: IndexedDBQueueStore) */
+  store?: QueueStore;
+  /** Delay after the first failure; doubles with every further failure (default: 2s) */
+  baseDelayMs?: number;
+  /** Upper bound for the backoff delay (default: 5 minutes) */
+  maxDelayMs?: number;
+  /** Failed attempts before a job is marked 'failed' (default: 10) */
+  maxAttempts?: number;
+  /** Connectivity check (default: navigator.onLine) */
+  isOnline?: () => boolean;
+}
+
+/**
+ * Durable upload queue with exponential backoff
+ *
+ * Jobs are persisted before the first attempt, so uploads captured offline survive
+ * reloads. Pending jobs are retried with exponential backoff (plus jitter) and right
+ * away when the browser comes back online. Only retryable errors (network failures,
+ * 429, 5xx) are retried; anything else marks the job 'failed'.
+ *
+ * @example
+ * ```ts
+ * const queue = new UploadQueue((job) => upload(job.bucket, job.path, job.blob));
+ * await queue.start();
+ * await queue.enqueue({ bucket: 'moments', path, blob, contentType: 'image/jpeg', upsert: true });
+ * queue.subscribe((jobs) => console.log(jobs.map((job) => job.status)));
+ * ```
+ */
+export class UploadQueue {
+  private readonly store: QueueStore;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly maxAttempts: number;
+  private readonly isOnline: () => boolean;
+  private readonly listeners = new Set<(jobs: UploadJob[]) => void>();
+  private jobs = new Map<string, UploadJob>();
+  private loaded: Promise<void> | null = null;
+  private processing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+
+  /**
+   * @param upload - Performs one attempt for a job
+   * @param options - Store, backoff and connectivity settings
+   */
+  constructor(private readonly upload: QueueUploader, options: UploadQueueOptions = {}) {
+    this.store = options.store ?? new IndexedDBQueueStore();
+    this.baseDelayMs = options.baseDelayMs ?? 2000;
+    this.maxDelayMs = options.maxDelayMs ?? 5 * 60 * 1000;
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.isOnline = options.isOnline ?? (() => typeof navigator === 'undefined' || navigator.onLine !== false);
+  }
+
+  /**
+   * Loads persisted jobs and starts processing; listens for the browser's online event
+   *
+   * Jobs that were 'uploading' when the page was closed are retried.
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+
+    await this.load();
+    for (const job of this.jobs.values()) {
+      if (job.status === 'uploading') {
+        await this.save({ ...job, status: 'pending', nextAttemptAt: Date.now() });
+      }
+    }
+    this.emit();
+    void this.process();
+  }
+
+  /**
+   * Stops timers and listeners; persisted jobs are kept
+   */
+  stop(): void {
+    this.started = false;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+    this.clearTimer();
+  }
+
+  /**
+   * Persists an upload and schedules it
+   *
+   * An unfinished job for the same bucket and path is replaced.
+   *
+   * @param request - Target bucket and path, blob and upload flags
+   * @returns Promise resolving to the persisted job
+   */
+  async enqueue(request: UploadRequest): Promise<UploadJob> {
+    await this.load();
+
+    for (const job of this.jobs.values()) {
+      if (job.bucket === request.bucket && job.path === request.path && job.status !== 'uploading') {
+        await this.store.delete(job.id);
+        this.jobs.delete(job.id);
+      }
+    }
+
+    const now = Date.now();
+    const job: UploadJob = {
+      ...request,
+      id: createId(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.save(job);
+    this.emit();
+    void this.process();
+
+    return job;
+  }
+
+  /**
+   * Current jobs, oldest first
+   */
+  getJobs(): UploadJob[] {
+    return [...this.jobs.values()].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Registers a listener for job changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (jobs: UploadJob[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Puts a failed job back into the queue with a fresh attempt budget
+   * @param id - Job ID
+   */
+  async retry(id: string): Promise<void> {
+    await this.load();
+    const job = this.jobs.get(id);
+
+    if (job?.status === 'failed') {
+      await this.save({ ...job, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+      this.emit();
+      void this.process();
+    }
+  }
+
+  /**
+   * Removes a job that is not currently uploading
+   * @param id - Job ID
+   */
+  async remove(id: string): Promise<void> {
+    await this.load();
+    const job = this.jobs.get(id);
+
+    if (job && job.status !== 'uploading') {
+      await this.store.delete(id);
+      this.jobs.delete(id);
+      this.emit();
+    }
+  }
+
+  /**
+   * Removes all finished jobs
+   */
+  async clearDone(): Promise<void> {
+    await this.load();
+
+    for (const job of [...this.jobs.values()]) {
+      if (job.status === 'done') {
+        await this.store.delete(job.id);
+        this.jobs.delete(job.id);
+      }
+    }
+    this.emit();
+  }
+
+  /**
+   * Attempts every due pending job, one at a time
+   *
+   * Runs at most once concurrently; resolves when the current pass is finished.
+   */
+  process(): Promise<void> {
+    if (!this.processing) {
+      this.processing = this.runPass().finally(() => {
+        this.processing = null;
+        this.schedule();
+      });
+    }
+    return this.processing;
+  }
+
+  private async runPass(): Promise<void> {
+    await this.load();
+    this.clearTimer();
+
+    let job: UploadJob | undefined;
+    while (this.isOnline() && (job = this.nextDueJob())) {
+      await this.attempt(job);
+    }
+  }
+
+  private async attempt(job: UploadJob): Promise<void> {
+    const current = await this.save({ ...job, status: 'uploading' });
+    this.emit();
+
+    try {
+      await this.upload(current as UploadJob & { blob: Blob });
+      await this.save({ ...current, status: 'done', blob: null, lastError: undefined });
+    } catch (error) {
+      const attempts = current.attempts + 1;
+      const retryable = error instanceof AppError && error.retryable;
+      const exhausted = attempts >= this.maxAttempts;
+
+      await this.save({
+        ...current,
+        status: retryable && !exhausted ? 'pending' : 'failed',
+        attempts,
+        nextAttemptAt: Date.now() + this.backoff(attempts),
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    this.emit();
+  }
+
+  private nextDueJob(): UploadJob | undefined {
+    const now = Date.now();
+    return this.getJobs().find((job) => job.status === 'pending' && job.blob && job.nextAttemptAt <= now);
+  }
+
+  /**
+   * Wakes up for the earliest pending job (only while started)
+   */
+  private schedule(): void {
+    this.clearTimer();
+
+    if (!this.started) {
+      return;
+    }
+
+    const pending = this.getJobs().filter((job) => job.status === 'pending');
+    if (pending.length === 0) {
+      return;
+    }
+
+    const next = Math.min(...pending.map((job) => job.nextAttemptAt));
+    this.timer = setTimeout(() => void this.process(), Math.max(0, next - Date.now()));
+  }
+
+  /**
+   * Exponential backoff with ±20% jitter, capped at maxDelayMs
+   */
+  private backoff(attempts: number): number {
+    const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempts - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private readonly handleOnline = () => {
+    const now = Date.now();
+    for (const job of this.jobs.values()) {
+      if (job.status === 'pending') {
+        job.nextAttemptAt = now;
+      }
+    }
+    void this.process();
+  };
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.all().then((jobs) => {
+        this.jobs = new Map(jobs.map((job) => [job.id, job]));
+      });
+    }
+    return this.loaded;
+  }
+
+  private async save(job: UploadJob): Promise<UploadJob> {
+    const saved = { ...job, updatedAt: Date.now() };
+    await this.store.put(saved);
+    this.jobs.set(saved.id, saved);
+    return saved;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emit(): void {
+    const jobs = this.getJobs();
+    for (const listener of this.listeners) {
+      listener(jobs);
+    }
+  }
+}
+
+function createId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
@@ -0,0 +1,100 @@
+import { NetworkError, StorageError, fromStorageError } from '../errors';
+import type { UploadOptions, UploadProgress } from './StorageService';
+
+/**
+ * Builds a progress snapshot
+ * @param loaded - Bytes sent
+ * @param total - Total bytes
+ */
+export function progressOf(loaded: number, total: number): UploadProgress {
+  return {
+    loaded,
+    total,
+    percent: total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 100
+  };
+}
+
+/**
+ * Error thrown when an upload is cancelled through its AbortSignal
+ */
+export function abortedError(): StorageError {
+  return new StorageError('storage/aborted', 'Upload aborted');
+}
+
+/**
+ * Throws the aborted error if the signal has fired
+ * @param signal - Optional abort signal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortedError();
+  }
+}
+
+/**
+ * Single-request upload request
+ */
+export interface XhrUploadRequest extends UploadOptions {
+  url: string;
+  body: Blob;
+  headers?: Record<string, string>;
+  /** HTTP method (default: 'POST') */
+  method?: string;
+}
+
+/**
+ * Uploads a body in one request with byte-level progress
+ *
+ * Uses XMLHttpRequest because fetch has no upload progress events.
+ *
+ * @param request - Target, body, headers, progress callback and abort signal
+ * @throws StorageError (code 'storage/aborted' when cancelled), NetworkError if offline
+ */
+export function xhrUpload(request: XhrUploadRequest): Promise<void> {
+  const { url, body, headers = {}, method = 'POST', onProgress, signal } = request;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open(method, url);
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    xhr.upload.onprogress = (event) => {
+      onProgress?.(progressOf(event.loaded, event.lengthComputable ? event.total : body.size));
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(progressOf(body.size, body.size));
+        resolve();
+        return;
+      }
+
+      reject(fromStorageError({ message: parseErrorMessage(xhr), status: xhr.status }, 'Upload failed'));
+    };
+
+    xhr.onerror = () => reject(new NetworkError('network/unavailable', 'Upload failed: Network request failed'));
+    xhr.onabort = () => reject(abortedError());
+    xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(body);
+  });
+}
+
+function parseErrorMessage(xhr: XMLHttpRequest): string {
+  try {
+    const parsed = JSON.parse(xhr.responseText) as { message?: string; error?: string };
+    return parsed.message ?? parsed.error ?? xhr.statusText;
+  } catch {
+    return xhr.statusText || `HTTP ${xhr.status}`;
+  }
+}
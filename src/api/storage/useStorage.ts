@@ -1,6 +1,8 @@
-import { createContext, useContext, useState, ReactNode } from 'react';
-import { SupabaseStorageProvider } from './SupabaseStorageProvider';
-import type { MomentImageType } from './StorageService';
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createStorageService } from './createStorageService';
+import type { StorageService, MomentImageType, UploadOptions, CompositeUploadOptions, MomentCompositeManifests } from './StorageService';
+import type { UploadQueue } from './uploadQueue';
+import type { ImageVariantManifest } from './imageVariants';
 
 /**
  * Storage context value type
@@ -10,12 +12,22 @@ interface StorageContextValue {
     userId: string,
     momentId: string,
     imageType: MomentImageType,
-    file: File
-  ) => Promise<string>;
-  uploadProfileImage: (userId: string, file: File) => Promise<string>;
-  uploadTempFile: (userId: string, file: File) => Promise<string>;
+    file: File,
+    options?: UploadOptions
+  ) => Promise<ImageVariantManifest>;
+  uploadMomentComposite: (
+    userId: string,
+    momentId: string,
+    front: File,
+    back: File,
+    options?: CompositeUploadOptions
+  ) => Promise<MomentCompositeManifests>;
+  uploadProfileImage: (userId: string, file: File, options?: UploadOptions) => Promise<ImageVariantManifest>;
+  uploadTempFile: (userId: string, file: File, options?: UploadOptions) => Promise<string>;
   getSignedUrl: (path: string, expiresIn?: number) => Promise<string>;
   deleteFile: (path: string) => Promise<void>;
+  /** Offline upload queue of the service (null if it has none) */
+  uploadQueue: UploadQueue | null;
 }
 
 /**
@@ -23,6 +35,8 @@ interface StorageContextValue {
  */
 interface StorageProviderProps {
   children: ReactNode;
+  /** Storage service to use (default: selected by createStorageService from config) */
+  service?: StorageService;
 }
 
 /**
@@ -34,7 +48,7 @@ const StorageContext = createContext<StorageContextValue | undefined>(undefined)
  * Storage Provider Component
  * 
  * Wraps the application and provides storage operations.
- * Handles image compression and upload to Supabase Storage.
+ * Handles image compression and upload to Supabase Storage (or the injected service).
  * 
  * @example
  * ```tsx
@@ -42,9 +56,28 @@ const StorageContext = createContext<StorageContextValue | undefined>(undefined)
  *   <App />
  * </StorageProvider>
  * ```
+ * 
+ * @example
+ * ```tsx
+ * // Demos and tests without network access
+ * <StorageProvider service={new LocalStorageProvider()}>
+ *   <App />
+ * </StorageProvider>
+ * ```
  */
-export function StorageProvider({ children }: StorageProviderProps) {
-  const [storageService] = useState(() => new SupabaseStorageProvider());
+export function StorageProvider({ children, service }: StorageProviderProps) {
+  const [storageService] = useState<StorageService>(() => service ?? createStorageService());
+  const uploadQueue = storageService.uploadQueue ?? null;
+
+  // Resume uploads persisted by earlier sessions
+  useEffect(() => {
+    if (!uploadQueue) {
+      return;
+    }
+
+    uploadQueue.start().catch((error) => console.error('[Upload Queue] Failed to start:', error));
+    return () => uploadQueue.stop();
+  }, [uploadQueue]);
 
   /**
    * Uploads a moment image (front or back camera)
@@ -53,15 +86,37 @@ export function StorageProvider({ children }: StorageProviderProps) {
    * @param momentId - The ID of the moment
    * @param imageType - 'front' or 'back' camera
    * @param file - The image file to upload
-   * @returns Promise resolving to the public URL
+   * @param options - Progress callback and abort signal
+   * @returns Promise resolving to the variant manifest
    */
   const uploadMomentImage = async (
     userId: string,
     momentId: string,
     imageType: MomentImageType,
-    file: File
-  ): Promise<string> => {
-    return storageService.uploadMomentImage(userId, momentId, imageType, file);
+    file: File,
+    options?: UploadOptions
+  ): Promise<ImageVariantManifest> => {
+    return storageService.uploadMomentImage(userId, momentId, imageType, file, options);
+  };
+
+  /**
+   * Uploads both camera images of a moment and their picture-in-picture composite
+   * 
+   * @param userId - The ID of the user uploading the images
+   * @param momentId - The ID of the moment
+   * @param front - Front camera image
+   * @param back - Back camera image
+   * @param options - Progress callback, abort signal and composite layout
+   * @returns Promise resolving to the variant manifests of front, back and composite
+   */
+  const uploadMomentComposite = async (
+    userId: string,
+    momentId: string,
+    front: File,
+    back: File,
+    options?: CompositeUploadOptions
+  ): Promise<MomentCompositeManifests> => {
+    return storageService.uploadMomentComposite(userId, momentId, front, back, options);
   };
 
   /**
@@ -69,10 +124,11 @@ export function StorageProvider({ children }: StorageProviderProps) {
    * 
    * @param userId - The ID of the user
    * @param file - The image file to upload
-   * @returns Promise resolving to the public URL
+   * @param options - Progress callback and abort signal
+   * @returns Promise resolving to the variant manifest
    */
-  const uploadProfileImage = async (userId: string, file: File): Promise<string> => {
-    return storageService.uploadProfileImage(userId, file);
+  const uploadProfileImage = async (userId: string, file: File, options?: UploadOptions): Promise<ImageVariantManifest> => {
+    return storageService.uploadProfileImage(userId, file, options);
   };
 
   /**
@@ -80,10 +136,11 @@ export function StorageProvider({ children }: StorageProviderProps) {
    * 
    * @param userId - The ID of the user
    * @param file - The file to upload
+   * @param options - Progress callback and abort signal
    * @returns Promise resolving to the public URL
    */
-  const uploadTempFile = async (userId: string, file: File): Promise<string> => {
-    return storageService.uploadTempFile(userId, file);
+  const uploadTempFile = async (userId: string, file: File, options?: UploadOptions): Promise<string> => {
+    return storageService.uploadTempFile(userId, file, options);
   };
 
   /**
@@ -108,10 +165,12 @@ export function StorageProvider({ children }: StorageProviderProps) {
 
   const value: StorageContextValue = {
     uploadMomentImage,
+    uploadMomentComposite,
     uploadProfileImage,
     uploadTempFile,
     getSignedUrl,
-    deleteFile
+    deleteFile,
+    uploadQueue
   };
 
   return <StorageContext.Provider value={value}>{children}</StorageContext.Provider>;
@@ -132,13 +191,13 @@ export function StorageProvider({ children }: StorageProviderProps) {
  *   const { user } = useAuth();
  *   
  *   const handleCapture = async (file: File) => {
- *     const url = await uploadMomentImage(
+ *     const manifest = await uploadMomentImage(
  *       user.id,
  *       'moment123',
  *       'front',
  *       file
  *     );
- *     console.log('Uploaded:', url);
+ *     console.log('Uploaded:', manifest.src);
  *   };
  *   
  *   return <CameraInterface onCapture={handleCapture} />;
@@ -152,13 +211,31 @@ export function StorageProvider({ children }: StorageProviderProps) {
  *   const { user } = useAuth();
  *   
  *   const handleAvatarChange = async (file: File) => {
- *     const url = await uploadProfileImage(user.id, file);
- *     console.log('Avatar updated:', url);
+ *     const manifest = await uploadProfileImage(user.id, file);
+ *     setAvatar(toSrcSet(manifest, '128px')); // <img {...avatar} />
  *   };
  *   
  *   return <input type="file" onChange={(e) => handleAvatarChange(e.target.files[0])} />;
  * }
  * ```
+ *
+ * @example
+ * ```tsx
+ * function VideoUpload() {
+ *   const { uploadTempFile } = useStorage();
+ *   const { user } = useAuth();
+ *   const [percent, setPercent] = useState(0);
+ *   const controller = useRef(new AbortController());
+ *
+ *   const handleUpload = (file: File) =>
+ *     uploadTempFile(user.id, file, {
+ *       onProgress: (progress) => setPercent(progress.percent),
+ *       signal: controller.current.signal
+ *     });
+ *
+ *   return <button onClick={() => controller.current.abort()}>Cancel ({percent}%)</button>;
+ * }
+ * ```
  */
 export function useStorage(): StorageContextValue {
   const context = useContext(StorageContext);
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useStorage } from './useStorage';
+import type { UploadJob } from './uploadQueue';
+
+/**
+ * Upload queue state and controls
+ */
+export interface UploadQueueState {
+  /** All jobs, oldest first */
+  jobs: UploadJob[];
+  /** Waiting for connectivity or their next attempt, or uploading right now */
+  pending: UploadJob[];
+  /** Gave up; can be retried */
+  failed: UploadJob[];
+  /** Uploaded */
+  done: UploadJob[];
+  /** Puts a failed job back into the queue */
+  retry: (id: string) => Promise<void>;
+  /** Removes a job (e.g. a failed capture the user discards) */
+  remove: (id: string) => Promise<void>;
+  /** Removes all finished jobs */
+  clearDone: () => Promise<void>;
+}
+
+const noop = async () => {};
+
+/**
+ * Hook to observe the offline upload queue
+ *
+ * Must be used within a StorageProvider. Returns empty lists when the storage
+ * service has no queue (e.g. LocalStorageProvider).
+ *
+ * @example
+ * ```tsx
+ * function UploadBadge() {
+ *   const { pending, failed, retry } = useUploadQueue();
+ *
+ *   if (failed.length > 0) {
+ *     return <button onClick={() => failed.forEach((job) => retry(job.id))}>Retry uploads</button>;
+ *   }
+ *   return pending.length > 0 ? <span>{pending.length} waiting for upload</span> : null;
+ * }
+ * ```
+ */
+export function useUploadQueue(): UploadQueueState {
+  const { uploadQueue } = useStorage();
+  const [jobs, setJobs] = useState<UploadJob[]>(() => uploadQueue?.getJobs() ?? []);
+
+  useEffect(() => {
+    if (!uploadQueue) {
+      return;
+    }
+
+    setJobs(uploadQueue.getJobs());
+    return uploadQueue.subscribe(setJobs);
+  }, [uploadQueue]);
+
+  const retry = useCallback((id: string) => uploadQueue?.retry(id) ?? noop(), [uploadQueue]);
+  const remove = useCallback((id: string) => uploadQueue?.remove(id) ?? noop(), [uploadQueue]);
+  const clearDone = useCallback(() => uploadQueue?.clearDone() ?? noop(), [uploadQueue]);
+
+  return {
+    jobs,
+    pending: jobs.filter((job) => job.status === 'pending' || job.status === 'uploading'),
+    failed: jobs.filter((job) => job.status === 'failed'),
+    done: jobs.filter((job) => job.status === 'done'),
+    retry,
+    remove,
+    clearDone
+  };
+}
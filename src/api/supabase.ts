@@ -1,25 +1,44 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { AuthError, fromDatabaseError, toAppError } from './errors';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+/**
+ * Project URL and anon key (also needed for direct Storage requests, e.g. resumable uploads)
+ */
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables: VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are required');
-}
+/**
+ * Whether the Supabase environment variables are present
+ */
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
 
 /**
  * Supabase client instance configured with HttpOnly cookie persistence
  * 
  * Uses Supabase's secure HttpOnly cookie storage by default (no explicit storage config needed).
  * This provides XSS protection and is production-ready.
+ * 
+ * Without VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY the module still imports,
+ * so the in-memory providers can be used; any access to the client then throws.
  */
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: true
-  }
-});
+export const supabase: SupabaseClient = isSupabaseConfigured
+  ? createClient(supabaseUrl, supabaseAnonKey, {
+      auth: {
+        // SessionRefreshScheduler (useAuth) refreshes ahead of expiry, one tab at a time (AuthBroadcast.withLock);
+        // a second refresher would race it for the refresh token
+        autoRefreshToken: false,
+        persistSession: true,
+        detectSessionInUrl: true
+      }
+    })
+  : (new Proxy({}, {
+      get() {
+        throw new AuthError(
+          'auth/not_configured',
+          'Missing Supabase environment variables: VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are required'
+        );
+      }
+    }) as SupabaseClient);
 
 // Helper functions (previously in src/lib/supabaseClient.js)
 
@@ -28,6 +47,7 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
  * @param {Function} queryFn - Die Supabase Query Funktion
  * @param {string} errorContext - Beschreibung für bessere Error Messages
  * @returns {Promise<*>} Die Daten aus der Query
+ * @throws {AppError} NotFoundError, ConflictError, ValidationError, NetworkError, ... (siehe ./errors.ts)
  */
 export async function executeQuery(queryFn: any, errorContext: string) {
   try {
@@ -35,13 +55,13 @@ export async function executeQuery(queryFn: any, errorContext: string) {
     
     if (error) {
       console.error(`[DB Error] ${errorContext}:`, error);
-      throw new Error(`Failed to ${errorContext}: ${error.message}`);
+      throw fromDatabaseError(error, `Failed to ${errorContext}`);
     }
     
     return data;
   } catch (err) {
     console.error(`[Query Failed] ${errorContext}:`, err);
-    throw err;
+    throw toAppError(err, `Failed to ${errorContext}`, 'db');
   }
 }
 
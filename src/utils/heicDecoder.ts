@@ -0,0 +1,274 @@
+/**
+ * HEIC/HEIF decoding for iPhone captures
+ *
+ * Browsers other than Safari cannot decode HEIC through <img> or
+ * createImageBitmap, so HEIC files are decoded with libheif (WASM). The ~2MB
+ * decoder is imported on first use only; works on the main thread and in the
+ * image worker. EXIF is read from the container boxes without the decoder.
+ */
+
+/**
+ * MIME types of HEIC/HEIF files
+ */
+export const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+interface HeifImage {
+  get_width(): number;
+  get_height(): number;
+  is_primary(): boolean;
+  display(
+    target: { data: Uint8ClampedArray; width: number; height: number },
+    callback: (result: { data: Uint8ClampedArray; width: number; height: number } | null) => void
+  ): void;
+  free(): void;
+}
+
+interface LibHeif {
+  HeifDecoder: new () => { decode(data: Uint8Array): HeifImage[] };
+}
+
+let libheif: Promise<LibHeif> | null = null;
+
+/** The meta box (item info and locations) sits at the start of the file */
+const META_SCAN_BYTES = 256 * 1024;
+
+interface Box {
+  type: string;
+  /** Offset of the payload (after the header) */
+  start: number;
+  end: number;
+}
+
+interface Extent {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Whether a file is HEIC/HEIF, by MIME type or, for pickers that report no
+ * type (Chrome on Windows/Android), by the .heic/.heif extension
+ */
+export function isHeicFile(file: Blob): boolean {
+  if (HEIC_TYPES.includes(file.type)) {
+    return true;
+  }
+  const untyped = file.type === '' || file.type === 'application/octet-stream';
+  return untyped && file instanceof File && /\.(heic|heif)$/i.test(file.name);
+}
+
+/**
+ * Reads the dimensions of the primary image without decoding its pixels
+ *
+ * @throws Error if the decoder cannot be loaded or the file is not valid HEIC
+ */
+export async function readHeicSize(file: Blob): Promise<{ width: number; height: number }> {
+  return withPrimaryImage(file, (image) => ({ width: image.get_width(), height: image.get_height() }));
+}
+
+/**
+ * Decodes the primary image to RGBA pixels (rotation/mirroring of the file applied)
+ *
+ * @throws Error if the decoder cannot be loaded or the file is not valid HEIC
+ */
+export async function decodeHeic(file: Blob): Promise<ImageData> {
+  return withPrimaryImage(file, (image) => {
+    const width = image.get_width();
+    const height = image.get_height();
+    const target = { data: new Uint8ClampedArray(width * height * 4), width, height };
+
+    return new Promise<ImageData>((resolve, reject) => {
+      // Fills target.data in place
+      image.display(target, (result) => {
+        if (!result) {
+          reject(new Error('Failed to decode HEIC image'));
+          return;
+        }
+        resolve(new ImageData(target.data, width, height));
+      });
+    });
+  });
+}
+
+/**
+ * Reads the Exif item of a HEIC file (the TIFF data, as in a JPEG's APP1)
+ *
+ * Only the meta box and the Exif item are read, the image is not decoded.
+ * The orientation in it is informational: decodeHeic applies the rotation and
+ * mirroring boxes of the container.
+ *
+ * @returns The TIFF header and IFDs, or null if the file has no Exif item
+ * @throws RangeError if the container is truncated or malformed
+ */
+export async function readHeicExif(file: Blob): Promise<Uint8Array | null> {
+  const view = new DataView(await file.slice(0, META_SCAN_BYTES).arrayBuffer());
+  const meta = findBox(view, 0, view.byteLength, 'meta');
+  if (!meta) {
+    return null;
+  }
+
+  // meta is a full box: version and flags precede the children
+  const children = meta.start + 4;
+  const iinf = findBox(view, children, meta.end, 'iinf');
+  const iloc = findBox(view, children, meta.end, 'iloc');
+  const itemId = iinf && findExifItem(view, iinf);
+  const extents = iloc && itemId !== null ? findItemExtents(view, iloc, itemId, findBox(view, children, meta.end, 'idat')) : null;
+  if (!extents || extents.length === 0) {
+    return null;
+  }
+
+  const payload = new Uint8Array(
+    await new Blob(extents.map(({ offset, length }) => file.slice(offset, offset + length))).arrayBuffer()
+  );
+  // Offset of the TIFF header, which may follow an "Exif\0\0" prefix
+  const tiff = 4 + new DataView(payload.buffer).getUint32(0);
+  return payload.length > tiff ? payload.subarray(tiff) : null;
+}
+
+function* boxes(view: DataView, from: number, to: number): Generator<Box> {
+  let offset = from;
+  while (offset + 8 <= to) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      size = readUint(view, offset + 8, 8);
+      header = 16;
+    } else if (size === 0) {
+      size = to - offset;
+    }
+    if (size < header) {
+      throw new RangeError('Invalid HEIF box size');
+    }
+
+    yield { type: fourCC(view, offset + 4), start: offset + header, end: Math.min(offset + size, to) };
+    offset += size;
+  }
+}
+
+function findBox(view: DataView, from: number, to: number, type: string): Box | null {
+  for (const box of boxes(view, from, to)) {
+    if (box.type === type) {
+      return box;
+    }
+  }
+  return null;
+}
+
+/**
+ * ID of the item of type 'Exif' in the item info box, or null
+ */
+function findExifItem(view: DataView, iinf: Box): number | null {
+  const version = view.getUint8(iinf.start);
+  for (const infe of boxes(view, iinf.start + (version === 0 ? 6 : 8), iinf.end)) {
+    const infeVersion = view.getUint8(infe.start);
+    // Item types exist from version 2 on
+    if (infe.type !== 'infe' || infeVersion < 2) {
+      continue;
+    }
+
+    const idSize = infeVersion === 2 ? 2 : 4;
+    if (fourCC(view, infe.start + 4 + idSize + 2) === 'Exif') {
+      return readUint(view, infe.start + 4, idSize);
+    }
+  }
+  return null;
+}
+
+/**
+ * File extents of an item from the item location box, or null if it is not
+ * stored in the file or the idat box
+ */
+function findItemExtents(view: DataView, iloc: Box, itemId: number, idat: Box | null): Extent[] | null {
+  const version = view.getUint8(iloc.start);
+  const offsetSize = view.getUint8(iloc.start + 4) >> 4;
+  const lengthSize = view.getUint8(iloc.start + 4) & 0x0f;
+  const baseOffsetSize = view.getUint8(iloc.start + 5) >> 4;
+  const indexSize = version === 1 || version === 2 ? view.getUint8(iloc.start + 5) & 0x0f : 0;
+  const idSize = version < 2 ? 2 : 4;
+
+  let at = iloc.start + 6;
+  const itemCount = readUint(view, at, idSize);
+  at += idSize;
+
+  for (let i = 0; i < itemCount; i++) {
+    const id = readUint(view, at, idSize);
+    at += idSize;
+    // 0: file offset, 1: offset into idat, 2: other items
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(at) & 0x0f;
+      at += 2;
+    }
+    at += 2; // data_reference_index
+    const baseOffset = readUint(view, at, baseOffsetSize);
+    at += baseOffsetSize;
+    const extentCount = view.getUint16(at);
+    at += 2;
+
+    const extents: Extent[] = [];
+    for (let j = 0; j < extentCount; j++) {
+      at += indexSize;
+      const offset = baseOffset + readUint(view, at, offsetSize);
+      at += offsetSize;
+      extents.push({ offset, length: readUint(view, at, lengthSize) });
+      at += lengthSize;
+    }
+
+    if (id !== itemId) {
+      continue;
+    }
+    if (constructionMethod === 0) {
+      return extents;
+    }
+    return constructionMethod === 1 && idat
+      ? extents.map(({ offset, length }) => ({ offset: idat.start + offset, length }))
+      : null;
+  }
+  return null;
+}
+
+function readUint(view: DataView, offset: number, size: number): number {
+  switch (size) {
+    case 0:
+      return 0;
+    case 2:
+      return view.getUint16(offset);
+    case 4:
+      return view.getUint32(offset);
+    case 8:
+      return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+    default:
+      throw new RangeError(`Unsupported HEIF field size ${size}`);
+  }
+}
+
+function fourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+}
+
+async function withPrimaryImage<T>(file: Blob, read: (image: HeifImage) => T | Promise<T>): Promise<T> {
+  const [{ HeifDecoder }, buffer] = await Promise.all([loadLibheif(), file.arrayBuffer()]);
+  const images = new HeifDecoder().decode(new Uint8Array(buffer));
+
+  try {
+    const image = images.find((candidate) => candidate.is_primary()) ?? images[0];
+    if (!image) {
+      throw new Error('Failed to load image');
+    }
+    return await read(image);
+  } finally {
+    images.forEach((image) => image.free());
+  }
+}
+
+function loadLibheif(): Promise<LibHeif> {
+  if (!libheif) {
+    libheif = import('libheif-js/libheif-wasm/libheif-bundle.mjs')
+      .then((module) => module.default() as LibHeif)
+      .catch((error) => {
+        // Allow a retry (e.g. the chunk failed to load while offline)
+        libheif = null;
+        throw new Error(`Failed to load HEIC decoder: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+  }
+  return libheif;
+}
@@ -0,0 +1,256 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeImageHash,
+  decodeBlurhash,
+  dominantColor,
+  encodeBlurhash,
+  hammingDistance,
+  readExif,
+  stripImageMetadata
+} from './imageCompression';
+
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [...u16(value >>> 16), ...u16(value & 0xffff)];
+const le32 = (value: number) => u32(value).reverse();
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+/**
+ * RGBA pixels of a width x height image coloured by pixel position
+ */
+const image = (width: number, height: number, color: (x: number, y: number) => [number, number, number, number?]) =>
+  Uint8ClampedArray.from({ length: width * height }, (_, index) => index).reduce((pixels, index) => {
+    const [r, g, b, a = 255] = color(index % width, Math.floor(index / width));
+    pixels.set([r, g, b, a], index * 4);
+    return pixels;
+  }, new Uint8ClampedArray(width * height * 4));
+
+const bytesOf = async (blob: Blob) => [...new Uint8Array(await blob.arrayBuffer())];
+
+/**
+ * Big-endian Exif APP1 with Make "Apple", the given orientation and a GPS pointer
+ */
+const exifSegment = (orientation: number) => {
+  const tiff = [
+    ...ascii('MM'), ...u16(42), ...u32(8),
+    ...u16(3),
+    ...u16(0x010f), ...u16(2), ...u32(6), ...u32(50),
+    ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+    ...u16(0x8825), ...u16(4), ...u32(1), ...u32(0),
+    ...u32(0),
+    ...ascii('Apple'), 0
+  ];
+  const payload = [...ascii('Exif'), 0, 0, ...tiff];
+  return [0xff, 0xe1, ...u16(payload.length + 2), ...payload];
+};
+
+const box = (type: string, ...payload: number[][]) => {
+  const body = payload.flat();
+  return [...u32(body.length + 8), ...ascii(type), ...body];
+};
+
+/**
+ * HEIC container whose item 1 is an Exif item stored in mdat (or none)
+ */
+const heic = (exif: number[] | null) => {
+  const ftyp = box('ftyp', ascii('heic'), u32(0), ascii('mif1heic'));
+  const infe = (id: number, type: string) => box('infe', [2, 0, 0, 0], u16(id), u16(0), ascii(type), [0]);
+  const iloc = (offset: number) =>
+    box('iloc', [0, 0, 0, 0], [0x44, 0x00], u16(1), u16(1), u16(0), u16(1), u32(offset), u32(exif?.length ?? 0));
+  const meta = (offset: number) =>
+    box('meta', [0, 0, 0, 0], box('iinf', [0, 0, 0, 0], u16(2), infe(2, 'hvc1'), exif ? infe(1, 'Exif') : []), iloc(offset));
+  // Item data follows the mdat header
+  const offset = ftyp.length + meta(0).length + 8;
+  return new File([new Uint8Array([...ftyp, ...meta(offset), ...box('mdat', exif ?? [])])], 'IMG_0001.HEIC', { type: 'image/heic' });
+};
+
+const comment = [0xff, 0xfe, ...u16(7), ...ascii('hello')];
+const scan = [0xff, 0xda, ...u16(2), 0x11, 0x22, 0xff, 0xd9];
+
+const jpeg = (...segments: number[][]) =>
+  new File([new Uint8Array([0xff, 0xd8, ...segments.flat(), ...scan])], 'photo.jpg', { type: 'image/jpeg' });
+
+const pngChunk = (type: string, data: number[]) => [...u32(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+const webpChunk = (type: string, data: number[]) => [...ascii(type), ...le32(data.length), ...data, ...(data.length % 2 ? [0] : [])];
+const gifExtension = (label: number, ...blocks: number[][]) =>
+  [0x21, label, ...blocks.flatMap((block) => [block.length, ...block]), 0];
+
+describe('readExif', () => {
+  it('reads orientation, camera and GPS presence from a JPEG', async () => {
+    expect(await readExif(jpeg(exifSegment(6)))).toMatchObject({ orientation: 6, make: 'Apple', camera: 'Apple', hasGps: true });
+  });
+
+  it('reads the Exif item of a HEIC', async () => {
+    // Exif item payload: offset of the TIFF header after the prefix, then the APP1 contents
+    const exif = [...u32(6), ...exifSegment(8).slice(4)];
+
+    expect(await readExif(heic(exif))).toMatchObject({ orientation: 8, make: 'Apple', hasGps: true });
+    expect(await readExif(heic(null))).toEqual({ orientation: 1, hasGps: false });
+    // Box size smaller than its header
+    expect(await readExif(new File([new Uint8Array(box('meta', [0, 0, 0, 0], u32(4), ascii('iinf')))], 'a.heic', { type: 'image/heic' })))
+      .toEqual({ orientation: 1, hasGps: false });
+  });
+
+  it('yields orientation 1 for other types and JPEGs without EXIF', async () => {
+    const png = new File([new Uint8Array(exifSegment(6))], 'photo.png', { type: 'image/png' });
+
+    expect(await readExif(png)).toEqual({ orientation: 1, hasGps: false });
+    expect(await readExif(jpeg(comment))).toEqual({ orientation: 1, hasGps: false });
+  });
+});
+
+describe('stripImageMetadata', () => {
+  it('drops EXIF and comments from a JPEG but keeps its orientation', async () => {
+    const stripped = await stripImageMetadata(jpeg(exifSegment(6), comment));
+
+    expect(stripped).toMatchObject({ name: 'photo.jpg', type: 'image/jpeg' });
+    expect(await readExif(stripped)).toEqual(expect.objectContaining({ orientation: 6, make: undefined, hasGps: false }));
+    const bytes = await bytesOf(stripped);
+    expect(bytes.slice(-scan.length)).toEqual(scan);
+    expect(String.fromCharCode(...bytes)).not.toContain('hello');
+  });
+
+  it('drops MPF, the other APPn segments and images appended after EOI but keeps JFIF and ICC', async () => {
+    const segment = (marker: number, data: number[]) => [0xff, marker, ...u16(data.length + 2), ...data];
+    const jfif = segment(0xe0, ascii('JFIF\0'));
+    const icc = segment(0xe2, ascii('ICC_PROFILE\0'));
+    const mpf = segment(0xe2, ascii('MPF\0'));
+    const adobe = segment(0xee, ascii('Adobe'));
+    // Stuffed 0xff byte and a restart marker inside the entropy-coded data
+    const scanWithRestart = [0xff, 0xda, ...u16(2), 0x11, 0xff, 0x00, 0xff, 0xd0, 0x22, 0xff, 0xd9];
+    const secondImage = [0xff, 0xd8, ...exifSegment(3), ...comment, ...scan];
+    const file = new File([new Uint8Array([0xff, 0xd8, ...jfif, ...icc, ...mpf, ...adobe, ...scanWithRestart, ...secondImage])], 'photo.jpg', {
+      type: 'image/jpeg'
+    });
+
+    expect(await bytesOf(await stripImageMetadata(file))).toEqual([0xff, 0xd8, ...jfif, ...icc, ...scanWithRestart]);
+  });
+
+  it('drops text chunks from a PNG', async () => {
+    const signature = [0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a];
+    const header = pngChunk('IHDR', Array(13).fill(1));
+    const end = pngChunk('IEND', []);
+    const png = new File([new Uint8Array([...signature, ...header, ...pngChunk('tEXt', ascii('GPS\0home')), ...end])], 'a.png', {
+      type: 'image/png'
+    });
+
+    expect(await bytesOf(await stripImageMetadata(png))).toEqual([...signature, ...header, ...end]);
+  });
+
+  it('drops the EXIF chunk from a WebP and clears its VP8X flag', async () => {
+    const image = webpChunk('VP8L', [1, 2, 3, 4, 5]);
+    const webp = (...chunks: number[][]) => {
+      const body = [...ascii('WEBP'), ...chunks.flat()];
+      return new Uint8Array([...ascii('RIFF'), ...le32(body.length), ...body]);
+    };
+    const file = new File([webp(webpChunk('VP8X', [0x1c, ...Array(9).fill(0)]), image, webpChunk('EXIF', [1, 2, 3, 4]))], 'a.webp', {
+      type: 'image/webp'
+    });
+
+    expect(await bytesOf(await stripImageMetadata(file))).toEqual([...webp(webpChunk('VP8X', [0x10, ...Array(9).fill(0)]), image)]);
+  });
+
+  it('drops comments and XMP from a GIF but keeps the animation loop', async () => {
+    const screen = [...ascii('GIF89a'), 1, 0, 1, 0, 0x80, 0, 0, ...Array(6).fill(0xff)];
+    const loop = gifExtension(0xff, ascii('NETSCAPE2.0'), [1, 0, 0]);
+    const frame = [...gifExtension(0xf9, [0, 0, 0, 0]), 0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0, 2, 2, 0x44, 0x01, 0];
+    const gif = (...blocks: number[][]) => new Uint8Array([...screen, ...blocks.flat(), 0x3b]);
+    const file = new File(
+      [gif(loop, gifExtension(0xfe, ascii('hello')), gifExtension(0xff, ascii('XMP DataXMP'), ascii('<x:xmpmeta/>')), frame)],
+      'a.gif',
+      { type: 'image/gif' }
+    );
+
+    expect(await bytesOf(await stripImageMetadata(file))).toEqual([...gif(loop, frame)]);
+  });
+
+  it('never returns an image it cannot clean', async () => {
+    const avif = new File([new Uint8Array([0, 0, 0, 0x1c, ...ascii('ftypavif')])], 'a.avif', { type: 'image/avif' });
+    const truncatedGif = new File([new Uint8Array([...ascii('GIF89a'), 1, 0, 1, 0, 0, 0, 0])], 'a.gif', { type: 'image/gif' });
+
+    // Both need a re-encode, which cannot decode these bytes
+    await expect(stripImageMetadata(avif)).rejects.toThrow('Metadata removal failed: image/avif cannot be decoded');
+    await expect(stripImageMetadata(truncatedGif)).rejects.toThrow('Metadata removal failed: image/gif cannot be decoded');
+  });
+});
+
+describe('BlurHash', () => {
+  it('encodes 4 + 2 characters per component and decodes the average colour back', () => {
+    const pixels = image(8, 8, () => [200, 100, 50]);
+
+    expect(encodeBlurhash(pixels, 8, 8)).toHaveLength(4 + 2 * 4 * 3);
+
+    const decoded = decodeBlurhash(encodeBlurhash(pixels, 8, 8, 1, 1), 4, 4);
+    expect(decoded).toHaveLength(4 * 4 * 4);
+    for (let offset = 0; offset < decoded.length; offset += 4) {
+      expect([...decoded.subarray(offset, offset + 4)]).toEqual([200, 100, 50, 255]);
+    }
+  });
+
+  it('keeps the layout of the image', () => {
+    const hash = encodeBlurhash(image(16, 16, (x) => (x < 8 ? [255, 0, 0] : [0, 0, 255])), 16, 16);
+
+    const pixels = decodeBlurhash(hash, 16, 16);
+    const left = pixels.subarray(0, 4);
+    const right = pixels.subarray(15 * 4, 16 * 4);
+    expect(left[0]).toBeGreaterThan(left[2]);
+    expect(right[2]).toBeGreaterThan(right[0]);
+  });
+
+  it('encodes the component counts in the first character', () => {
+    const pixels = image(4, 4, () => [0, 0, 0]);
+
+    expect(encodeBlurhash(pixels, 4, 4, 1, 1)).toMatch(/^00/);
+    expect(encodeBlurhash(pixels, 4, 4, 1, 1)).toHaveLength(6);
+    expect(encodeBlurhash(pixels, 4, 4, 9, 9)[0]).toBe('|');
+  });
+
+  it('rejects invalid component counts and strings', () => {
+    const pixels = image(4, 4, () => [0, 0, 0]);
+
+    expect(() => encodeBlurhash(pixels, 4, 4, 0, 3)).toThrow('BlurHash components must be between 1 and 9');
+    expect(() => encodeBlurhash(pixels, 4, 4, 4, 10)).toThrow('BlurHash components must be between 1 and 9');
+    expect(() => decodeBlurhash('L00', 4, 4)).toThrow('Invalid BlurHash: too short');
+    expect(() => decodeBlurhash(encodeBlurhash(pixels, 4, 4).slice(0, -2), 4, 4)).toThrow('Invalid BlurHash: length should be 28');
+  });
+});
+
+describe('dominantColor', () => {
+  it('returns the mean of the most frequent colour bucket, ignoring transparent pixels', () => {
+    const pixels = image(4, 4, (x, y) => {
+      if (y === 0) return [0, 255, 0, 0];
+      return x < 3 ? [250, 10, 10] : [0, 0, 0];
+    });
+
+    expect(dominantColor(pixels)).toBe('#fa0a0a');
+  });
+
+  it('falls back to black for fully transparent images', () => {
+    expect(dominantColor(image(2, 2, () => [255, 255, 255, 0]))).toBe('#000000');
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts the differing bits', () => {
+    expect(hammingDistance('ffffffffffffffff', 'ffffffffffffffff')).toBe(0);
+    expect(hammingDistance('0000000000000000', '0000000000000001')).toBe(1);
+    expect(hammingDistance('0000000000000000', '00000000000000f0')).toBe(4);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('a5a5a5a5a5a5a5a5', '5a5a5a5a5a5a5a5a')).toBe(64);
+  });
+
+  it('ignores case and is symmetric', () => {
+    expect(hammingDistance('ABCDEF0123456789', 'abcdef0123456788')).toBe(1);
+    expect(hammingDistance('0f0f0f0f00000000', '0000000000000000')).toBe(hammingDistance('0000000000000000', '0f0f0f0f00000000'));
+  });
+
+  it('rejects hashes of different length or with non-hex characters', () => {
+    expect(() => hammingDistance('ffff', 'ffffffffffffffff')).toThrow('Hashes must have the same length');
+    expect(() => hammingDistance('fffffffffffffffg', 'ffffffffffffffff')).toThrow('Hashes must be hexadecimal');
+  });
+});
+
+describe('computeImageHash', () => {
+  it('rejects files that are not images', async () => {
+    await expect(computeImageHash(new File(['text'], 'notes.txt', { type: 'text/plain' }))).rejects.toThrow('Not an image file');
+  });
+});
@@ -3,7 +3,19 @@
  * 
  * Pure TypeScript utilities for client-side image compression and validation.
  * Optimized for yomo-app: Moments (~1.5MB target), Profiles (~100KB target)
+ * Includes a minimal EXIF reader (orientation, capture time, camera) and
+ * metadata stripping for files uploaded without re-encoding, and BlurHash /
+ * dominant-colour placeholders.
+ * Decoding and encoding run in a worker pool where the browser supports it
+ * (see imageWorkerPool.ts), with the FileReader/Image path as fallback.
+ * HEIC/HEIF input is decoded with a lazily loaded WASM decoder (heicDecoder.ts);
+ * outputs are always JPEG, WebP, AVIF or PNG.
+ * createCompositeImage renders the picture-in-picture image of a moment.
  */
+import { HEIC_TYPES, decodeHeic, isHeicFile, readHeicExif, readHeicSize } from './heicDecoder';
+import { getImageWorkerPool, ImageWorkerUnavailableError } from './imageWorkerPool';
+import { compositeGeometry, drawComposite, fitDimensions, sampleDimensions, searchSizeTarget } from './imagePipeline';
+import type { CompositeLayout, ImageSample, PipelineResult, PipelineTask, SampleSize, SizeTargetResult } from './imagePipeline';
 
 /**
  * Compression options for image processing
@@ -17,10 +29,36 @@ export interface CompressionOptions {
     quality?: number;
     /** Target max file size in MB (default: 1.5) */
     maxSizeMB?: number;
-    /** Output MIME type (default: 'image/jpeg') */
+    /**
+     * Output MIME type (default: 'image/jpeg')
+     * 'auto' picks the smallest of `formats` the runtime can encode (see detectImageFormats)
+     */
     mimeType?: string;
+    /** Candidates for mimeType 'auto' (default: AVIF, WebP, JPEG) */
+    formats?: string[];
     /** Maintain original aspect ratio (default: true) */
     maintainAspectRatio?: boolean;
+    /** Lowest quality before the dimensions are reduced to meet maxSizeMB (default: 0.5) */
+    minQuality?: number;
+    /** Reject instead of returning an output larger than maxSizeMB (default: false) */
+    strict?: boolean;
+  }
+  
+  /**
+   * Result of compressImageToTarget
+   */
+  export interface CompressionResult {
+    file: File;
+    /** Encoder quality the output was written with */
+    quality: number;
+    /** Output width (may be below maxWidth when the size target required it) */
+    width: number;
+    /** Output height */
+    height: number;
+    /** Output size in bytes */
+    size: number;
+    /** False if the output still exceeds maxSizeMB (never with strict) */
+    withinTarget: boolean;
   }
   
   /**
@@ -29,7 +67,7 @@ export interface CompressionOptions {
   export interface ValidationOptions {
     /** Maximum file size in bytes (default: 10MB) */
     maxSize?: number;
-    /** Allowed MIME types (default: jpeg, png, webp) */
+    /** Allowed MIME types (default: jpeg, png, webp, HEIC/HEIF) */
     allowedTypes?: string[];
     /** Maximum width in pixels (default: 8192) */
     maxWidth?: number;
@@ -45,17 +83,29 @@ export interface CompressionOptions {
     fit?: 'cover' | 'contain';
     /** JPEG quality 0-1 (default: 0.92) */
     quality?: number;
+    /** Output MIME type or 'auto' (default: 'image/jpeg'), as in CompressionOptions */
+    mimeType?: string;
+    /** Candidates for mimeType 'auto' (default: AVIF, WebP, JPEG) */
+    formats?: string[];
   }
   
   /**
    * Image information object
    */
   export interface ImageInfo {
+    /** Width as displayed (after EXIF orientation) */
     width: number;
+    /** Height as displayed (after EXIF orientation) */
     height: number;
     size: number;
     type: string;
     name: string;
+    /** EXIF orientation (1 if none) */
+    orientation: number;
+    /** Original capture time from EXIF (ISO 8601) */
+    capturedAt?: string;
+    /** Camera make and model from EXIF */
+    camera?: string;
   }
   
   /**
@@ -66,16 +116,152 @@ export interface CompressionOptions {
     error?: string;
   }
   
+  /**
+   * Output formats tried by mimeType 'auto', best compression first; JPEG is the fallback
+   */
+  export const NEGOTIABLE_FORMATS = ['image/avif', 'image/webp', 'image/jpeg'];
+  
+  const FILE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/png': 'png'
+  };
+  
+  /**
+   * File extension for an image MIME type ('image/jpeg' → 'jpg')
+   * 
+   * @param mimeType - Image MIME type
+   * @returns Extension without dot (default: 'jpg')
+   */
+  export function extensionForMimeType(mimeType: string): string {
+    return FILE_EXTENSIONS[mimeType] ?? 'jpg';
+  }
+  
+  let formatDetection: Promise<string[]> | null = null;
+  
+  /**
+   * Detects which formats the runtime can encode through canvas.toBlob
+   * 
+   * Browsers silently fall back to PNG for unsupported types, so a format counts
+   * as supported when the encoded blob has the requested type. Cached per page.
+   * 
+   * @returns Promise resolving to the encodable formats of NEGOTIABLE_FORMATS (always includes JPEG)
+   * 
+   * @example
+   * ```ts
+   * await detectImageFormats(); // → ['image/webp', 'image/jpeg'] (Safari 16)
+   * ```
+   */
+  export function detectImageFormats(): Promise<string[]> {
+    if (!formatDetection) {
+      formatDetection = (async () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = 1;
+        canvas.height = 1;
+        canvas.getContext('2d')?.fillRect(0, 0, 1, 1);
+  
+        const supported: string[] = [];
+        for (const type of NEGOTIABLE_FORMATS) {
+          const blob = await canvasToBlob(canvas, type, 0.8);
+          if (blob?.type === type) {
+            supported.push(type);
+          }
+        }
+  
+        return supported.includes('image/jpeg') ? supported : [...supported, 'image/jpeg'];
+      })();
+    }
+    return formatDetection;
+  }
+  
+  /**
+   * Promise wrapper around canvas.toBlob
+   */
+  function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+    return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+  }
+  
+  /**
+   * Encodes a canvas with mimeType, or with the smallest encodable candidate for 'auto'
+   */
+  async function encodeCanvas(
+    canvas: HTMLCanvasElement,
+    mimeType: string,
+    quality: number,
+    formats: string[] = NEGOTIABLE_FORMATS
+  ): Promise<Blob | null> {
+    if (mimeType !== 'auto') {
+      return canvasToBlob(canvas, mimeType, quality);
+    }
+  
+    const supported = await detectImageFormats();
+    const candidates = formats.filter((type) => supported.includes(type));
+    let smallest: Blob | null = null;
+  
+    for (const type of candidates.length > 0 ? candidates : ['image/jpeg']) {
+      const blob = await canvasToBlob(canvas, type, quality);
+      if (blob && (!smallest || blob.size < smallest.size)) {
+        smallest = blob;
+      }
+    }
+  
+    return smallest;
+  }
+  
+  /**
+   * Replaces the extension of a file name to match the output type
+   */
+  function renameForType(name: string, mimeType: string): string {
+    const base = name.replace(/\.\w+$/, '') || 'image';
+    return `${base}.${extensionForMimeType(mimeType)}`;
+  }
+  
+  /**
+   * Wraps an encoded blob in a File named after the input
+   */
+  function toOutputFile(blob: Blob, input: File | Blob, fallbackName: string): File {
+    const fileName = input instanceof File ? input.name : fallbackName;
+    return new File([blob], renameForType(fileName, blob.type), { type: blob.type, lastModified: Date.now() });
+  }
+  
+  /**
+   * Runs a task in the image worker pool
+   * 
+   * @returns The result, or null where workers are unavailable (use the main-thread path)
+   * @throws Error from the pipeline (e.g. 'Failed to load image')
+   */
+  async function runInImageWorker(task: PipelineTask): Promise<PipelineResult | null> {
+    const pool = getImageWorkerPool();
+    if (!pool) {
+      return null;
+    }
+  
+    try {
+      return await pool.run(task);
+    } catch (error) {
+      if (error instanceof ImageWorkerUnavailableError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
   /**
    * Compresses an image file to target quality with automatic size optimization
    * 
-   * Recursively reduces quality if file exceeds maxSizeMB target.
+   * Meets maxSizeMB by searching the highest quality that fits, then reducing
+   * the dimensions once minQuality is reached (see compressImageToTarget).
    * Optimized for YoMo: Moments (1.5MB), Profiles (100KB)
    * 
+   * EXIF orientation is applied before drawing. The output is re-encoded from a
+   * canvas and carries no metadata (EXIF, GPS, XMP are dropped).
+   * 
    * @param file - The image file to compress
    * @param options - Compression options
    * @returns Promise resolving to compressed image as File object
-   * @throws Error if file is not a valid image or processing fails
+   * @throws Error if file is not a valid image or processing fails, or with
+   * strict if the target cannot be met
    * 
    * @example
    * ```ts
@@ -84,120 +270,181 @@ export interface CompressionOptions {
    *   quality: 0.85,
    *   maxWidth: 1920
    * });
+   * 
+   * // Smallest of AVIF/WebP/JPEG; compressed.type and the extension of compressed.name tell which
+   * const negotiated = await compressImage(file, { mimeType: 'auto' });
    * ```
    */
   export async function compressImage(
     file: File | Blob,
     options: CompressionOptions = {}
   ): Promise<File> {
+    const result = await compressImageToTarget(file, options);
+    return result.file;
+  }
+  
+  /**
+   * Converts HEIC/HEIF to a full-size JPEG; other files are returned unchanged
+   *
+   * Storage only ever receives formats every browser can display. Use before
+   * uploading a file that is not otherwise re-encoded.
+   *
+   * @param file - Image file, possibly HEIC
+   * @returns Promise resolving to the input, or a JPEG at the original dimensions
+   * @throws Error if the HEIC decoder cannot be loaded or the file cannot be decoded
+   *
+   * @example
+   * ```ts
+   * const upload = await toWebSafeImage(file); // IMG_0042.heic → IMG_0042.jpg
+   * ```
+   */
+  export async function toWebSafeImage<T extends File | Blob>(file: T): Promise<T | File> {
+    if (!isHeicFile(file)) {
+      return file;
+    }
+  
+    return compressImage(file, {
+      maxWidth: Infinity,
+      maxHeight: Infinity,
+      maxSizeMB: Infinity,
+      quality: 0.92,
+      mimeType: 'image/jpeg'
+    });
+  }
+  
+    /**
+   * Compresses an image to a byte target and reports what it took
+   * 
+   * Decodes once, then:
+   * 1. encodes at `quality` and stops if the output fits maxSizeMB,
+   * 2. otherwise binary-searches the highest fitting quality down to minQuality,
+   * 3. if even minQuality is too large, scales the dimensions down (by the
+   *    estimated byte ratio) and searches again.
+   * 
+   * The same input and options always give the same quality and dimensions.
+   * 
+   * @param file - The image file to compress
+   * @param options - Compression options
+   * @returns Promise resolving to the file with the achieved quality, dimensions and byte size
+   * @throws Error if file is not a valid image or processing fails, or with
+   * strict if the output cannot be brought under maxSizeMB
+   * 
+   * @example
+   * ```ts
+   * const { file: avatar, quality, width, size } = await compressImageToTarget(file, {
+   *   maxSizeMB: 0.1,
+   *   maxWidth: 512,
+   *   maxHeight: 512,
+   *   strict: true
+   * });
+   * ```
+   */
+  export async function compressImageToTarget(
+    file: File | Blob,
+    options: CompressionOptions = {}
+  ): Promise<CompressionResult> {
+    const { maxSizeMB = 1.5, strict = false } = options;
+  
+    let result: SizeTargetResult | null = null;
+    if (isImageFile(file)) {
+      const fromWorker = await runInImageWorker({ type: 'compress', file, options });
+      if (fromWorker && 'blob' in fromWorker) {
+        result = fromWorker as SizeTargetResult;
+      }
+    }
+    result ??= await compressOnMainThread(file, options);
+  
+    if (strict && !result.withinTarget) {
+      throw new Error(`Cannot compress image below ${maxSizeMB}MB (smallest: ${(result.blob.size / 1024 / 1024).toFixed(2)}MB)`);
+    }
+  
+    return {
+      file: toOutputFile(result.blob, file, 'compressed-image'),
+      quality: result.quality,
+      width: result.width,
+      height: result.height,
+      size: result.blob.size,
+      withinTarget: result.withinTarget
+    };
+  }
+  
+  /**
+   * Size-target search on the main thread (FileReader + Image + DOM canvas)
+   */
+  async function compressOnMainThread(
+    file: File | Blob,
+    options: CompressionOptions
+  ): Promise<SizeTargetResult> {
     const {
       maxWidth = 1920,
       maxHeight = 1920,
       quality = 0.85,
       maxSizeMB = 1.5,
+      minQuality = 0.5,
       mimeType = 'image/jpeg',
+      formats,
       maintainAspectRatio = true
     } = options;
   
-    return new Promise((resolve, reject) => {
-      // Validate input
-      if (!file || !(file instanceof Blob)) {
-        reject(new Error('Invalid file: must be a File or Blob object'));
-        return;
-      }
+    // Validate input
+    if (!file || !(file instanceof Blob)) {
+      throw new Error('Invalid file: must be a File or Blob object');
+    }
   
-      if (!file.type.startsWith('image/')) {
-        reject(new Error(`Invalid file type: ${file.type} is not an image`));
-        return;
-      }
+    if (!isImageFile(file)) {
+      throw new Error(`Invalid file type: ${file.type} is not an image`);
+    }
+  
+    const img = await loadImage(file);
   
-      // Create image element
+    try {
+      // Upright source (EXIF orientation applied)
+      const source = orientedSource(img, await pendingOrientation(file));
+      const { width, height } = fitDimensions(source.width, source.height, maxWidth, maxHeight, maintainAspectRatio);
+      const canvas = document.createElement('canvas');
+      const target = { maxBytes: maxSizeMB * 1024 * 1024, quality, minQuality, mimeType };
+  
+      return await searchSizeTarget(width, height, target, async (w, h, q, type) => {
+        canvas.width = w;
+        canvas.height = h;
+  
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          throw new Error('Failed to get canvas context');
+        }
+  
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(source, 0, 0, w, h);
+  
+        const blob = await encodeCanvas(canvas, type, q, formats);
+        if (!blob) {
+          throw new Error('Failed to create blob from canvas');
+        }
+        return blob;
+      });
+    } catch (error) {
+      throw new Error(`Canvas processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  /**
+   * Decodes an image file through FileReader + Image (HEIC through the WASM decoder)
+   */
+  function loadImage(file: Blob): Promise<HTMLImageElement | HTMLCanvasElement> {
+    if (isHeicFile(file)) {
+      return loadHeic(file);
+    }
+  
+    return new Promise((resolve, reject) => {
       const img = new Image();
       const reader = new FileReader();
   
-      reader.onerror = () => {
-        reject(new Error('Failed to read file'));
-      };
+      reader.onerror = () => reject(new Error('Failed to read file'));
       
       reader.onload = (e) => {
-        img.onerror = () => {
-          reject(new Error('Failed to load image'));
-        };
-        
-        img.onload = async () => {
-          try {
-            // Calculate new dimensions
-            let { width, height } = img;
-            
-            if (maintainAspectRatio) {
-              if (width > maxWidth || height > maxHeight) {
-                const ratio = Math.min(maxWidth / width, maxHeight / height);
-                width = Math.round(width * ratio);
-                height = Math.round(height * ratio);
-              }
-            } else {
-              width = Math.min(width, maxWidth);
-              height = Math.min(height, maxHeight);
-            }
-  
-            // Create canvas and draw image
-            const canvas = document.createElement('canvas');
-            canvas.width = width;
-            canvas.height = height;
-            
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-              reject(new Error('Failed to get canvas context'));
-              return;
-            }
-  
-            ctx.imageSmoothingEnabled = true;
-            ctx.imageSmoothingQuality = 'high';
-            
-            // Draw image on canvas
-            ctx.drawImage(img, 0, 0, width, height);
-  
-            // Convert to blob with optimization loop
-            canvas.toBlob(
-              async (blob) => {
-                if (!blob) {
-                  reject(new Error('Failed to create blob from canvas'));
-                  return;
-                }
-  
-                // Target check: reduce quality if too large
-                if (blob.size > maxSizeMB * 1024 * 1024 && quality > 0.5) {
-                  try {
-                    // Recursive call with lower quality
-                    const recompressed = await compressImage(file, {
-                      ...options,
-                      quality: quality - 0.1
-                    });
-                    resolve(recompressed);
-                    return;
-                  } catch (err) {
-                    // Recompression failed, continue with current blob
-                  }
-                }
-                
-                // Create File from Blob
-                const fileName = file instanceof File ? file.name : 'compressed-image.jpg';
-                const compressedFile = new File(
-                  [blob],
-                  fileName.replace(/\.\w+$/, '.jpg') || 'compressed-image.jpg',
-                  { type: mimeType, lastModified: Date.now() }
-                );
-  
-                resolve(compressedFile);
-              },
-              mimeType,
-              quality
-            );
-          } catch (error) {
-            reject(new Error(`Canvas processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
-          }
-        };
-  
+        img.onerror = () => reject(new Error('Failed to load image'));
+        img.onload = () => resolve(img);
         img.src = e.target?.result as string;
       };
   
@@ -205,9 +452,30 @@ export interface CompressionOptions {
     });
   }
   
+  /**
+   * Decodes a HEIC file onto a canvas
+   */
+  async function loadHeic(file: Blob): Promise<HTMLCanvasElement> {
+    const pixels = await decodeHeic(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+  
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+  
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  }
+  
   /**
    * Batch compress multiple images with optimization
    * 
+   * Runs at most as many compressions at once as the image worker pool has
+   * workers (2 on the main-thread fallback), so large batches don't stall the UI.
+   * 
    * @param files - Array of image files to compress
    * @param options - Compression options (same as compressImage)
    * @returns Promise resolving to array of compressed images
@@ -226,9 +494,18 @@ export interface CompressionOptions {
     options: CompressionOptions = {}
   ): Promise<File[]> {
     try {
-      const results = await Promise.all(
-        files.map(file => compressImage(file, options))
-      );
+      const concurrency = getImageWorkerPool()?.size ?? 2;
+      const results: File[] = new Array(files.length);
+      let next = 0;
+  
+      const runNext = async (): Promise<void> => {
+        while (next < files.length) {
+          const index = next++;
+          results[index] = await compressImage(files[index], options);
+        }
+      };
+  
+      await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, runNext));
       return results;
     } catch (error) {
       throw new Error(`Batch compression failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -249,14 +526,14 @@ export interface CompressionOptions {
    * ```
    */
   export function isImageFile(file: File | Blob): boolean {
-    return file && file.type.startsWith('image/');
+    return file && (file.type.startsWith('image/') || isHeicFile(file));
   }
   
   /**
    * Get image dimensions and file info
    * 
    * @param file - The image file
-   * @returns Promise resolving to object with width, height, size, type, name
+   * @returns Promise resolving to object with width, height, size, type, name, orientation, capturedAt, camera
    * @throws Error if file is not an image or reading fails
    * 
    * @example
@@ -266,35 +543,182 @@ export interface CompressionOptions {
    * ```
    */
   export async function getImageInfo(file: File | Blob): Promise<ImageInfo> {
+    if (isImageFile(file)) {
+      let size: { width: number; height: number } | null = null;
+      const result = await runInImageWorker({ type: 'info', file });
+      if (result && 'width' in result) {
+        size = result;
+      } else if (isHeicFile(file)) {
+        // Container header only, no pixel decode
+        size = await readHeicSize(file);
+      }
+  
+      if (size) {
+        // createImageBitmap and libheif decode upright, so width/height need no swap
+        const exif = await readExif(file);
+        return {
+          width: size.width,
+          height: size.height,
+          size: file.size,
+          type: file.type,
+          name: file instanceof File ? file.name : 'unknown',
+          orientation: exif.orientation,
+          capturedAt: exif.capturedAt,
+          camera: exif.camera
+        };
+      }
+    }
+    return infoOnMainThread(file);
+  }
+  
+  /**
+   * getImageInfo on the main thread (FileReader + Image)
+   */
+  function infoOnMainThread(file: File | Blob): Promise<ImageInfo> {
     return new Promise((resolve, reject) => {
       if (!isImageFile(file)) {
         reject(new Error('Not an image file'));
         return;
       }
   
-      const img = new Image();
-      const reader = new FileReader();
+      loadImage(file).then(async (img) => {
+        try {
+          const [exif, pending] = await Promise.all([readExif(file), pendingOrientation(file)]);
+          // Report upright dimensions, also where the browser decodes the raw pixels
+          const swap = pending >= 5;
   
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      
-      reader.onload = (e) => {
-        img.onerror = () => reject(new Error('Failed to load image'));
-        
-        img.onload = () => {
           resolve({
-            width: img.width,
-            height: img.height,
+            width: swap ? img.height : img.width,
+            height: swap ? img.width : img.height,
             size: file.size,
             type: file.type,
-            name: file instanceof File ? file.name : 'unknown'
+            name: file instanceof File ? file.name : 'unknown',
+            orientation: exif.orientation,
+            capturedAt: exif.capturedAt,
+            camera: exif.camera
           });
-        };
+        } catch (error) {
+          reject(new Error(`Failed to read EXIF data: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        }
+      }, reject);
+    });
+  }
   
-        img.src = e.target?.result as string;
-      };
+  /**
+   * Perceptual hash algorithm
+   * - 'phash': DCT of a 32x32 grayscale downscale; robust to re-encoding, resizing, slight crops
+   * - 'dhash': brightness gradients of a 9x8 downscale; cheaper, less robust
+   */
+  export type ImageHashAlgorithm = 'phash' | 'dhash';
   
-      reader.readAsDataURL(file);
-    });
+  /**
+   * Computes a 64-bit perceptual hash of an image
+   * 
+   * Visually similar images (re-encoded, resized, screenshots of the same photo)
+   * get hashes with a small Hamming distance; compare with hammingDistance.
+   * Only hashes of the same algorithm are comparable.
+   * 
+   * @param file - The image file
+   * @param algorithm - 'phash' or 'dhash' (default: 'phash')
+   * @returns Promise resolving to the hash as 16 hex characters
+   * @throws Error if file is not an image or decoding fails
+   * 
+   * @example
+   * ```ts
+   * const a = await computeImageHash(original);
+   * const b = await computeImageHash(screenshot);
+   * if (hammingDistance(a, b) <= 10) {
+   *   // Probably the same picture
+   * }
+   * ```
+   */
+  export async function computeImageHash(
+    file: File | Blob,
+    algorithm: ImageHashAlgorithm = 'phash'
+  ): Promise<string> {
+    if (!isImageFile(file)) {
+      throw new Error('Not an image file');
+    }
+  
+    if (algorithm === 'dhash') {
+      const gray = grayscale(await sampleImage(file, { width: 9, height: 8 }));
+      const bits: boolean[] = [];
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          bits.push(gray[y * 9 + x] > gray[y * 9 + x + 1]);
+        }
+      }
+      return bitsToHex(bits);
+    }
+  
+    // 8x8 lowest frequencies of the 2D DCT-II of a 32x32 grayscale image
+    const size = 32;
+    const gray = grayscale(await sampleImage(file, { width: size, height: size }));
+    const coefficients: number[] = [];
+    for (let v = 0; v < 8; v++) {
+      for (let u = 0; u < 8; u++) {
+        let sum = 0;
+        for (let y = 0; y < size; y++) {
+          const cosY = Math.cos(((2 * y + 1) * v * Math.PI) / (2 * size));
+          for (let x = 0; x < size; x++) {
+            sum += gray[y * size + x] * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size)) * cosY;
+          }
+        }
+        coefficients.push(sum);
+      }
+    }
+  
+    // Median without the DC term, which only carries the average brightness
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = (sorted[31] + sorted[32]) / 2;
+    return bitsToHex(coefficients.map((value) => value > median));
+  }
+  
+  /**
+   * Number of differing bits between two hashes of computeImageHash
+   * 
+   * @param a - Hex hash
+   * @param b - Hex hash of the same length
+   * @returns 0 (identical) to 64
+   * @throws Error if the hashes differ in length or are not hex
+   */
+  export function hammingDistance(a: string, b: string): number {
+    if (a.length !== b.length) {
+      throw new Error('Hashes must have the same length');
+    }
+  
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+      const x = parseInt(a[i], 16);
+      const y = parseInt(b[i], 16);
+      if (Number.isNaN(x) || Number.isNaN(y)) {
+        throw new Error('Hashes must be hexadecimal');
+      }
+      for (let diff = x ^ y; diff; diff &= diff - 1) {
+        distance++;
+      }
+    }
+    return distance;
+  }
+  
+  /**
+   * Luma (0-255) of RGBA pixels
+   */
+  function grayscale({ data }: ImageSample): number[] {
+    const gray: number[] = [];
+    for (let offset = 0; offset < data.length; offset += 4) {
+      gray.push(0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]);
+    }
+    return gray;
+  }
+  
+  function bitsToHex(bits: boolean[]): string {
+    let hex = '';
+    for (let i = 0; i < bits.length; i += 4) {
+      const nibble = bits.slice(i, i + 4).reduce((value, bit) => (value << 1) | (bit ? 1 : 0), 0);
+      hex += nibble.toString(16);
+    }
+    return hex;
   }
   
   /**
@@ -322,7 +746,7 @@ export interface CompressionOptions {
   ): Promise<ValidationResult> {
     const {
       maxSize = 10 * 1024 * 1024, // 10MB
-      allowedTypes = ['image/jpeg', 'image/png', 'image/webp'],
+      allowedTypes = ['image/jpeg', 'image/png', 'image/webp', ...HEIC_TYPES],
       maxWidth = 8192,
       maxHeight = 8192
     } = options;
@@ -337,9 +761,10 @@ export interface CompressionOptions {
       return { valid: false, error: 'File is not an image' };
     }
   
-    // Check file type
-    if (!allowedTypes.includes(file.type)) {
-      return { valid: false, error: `File type ${file.type} not allowed` };
+    // Check file type (HEIC picked without a MIME type counts as image/heic)
+    const type = isHeicFile(file) && !HEIC_TYPES.includes(file.type) ? 'image/heic' : file.type;
+    if (!allowedTypes.includes(type)) {
+      return { valid: false, error: `File type ${type} not allowed` };
     }
   
     // Check file size
@@ -363,6 +788,8 @@ export interface CompressionOptions {
   /**
    * Resize image to exact dimensions (cropping if needed)
    * 
+   * EXIF orientation is applied before cropping; the output carries no metadata.
+   * 
    * @param file - The image file to resize
    * @param targetWidth - Target width in pixels
    * @param targetHeight - Target height in pixels
@@ -374,6 +801,9 @@ export interface CompressionOptions {
    * ```ts
    * // Resize to 512x512 with cover (crop to fill)
    * const resized = await resizeImage(file, 512, 512, { fit: 'cover' });
+   * 
+   * // Same, as the smallest encodable of AVIF/WebP/JPEG
+   * const small = await resizeImage(file, 512, 512, { mimeType: 'auto' });
    * ```
    */
   export async function resizeImage(
@@ -381,10 +811,30 @@ export interface CompressionOptions {
     targetWidth: number,
     targetHeight: number,
     options: ResizeOptions = {}
+  ): Promise<File> {
+    if (isImageFile(file)) {
+      const result = await runInImageWorker({ type: 'resize', file, width: targetWidth, height: targetHeight, options });
+      if (result && 'blob' in result) {
+        return toOutputFile(result.blob, file, 'resized-image');
+      }
+    }
+    return resizeOnMainThread(file, targetWidth, targetHeight, options);
+  }
+  
+  /**
+   * resizeImage on the main thread (FileReader + Image + DOM canvas)
+   */
+  function resizeOnMainThread(
+    file: File | Blob,
+    targetWidth: number,
+    targetHeight: number,
+    options: ResizeOptions
   ): Promise<File> {
     const {
       fit = 'cover',
-      quality = 0.92
+      quality = 0.92,
+      mimeType = 'image/jpeg',
+      formats
     } = options;
   
     return new Promise((resolve, reject) => {
@@ -393,105 +843,1111 @@ export interface CompressionOptions {
         return;
       }
   
-      const img = new Image();
-      const reader = new FileReader();
-  
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      
-      reader.onload = (e) => {
-        img.onerror = () => reject(new Error('Failed to load image'));
+      loadImage(file).then(async (img) => {
+        try {
+          // Upright source (EXIF orientation applied)
+          const source = orientedSource(img, await pendingOrientation(file));
+          const canvas = document.createElement('canvas');
+          canvas.width = targetWidth;
+          canvas.height = targetHeight;
         
-        img.onload = () => {
-          try {
-            const canvas = document.createElement('canvas');
-            canvas.width = targetWidth;
-            canvas.height = targetHeight;
-            
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-              reject(new Error('Failed to get canvas context'));
-              return;
-            }
+          const ctx = canvas.getContext('2d');
+          if (!ctx) {
+            reject(new Error('Failed to get canvas context'));
+            return;
+          }
+  
+          ctx.imageSmoothingEnabled = true;
+          ctx.imageSmoothingQuality = 'high';
+  
+          let sx: number, sy: number, sWidth: number, sHeight: number;
+          let dx: number, dy: number, dWidth: number, dHeight: number;
+  
+          if (fit === 'cover') {
+            // Object-fit: cover logic (crop to fill)
+            const sourceRatio = source.width / source.height;
+            const targetRatio = targetWidth / targetHeight;
   
-            ctx.imageSmoothingEnabled = true;
-            ctx.imageSmoothingQuality = 'high';
-  
-            let sx: number, sy: number, sWidth: number, sHeight: number;
-            let dx: number, dy: number, dWidth: number, dHeight: number;
-  
-            if (fit === 'cover') {
-              // Object-fit: cover logic (crop to fill)
-              const sourceRatio = img.width / img.height;
-              const targetRatio = targetWidth / targetHeight;
-  
-              if (sourceRatio > targetRatio) {
-                sHeight = img.height;
-                sWidth = Math.round(img.height * targetRatio);
-                sx = Math.round((img.width - sWidth) / 2);
-                sy = 0;
-              } else {
-                sWidth = img.width;
-                sHeight = Math.round(img.width / targetRatio);
-                sx = 0;
-                sy = Math.round((img.height - sHeight) / 2);
-              }
-  
-              dx = 0;
-              dy = 0;
-              dWidth = targetWidth;
-              dHeight = targetHeight;
+            if (sourceRatio > targetRatio) {
+              sHeight = source.height;
+              sWidth = Math.round(source.height * targetRatio);
+              sx = Math.round((source.width - sWidth) / 2);
+              sy = 0;
             } else {
-              // Object-fit: contain logic
-              const ratio = Math.min(targetWidth / img.width, targetHeight / img.height);
-              dWidth = Math.round(img.width * ratio);
-              dHeight = Math.round(img.height * ratio);
-              dx = Math.round((targetWidth - dWidth) / 2);
-              dy = Math.round((targetHeight - dHeight) / 2);
-              
+              sWidth = source.width;
+              sHeight = Math.round(source.width / targetRatio);
               sx = 0;
-              sy = 0;
-              sWidth = img.width;
-              sHeight = img.height;
-  
-              ctx.fillStyle = '#000000';
-              ctx.fillRect(0, 0, targetWidth, targetHeight);
+              sy = Math.round((source.height - sHeight) / 2);
             }
   
-            ctx.drawImage(
-              img,
-              sx, sy, sWidth, sHeight,
-              dx, dy, dWidth, dHeight
-            );
-  
-            canvas.toBlob(
-              (blob) => {
-                if (!blob) {
-                  reject(new Error('Failed to create blob from canvas'));
-                  return;
-                }
-                
-                const fileName = file instanceof File ? file.name : 'resized-image.jpg';
-                const resizedFile = new File(
-                  [blob],
-                  fileName || 'resized-image.jpg',
-                  { type: 'image/jpeg', lastModified: Date.now() }
-                );
-                
-                resolve(resizedFile);
-              },
-              'image/jpeg',
-              quality
-            );
-          } catch (error) {
-            reject(new Error(`Resize failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+            dx = 0;
+            dy = 0;
+            dWidth = targetWidth;
+            dHeight = targetHeight;
+          } else {
+            // Object-fit: contain logic
+            const ratio = Math.min(targetWidth / source.width, targetHeight / source.height);
+            dWidth = Math.round(source.width * ratio);
+            dHeight = Math.round(source.height * ratio);
+            dx = Math.round((targetWidth - dWidth) / 2);
+            dy = Math.round((targetHeight - dHeight) / 2);
+          
+            sx = 0;
+            sy = 0;
+            sWidth = source.width;
+            sHeight = source.height;
+  
+            ctx.fillStyle = '#000000';
+            ctx.fillRect(0, 0, targetWidth, targetHeight);
           }
-        };
   
-        img.src = e.target?.result as string;
-      };
+          ctx.drawImage(
+            source,
+            sx, sy, sWidth, sHeight,
+            dx, dy, dWidth, dHeight
+          );
   
-      reader.readAsDataURL(file);
+          const blob = await encodeCanvas(canvas, mimeType, quality, formats);
+          if (!blob) {
+            reject(new Error('Failed to create blob from canvas'));
+            return;
+          }
+        
+          const outputType = blob.type || mimeType;
+          const fileName = file instanceof File ? file.name : 'resized-image';
+          const resizedFile = new File(
+            [blob],
+            renameForType(fileName, outputType),
+            { type: outputType, lastModified: Date.now() }
+          );
+        
+          resolve(resizedFile);
+        } catch (error) {
+          reject(new Error(`Resize failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        }
+      }, reject);
     });
   }
   
-  
\ No newline at end of file
+  /**
+   * EXIF data of an image
+   */
+  export interface ExifData {
+    /** EXIF orientation 1-8 (1 = upright, 6 = rotate 90° clockwise, ...) */
+    orientation: number;
+    /** Original capture time (DateTimeOriginal, ISO 8601; with UTC offset when recorded) */
+    capturedAt?: string;
+    make?: string;
+    model?: string;
+    /** Make and model, e.g. 'Apple iPhone 15 Pro' */
+    camera?: string;
+    lensModel?: string;
+    /** Whether the file carries GPS tags */
+    hasGps: boolean;
+  }
+  
+  /**
+   * EXIF fields that may be kept as moment metadata (location is never kept)
+   */
+  export type KeepableMetadataField = 'capturedAt' | 'camera' | 'lensModel';
+  
+  /**
+   * Kept EXIF fields
+   */
+  export type ImageMetadata = Partial<Pick<ExifData, KeepableMetadataField>>;
+  
+  const EXIF_SCAN_BYTES = 256 * 1024;
+  
+  /**
+   * Reads EXIF orientation, capture time and camera from a JPEG or HEIC
+   * 
+   * Only the first 256KB of a JPEG are read; of a HEIC, the container boxes and
+   * the Exif item (see readHeicExif). Other formats and files without (or with
+   * broken) EXIF yield orientation 1.
+   * 
+   * @param file - The image file
+   * @returns Promise resolving to the EXIF data
+   * 
+   * @example
+   * ```ts
+   * const { orientation, capturedAt, camera } = await readExif(file);
+   * ```
+   */
+  export async function readExif(file: Blob): Promise<ExifData> {
+    const empty: ExifData = { orientation: 1, hasGps: false };
+  
+    if (isHeicFile(file)) {
+      try {
+        const tiff = await readHeicExif(file);
+        return tiff ? parseTiff(new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength), 0) : empty;
+      } catch {
+        return empty;
+      }
+    }
+  
+    if (file.type && file.type !== 'image/jpeg') {
+      return empty;
+    }
+  
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  
+    try {
+      const tiff = findExifTiff(view);
+      return tiff === null ? empty : parseTiff(view, tiff);
+    } catch {
+      // Truncated or malformed EXIF
+      return empty;
+    }
+  }
+  
+  /**
+   * Selects the fields to keep from EXIF data
+   * 
+   * @param exif - Parsed EXIF data
+   * @param fields - Fields to keep
+   * @returns Only the requested fields that are present
+   */
+  export function pickMetadata(exif: ExifData, fields: KeepableMetadataField[]): ImageMetadata {
+    const metadata: ImageMetadata = {};
+    for (const field of fields) {
+      if (exif[field] !== undefined) {
+        metadata[field] = exif[field];
+      }
+    }
+    return metadata;
+  }
+  
+  /**
+   * Offset of the TIFF header inside the JPEG's Exif APP1 segment, or null
+   */
+  function findExifTiff(view: DataView): number | null {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+      return null;
+    }
+  
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+        return null;
+      }
+  
+      const length = view.getUint16(offset + 2);
+      // APP1 starting with "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        return offset + 10;
+      }
+      offset += 2 + length;
+    }
+  
+    return null;
+  }
+  
+  function parseTiff(view: DataView, tiff: number): ExifData {
+    const little = view.getUint16(tiff) === 0x4949;
+    if (view.getUint16(tiff + 2, little) !== 42) {
+      return { orientation: 1, hasGps: false };
+    }
+  
+    const ifd0 = readIfd(view, tiff, tiff + view.getUint32(tiff + 4, little), little);
+    const exifPointer = ifd0.get(0x8769);
+    const exifIfd = typeof exifPointer === 'number'
+      ? readIfd(view, tiff, tiff + exifPointer, little)
+      : new Map<number, number | string>();
+  
+    const orientation = ifd0.get(0x0112);
+    const make = asText(ifd0.get(0x010f));
+    const model = asText(ifd0.get(0x0110));
+    const dateTime = asText(exifIfd.get(0x9003)) ?? asText(ifd0.get(0x0132));
+  
+    return {
+      orientation: typeof orientation === 'number' && orientation >= 1 && orientation <= 8 ? orientation : 1,
+      capturedAt: dateTime ? toIsoDate(dateTime, asText(exifIfd.get(0x9011))) : undefined,
+      make,
+      model,
+      camera: make && model && !model.startsWith(make) ? `${make} ${model}` : model ?? make,
+      lensModel: asText(exifIfd.get(0xa434)),
+      hasGps: ifd0.has(0x8825)
+    };
+  }
+  
+  /**
+   * Reads ASCII, SHORT and LONG values of an IFD (other types are skipped)
+   */
+  function readIfd(view: DataView, tiff: number, start: number, little: boolean): Map<number, number | string> {
+    const values = new Map<number, number | string>();
+    const count = view.getUint16(start, little);
+  
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      const tag = view.getUint16(entry, little);
+      const type = view.getUint16(entry + 2, little);
+      const length = view.getUint32(entry + 4, little);
+  
+      if (type === 3) {
+        values.set(tag, view.getUint16(entry + 8, little));
+      } else if (type === 4) {
+        values.set(tag, view.getUint32(entry + 8, little));
+      } else if (type === 2) {
+        const at = length <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+        let text = '';
+        for (let j = 0; j < length; j++) {
+          const code = view.getUint8(at + j);
+          if (code === 0) break;
+          text += String.fromCharCode(code);
+        }
+        values.set(tag, text.trim());
+      }
+    }
+  
+    return values;
+  }
+  
+  function asText(value: number | string | undefined): string | undefined {
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  }
+  
+  /**
+   * 'YYYY:MM:DD HH:MM:SS' (+ optional '+02:00') → ISO 8601
+   */
+  function toIsoDate(dateTime: string, offset?: string): string | undefined {
+    const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(dateTime);
+    if (!match) {
+      return undefined;
+    }
+  
+    const [, year, month, day, hour, minute, second] = match;
+    const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+    return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+  }
+  
+  /**
+   * Minimal Exif APP1 segment that only carries an orientation
+   */
+  function orientationSegment(orientation: number) {
+    return new Uint8Array([
+      0xff, 0xe1, 0x00, 0x22, // APP1, length 34
+      0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // "Exif\0\0"
+      0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian TIFF header, IFD0 at 8
+      0x00, 0x01, // one entry
+      0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00, // Orientation (SHORT)
+      0x00, 0x00, 0x00, 0x00 // no next IFD
+    ]);
+  }
+  
+  let orientationSupport: Promise<boolean> | null = null;
+  
+  /**
+   * Whether the browser applies EXIF orientation when decoding images
+   * 
+   * Current browsers do (image-orientation: from-image), older ones draw the raw
+   * pixels. Tested once with a 2x1 JPEG tagged as rotated (orientation 6).
+   */
+  export function browserAppliesOrientation(): Promise<boolean> {
+    if (!orientationSupport) {
+      orientationSupport = (async () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = 2;
+        canvas.height = 1;
+        const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.5);
+        if (!jpeg) {
+          return true;
+        }
+  
+        const bytes = new Uint8Array(await jpeg.arrayBuffer());
+        const tagged = new Blob([bytes.slice(0, 2), orientationSegment(6), bytes.slice(2)], { type: 'image/jpeg' });
+        const url = URL.createObjectURL(tagged);
+  
+        try {
+          return await new Promise<boolean>((resolve) => {
+            const img = new Image();
+            img.onload = () => resolve(img.naturalWidth === 1);
+            img.onerror = () => resolve(true);
+            img.src = url;
+          });
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      })();
+    }
+    return orientationSupport;
+  }
+  
+  /**
+   * Orientation that still has to be applied when drawing (1 if the browser or
+   * the HEIC decoder already did)
+   */
+  async function pendingOrientation(file: Blob): Promise<number> {
+    if (isHeicFile(file)) {
+      return 1;
+    }
+    const [exif, applied] = await Promise.all([readExif(file), browserAppliesOrientation()]);
+    return applied ? 1 : exif.orientation;
+  }
+  
+  /**
+   * Draws the image upright onto a canvas (only needed when the browser ignores EXIF)
+   */
+  function orientedSource(
+    img: HTMLImageElement | HTMLCanvasElement,
+    orientation: number
+  ): HTMLImageElement | HTMLCanvasElement {
+    if (orientation <= 1) {
+      return img;
+    }
+  
+    const { width, height } = img;
+    const canvas = document.createElement('canvas');
+    canvas.width = orientation >= 5 ? height : width;
+    canvas.height = orientation >= 5 ? width : height;
+  
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+  
+    const transforms: Record<number, [number, number, number, number, number, number]> = {
+      2: [-1, 0, 0, 1, width, 0],
+      3: [-1, 0, 0, -1, width, height],
+      4: [1, 0, 0, -1, 0, height],
+      5: [0, 1, 1, 0, 0, 0],
+      6: [0, 1, -1, 0, height, 0],
+      7: [0, -1, -1, 0, height, width],
+      8: [0, -1, 1, 0, 0, width]
+    };
+    ctx.transform(...transforms[orientation]);
+    ctx.drawImage(img, 0, 0);
+  
+    return canvas;
+  }
+  
+  /**
+   * Removes identifying metadata from an image file
+   * 
+   * Without re-encoding:
+   * - JPEG: drops EXIF (incl. GPS and maker notes), XMP, IPTC, MPF, the other APPn
+   *   segments except JFIF and ICC profiles, comments and anything after the image
+   *   (appended previews, depth maps); the orientation is kept in a minimal EXIF
+   *   block so the image still renders upright
+   * - PNG: drops eXIf, tEXt, iTXt, zTXt and tIME chunks
+   * - WebP: drops EXIF and XMP chunks
+   * - GIF: drops comments and application data (XMP, ...); animation is kept
+   * 
+   * Every other type (AVIF, TIFF, BMP, ...) and files whose structure cannot be
+   * parsed are re-encoded through a canvas as PNG (lossless, keeps transparency),
+   * which never carries metadata.
+   * 
+   * @param file - The image file
+   * @returns Promise resolving to the cleaned file (same name and type, or a PNG when re-encoded)
+   * @throws Error if the file has to be re-encoded but cannot be decoded (never returns it uncleaned)
+   */
+  export async function stripImageMetadata(file: File): Promise<File> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let parts: BlobPart[] | null = null;
+  
+    if (file.type === 'image/jpeg') {
+      const { orientation } = await readExif(file);
+      parts = stripJpeg(bytes, orientation);
+    } else if (file.type === 'image/png') {
+      parts = stripPng(bytes);
+    } else if (file.type === 'image/webp') {
+      parts = stripWebp(bytes);
+    } else if (file.type === 'image/gif') {
+      parts = stripGif(bytes);
+    }
+  
+    if (parts) {
+      return new File(parts, file.name, { type: file.type, lastModified: file.lastModified });
+    }
+  
+    try {
+      return await compressImage(file, {
+        maxWidth: Infinity,
+        maxHeight: Infinity,
+        maxSizeMB: Infinity,
+        quality: 1,
+        mimeType: 'image/png'
+      });
+    } catch (error) {
+      throw new Error(
+        `Metadata removal failed: ${file.type || 'Unknown type'} cannot be decoded (${error instanceof Error ? error.message : 'Unknown error'})`
+      );
+    }
+  }
+  
+  function stripJpeg(bytes: Uint8Array, orientation: number): BlobPart[] | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.length < 4 || view.getUint16(0) !== 0xffd8) {
+      return null;
+    }
+  
+    const parts: BlobPart[] = [bytes.slice(0, 2)];
+    if (orientation > 1) {
+      parts.push(orientationSegment(orientation));
+    }
+  
+    let offset = 2;
+    while (offset + 2 <= bytes.length) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00) {
+        return null;
+      }
+      if (marker === 0xffff) {
+        // Fill byte before a marker
+        offset++;
+        continue;
+      }
+      if (marker === 0xffd9) {
+        // EOI: anything after it (e.g. MPF secondary images) is dropped
+        parts.push(bytes.slice(offset, offset + 2));
+        return parts;
+      }
+      if (offset + 4 > bytes.length) {
+        return null;
+      }
+  
+      const end = offset + 2 + view.getUint16(offset + 2);
+      if (isKeptJpegSegment(bytes, marker, offset)) {
+        parts.push(bytes.slice(offset, end));
+      }
+      offset = end;
+  
+      if (marker === 0xffda) {
+        // Entropy-coded data runs to the next marker that is not a stuffed 0x00 or RSTn
+        const start = offset;
+        while (offset + 1 < bytes.length && !(bytes[offset] === 0xff && isJpegMarkerByte(bytes[offset + 1]))) {
+          offset++;
+        }
+        parts.push(bytes.slice(start, offset));
+      }
+    }
+  
+    // No EOI: truncated or not parseable, let the caller re-encode it
+    return null;
+  }
+  
+  /**
+   * Drops APP1 (EXIF/XMP), APP2 other than ICC profiles (e.g. MPF), APP3-APP15
+   * (IPTC, maker data, ...) and COM; keeps APP0 (JFIF) and every non-APP segment
+   */
+  function isKeptJpegSegment(bytes: Uint8Array, marker: number, offset: number): boolean {
+    if (marker === 0xfffe || marker === 0xffe1 || (marker >= 0xffe3 && marker <= 0xffef)) {
+      return false;
+    }
+    if (marker === 0xffe2) {
+      return String.fromCharCode(...bytes.slice(offset + 4, offset + 16)) === 'ICC_PROFILE\0';
+    }
+    return true;
+  }
+  
+  function isJpegMarkerByte(byte: number): boolean {
+    return byte !== 0x00 && byte !== 0xff && (byte < 0xd0 || byte > 0xd7);
+  }
+  
+  function stripPng(bytes: Uint8Array): BlobPart[] | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.length < 8 || view.getUint32(0) !== 0x89504e47) {
+      return null;
+    }
+  
+    const dropped = new Set(['eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME']);
+    const parts: BlobPart[] = [bytes.slice(0, 8)];
+  
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const end = offset + 12 + view.getUint32(offset);
+      const type = String.fromCharCode(...bytes.slice(offset + 4, offset + 8));
+      if (!dropped.has(type)) {
+        parts.push(bytes.slice(offset, end));
+      }
+      offset = end;
+    }
+  
+    return parts;
+  }
+  
+  function stripWebp(bytes: Uint8Array): BlobPart[] | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.length < 12 || view.getUint32(0) !== 0x52494646 || view.getUint32(8) !== 0x57454250) {
+      return null;
+    }
+  
+    const chunks: BlobPart[] = [];
+    let riffSize = 4;
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const size = view.getUint32(offset + 4, true);
+      const end = Math.min(bytes.length, offset + 8 + size + (size % 2));
+      const type = String.fromCharCode(...bytes.slice(offset, offset + 4));
+  
+      if (type !== 'EXIF' && type !== 'XMP ') {
+        const chunk = bytes.slice(offset, end);
+        if (type === 'VP8X') {
+          chunk[8] &= ~0x0c; // clear the EXIF and XMP flags
+        }
+        chunks.push(chunk);
+        riffSize += chunk.length;
+      }
+      offset = end;
+    }
+  
+    const header = bytes.slice(0, 12);
+    new DataView(header.buffer).setUint32(4, riffSize, true);
+  
+    return [header, ...chunks];
+  }
+  
+  function stripGif(bytes: Uint8Array): BlobPart[] | null {
+    const signature = String.fromCharCode(...bytes.slice(0, 6));
+    if (bytes.length < 13 || (signature !== 'GIF87a' && signature !== 'GIF89a')) {
+      return null;
+    }
+  
+    const colorTableSize = (flags: number) => (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+    // Offset after a chain of data sub-blocks (each prefixed by its length, ended by 0)
+    const skipSubBlocks = (start: number) => {
+      let at = start;
+      while (at < bytes.length && bytes[at] !== 0) {
+        at += bytes[at] + 1;
+      }
+      return at + 1;
+    };
+  
+    let offset = 13 + colorTableSize(bytes[10]);
+    const parts: BlobPart[] = [bytes.slice(0, offset)];
+  
+    while (offset < bytes.length) {
+      const introducer = bytes[offset];
+      let end: number;
+  
+      if (introducer === 0x3b) {
+        parts.push(bytes.slice(offset, offset + 1));
+        return parts;
+      } else if (introducer === 0x2c) {
+        // Image descriptor, local colour table, LZW minimum code size, image data
+        end = skipSubBlocks(offset + 10 + colorTableSize(bytes[offset + 9]) + 1);
+      } else if (introducer === 0x21) {
+        end = skipSubBlocks(offset + 2);
+        const label = bytes[offset + 1];
+        const application = String.fromCharCode(...bytes.slice(offset + 3, offset + 14));
+        // Comments and application data go; the animation loop count stays
+        if (label === 0xfe || (label === 0xff && application !== 'NETSCAPE2.0' && application !== 'ANIMEXTS1.0')) {
+          offset = end;
+          continue;
+        }
+      } else {
+        return null;
+      }
+  
+      if (end > bytes.length) {
+        return null;
+      }
+      parts.push(bytes.slice(offset, end));
+      offset = end;
+    }
+  
+    // Truncated before the trailer
+    return null;
+  }
+  
+  /**
+   * Placeholder shown while an image loads
+   */
+  export interface ImagePlaceholder {
+    /** BlurHash of the image (https://blurha.sh) */
+    blurhash: string;
+    /** Dominant colour as '#rrggbb' */
+    color: string;
+    /** Width / height of the source (to reserve the box before the image loads) */
+    aspectRatio: number;
+  }
+  
+  /**
+   * Placeholder options
+   */
+  export interface PlaceholderOptions {
+    /** Horizontal BlurHash components 1-9 (default: 4, 3 for portrait images) */
+    componentsX?: number;
+    /** Vertical BlurHash components 1-9 (default: 3, 4 for portrait images) */
+    componentsY?: number;
+  }
+  
+  /** Longest edge of the downscale placeholders are computed from */
+  const PLACEHOLDER_SAMPLE_EDGE = 32;
+  
+  const BASE83_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+  
+  /**
+   * Computes the BlurHash and dominant colour of an image
+   * 
+   * Works on a 32px downscale (EXIF orientation applied), so a thumbnail variant
+   * is as good a source as the original and much cheaper to decode.
+   * 
+   * @param file - The image file
+   * @param options - BlurHash components
+   * @returns Promise resolving to { blurhash, color, aspectRatio }
+   * @throws Error if file is not an image or decoding fails
+   * 
+   * @example
+   * ```ts
+   * const { blurhash, color } = await generatePlaceholder(file);
+   * // → { blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj', color: '#3b4a5c', aspectRatio: 0.75 }
+   * ```
+   */
+  export async function generatePlaceholder(
+    file: File | Blob,
+    options: PlaceholderOptions = {}
+  ): Promise<ImagePlaceholder> {
+    if (!isImageFile(file)) {
+      throw new Error('Not an image file');
+    }
+  
+    const pixels = await sampleImage(file, { maxEdge: PLACEHOLDER_SAMPLE_EDGE });
+    const portrait = pixels.height > pixels.width;
+    const { componentsX = portrait ? 3 : 4, componentsY = portrait ? 4 : 3 } = options;
+  
+    return {
+      blurhash: encodeBlurhash(pixels.data, pixels.width, pixels.height, componentsX, componentsY),
+      color: dominantColor(pixels.data),
+      aspectRatio: pixels.width / pixels.height
+    };
+  }
+  
+  /**
+   * Downscaled RGBA pixels of an image (EXIF orientation applied), in the worker pool if available
+   */
+  async function sampleImage(file: Blob, size: SampleSize): Promise<ImageSample> {
+    const fromWorker = await runInImageWorker({ type: 'sample', file, size });
+    if (fromWorker && 'data' in fromWorker) {
+      return fromWorker;
+    }
+    return sampleOnMainThread(file, size);
+  }
+  
+  /**
+   * Downscaled pixels on the main thread (FileReader + Image + DOM canvas)
+   */
+  async function sampleOnMainThread(file: Blob, size: SampleSize): Promise<ImageSample> {
+    const img = await loadImage(file);
+    const source = orientedSource(img, await pendingOrientation(file));
+    const { width, height } = sampleDimensions(source.width, source.height, size);
+  
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+  
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+  
+    ctx.drawImage(source, 0, 0, width, height);
+    return { width, height, data: ctx.getImageData(0, 0, width, height).data };
+  }
+  
+  /**
+   * Encodes RGBA pixels as a BlurHash
+   * 
+   * @param pixels - RGBA pixels, row by row
+   * @param width - Width in pixels
+   * @param height - Height in pixels
+   * @param componentsX - Horizontal components 1-9 (default: 4)
+   * @param componentsY - Vertical components 1-9 (default: 3)
+   * @returns BlurHash string (4 + 2 * componentsX * componentsY characters)
+   */
+  export function encodeBlurhash(
+    pixels: Uint8ClampedArray,
+    width: number,
+    height: number,
+    componentsX: number = 4,
+    componentsY: number = 3
+  ): string {
+    if (componentsX < 1 || componentsX > 9 || componentsY < 1 || componentsY > 9) {
+      throw new Error('BlurHash components must be between 1 and 9');
+    }
+  
+    const factors: [number, number, number][] = [];
+    for (let j = 0; j < componentsY; j++) {
+      for (let i = 0; i < componentsX; i++) {
+        const normalisation = i === 0 && j === 0 ? 1 : 2;
+        let r = 0;
+        let g = 0;
+        let b = 0;
+  
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const basis = normalisation * Math.cos((Math.PI * i * x) / width) * Math.cos((Math.PI * j * y) / height);
+            const offset = 4 * (x + y * width);
+            r += basis * srgbToLinear(pixels[offset]);
+            g += basis * srgbToLinear(pixels[offset + 1]);
+            b += basis * srgbToLinear(pixels[offset + 2]);
+          }
+        }
+  
+        const scale = 1 / (width * height);
+        factors.push([r * scale, g * scale, b * scale]);
+      }
+    }
+  
+    const [dc, ...ac] = factors;
+    let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+    let maximumValue = 1;
+  
+    if (ac.length > 0) {
+      const actualMaximum = Math.max(...ac.flat().map(Math.abs));
+      const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+      maximumValue = (quantisedMaximum + 1) / 166;
+      hash += encode83(quantisedMaximum, 1);
+    } else {
+      hash += encode83(0, 1);
+    }
+  
+    hash += encode83((linearToSrgb(dc[0]) << 16) + (linearToSrgb(dc[1]) << 8) + linearToSrgb(dc[2]), 4);
+  
+    for (const [r, g, b] of ac) {
+      const quantise = (value: number) =>
+        Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)));
+      hash += encode83(quantise(r) * 19 * 19 + quantise(g) * 19 + quantise(b), 2);
+    }
+  
+    return hash;
+  }
+  
+  /**
+   * Decodes a BlurHash into RGBA pixels
+   * 
+   * @param blurhash - BlurHash string
+   * @param width - Output width (small sizes like 32 are enough; scale up with CSS)
+   * @param height - Output height
+   * @param punch - Contrast boost (default: 1)
+   * @returns RGBA pixels, row by row (usable with new ImageData)
+   * @throws Error if the string is not a valid BlurHash
+   */
+  export function decodeBlurhash(
+    blurhash: string,
+    width: number,
+    height: number,
+    punch: number = 1
+  ): Uint8ClampedArray<ArrayBuffer> {
+    if (!blurhash || blurhash.length < 6) {
+      throw new Error('Invalid BlurHash: too short');
+    }
+  
+    const sizeFlag = decode83(blurhash[0]);
+    const componentsY = Math.floor(sizeFlag / 9) + 1;
+    const componentsX = (sizeFlag % 9) + 1;
+  
+    if (blurhash.length !== 4 + 2 * componentsX * componentsY) {
+      throw new Error(`Invalid BlurHash: length should be ${4 + 2 * componentsX * componentsY}`);
+    }
+  
+    const maximumValue = ((decode83(blurhash[1]) + 1) / 166) * punch;
+    const dc = decode83(blurhash.substring(2, 6));
+    const colors: [number, number, number][] = [[srgbToLinear(dc >> 16), srgbToLinear((dc >> 8) & 255), srgbToLinear(dc & 255)]];
+  
+    for (let index = 1; index < componentsX * componentsY; index++) {
+      const value = decode83(blurhash.substring(4 + index * 2, 6 + index * 2));
+      colors.push([
+        signPow((Math.floor(value / (19 * 19)) - 9) / 9, 2) * maximumValue,
+        signPow(((Math.floor(value / 19) % 19) - 9) / 9, 2) * maximumValue,
+        signPow(((value % 19) - 9) / 9, 2) * maximumValue
+      ]);
+    }
+  
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0;
+        let g = 0;
+        let b = 0;
+  
+        for (let j = 0; j < componentsY; j++) {
+          for (let i = 0; i < componentsX; i++) {
+            const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+            const color = colors[i + j * componentsX];
+            r += color[0] * basis;
+            g += color[1] * basis;
+            b += color[2] * basis;
+          }
+        }
+  
+        const offset = 4 * (x + y * width);
+        pixels[offset] = linearToSrgb(r);
+        pixels[offset + 1] = linearToSrgb(g);
+        pixels[offset + 2] = linearToSrgb(b);
+        pixels[offset + 3] = 255;
+      }
+    }
+  
+    return pixels;
+  }
+  
+  /**
+   * Draws a BlurHash onto a canvas (at the canvas size)
+   * 
+   * @param blurhash - BlurHash string
+   * @param canvas - Target canvas; keep it small (e.g. 32x32) and scale it with CSS
+   * @param punch - Contrast boost (default: 1)
+   * @throws Error if the string is not a valid BlurHash
+   * 
+   * @example
+   * ```tsx
+   * <canvas width={32} height={32} style={{ width: '100%', height: '100%' }}
+   *   ref={(canvas) => canvas && renderPlaceholder(moment.placeholders.front.blurhash, canvas)} />
+   * ```
+   */
+  export function renderPlaceholder(blurhash: string, canvas: HTMLCanvasElement, punch: number = 1): void {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+  
+    const pixels = decodeBlurhash(blurhash, canvas.width, canvas.height, punch);
+    ctx.putImageData(new ImageData(pixels, canvas.width, canvas.height), 0, 0);
+  }
+  
+  /**
+   * Renders a BlurHash to a PNG data URL (e.g. for <img src> or a CSS background)
+   * 
+   * @param blurhash - BlurHash string
+   * @param width - Output width (default: 32)
+   * @param height - Output height (default: 32)
+   * @param punch - Contrast boost (default: 1)
+   * @returns data:image/png URL
+   * @throws Error if the string is not a valid BlurHash
+   * 
+   * @example
+   * ```tsx
+   * <img src={placeholderToDataURL(placeholder.blurhash, 32, Math.round(32 / placeholder.aspectRatio))}
+   *   style={{ backgroundColor: placeholder.color }} alt="" />
+   * ```
+   */
+  export function placeholderToDataURL(
+    blurhash: string,
+    width: number = 32,
+    height: number = 32,
+    punch: number = 1
+  ): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    renderPlaceholder(blurhash, canvas, punch);
+    return canvas.toDataURL('image/png');
+  }
+  
+  /**
+   * Most frequent colour of RGBA pixels (12-bit buckets, transparent pixels ignored)
+   * 
+   * @param pixels - RGBA pixels
+   * @returns '#rrggbb' (the mean of the most populated bucket)
+   */
+  export function dominantColor(pixels: Uint8ClampedArray): string {
+    const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+    let best: { count: number; r: number; g: number; b: number } | null = null;
+  
+    for (let offset = 0; offset < pixels.length; offset += 4) {
+      if (pixels[offset + 3] < 128) {
+        continue;
+      }
+  
+      const [r, g, b] = [pixels[offset], pixels[offset + 1], pixels[offset + 2]];
+      const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+      const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+      bucket.count++;
+      bucket.r += r;
+      bucket.g += g;
+      bucket.b += b;
+      buckets.set(key, bucket);
+  
+      if (!best || bucket.count > best.count) {
+        best = bucket;
+      }
+    }
+  
+    if (!best) {
+      return '#000000';
+    }
+  
+    const { count, r, g, b } = best;
+    const hex = (sum: number) => Math.round(sum / count).toString(16).padStart(2, '0');
+    return `#${hex(r)}${hex(g)}${hex(b)}`;
+  }
+  
+  function encode83(value: number, length: number): string {
+    let result = '';
+    for (let i = 1; i <= length; i++) {
+      result += BASE83_DIGITS[Math.floor(value / 83 ** (length - i)) % 83];
+    }
+    return result;
+  }
+  
+  function decode83(value: string): number {
+    let result = 0;
+    for (const char of value) {
+      const digit = BASE83_DIGITS.indexOf(char);
+      if (digit < 0) {
+        throw new Error(`Invalid BlurHash: unexpected character '${char}'`);
+      }
+      result = result * 83 + digit;
+    }
+    return result;
+  }
+  
+  function srgbToLinear(value: number): number {
+    const v = value / 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  }
+  
+  function linearToSrgb(value: number): number {
+    const v = Math.max(0, Math.min(1, value));
+    return v <= 0.0031308 ? Math.trunc(v * 12.92 * 255 + 0.5) : Math.trunc((1.055 * v ** (1 / 2.4) - 0.055) * 255 + 0.5);
+  }
+  
+  function signPow(value: number, exponent: number): number {
+    return Math.sign(value) * Math.abs(value) ** exponent;
+  }
+  
+  /**
+   * Corner of the inset image in a composite
+   */
+  export type CompositeCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  
+  /**
+   * Options for createCompositeImage
+   * 
+   * Lengths are fractions of the output width, so a composite looks the same at any size.
+   */
+  export interface CompositeOptions {
+    /** Corner of the inset (default: 'top-left') */
+    corner?: CompositeCorner;
+    /** Inset width (default: 0.3) */
+    insetSize?: number;
+    /** Gap between the inset (and the text) and the image edges (default: 0.03) */
+    margin?: number;
+    /** Corner radius of the inset (default: 0.035) */
+    radius?: number;
+    /** Border around the inset, 0 for none (default: 0.006) */
+    borderWidth?: number;
+    /** Border colour, any CSS colour (default: '#000000') */
+    borderColor?: string;
+    /** Show the back image as the inset over the front image (default: false) */
+    swap?: boolean;
+    /** Text at the bottom, shortened with an ellipsis to one line */
+    caption?: string;
+    /** Capture time shown below the caption */
+    timestamp?: Date | string | number;
+    /** Locale of the timestamp (default: the browser's) */
+    locale?: string;
+    /** Longest edge of the output in pixels (default: 1920) */
+    maxSize?: number;
+    /** Encoder quality 0-1 (default: 0.9) */
+    quality?: number;
+    /** Output MIME type or 'auto' (default: 'image/jpeg'), as in CompressionOptions */
+    mimeType?: string;
+  }
+  
+  /**
+   * Renders the picture-in-picture image of a moment
+   * 
+   * The back camera image fills the output (at its own aspect ratio, at most
+   * maxSize) and the front camera image is drawn as a rounded inset in one corner.
+   * Caption and timestamp are drawn at the bottom over a dark gradient, on the
+   * side away from a bottom inset. EXIF orientation of both inputs is applied.
+   * 
+   * Rendered in the image worker, which decodes the inputs one after the other
+   * and scales each down to its size in the output right away; on the main
+   * thread only where workers are unavailable.
+   * 
+   * @param front - Front camera image
+   * @param back - Back camera image
+   * @param options - Layout, overlay text and output settings
+   * @returns Promise resolving to the composite as File ('composite.jpg' for JPEG)
+   * @throws Error if an input is not a valid image or rendering fails
+   * 
+   * @example
+   * ```ts
+   * const composite = await createCompositeImage(front, back, {
+   *   corner: 'top-right',
+   *   caption: 'Sunday hike',
+   *   timestamp: capturedAt
+   * });
+   * ```
+   */
+  export async function createCompositeImage(
+    front: File | Blob,
+    back: File | Blob,
+    options: CompositeOptions = {}
+  ): Promise<File> {
+    const {
+      corner = 'top-left',
+      insetSize = 0.3,
+      margin = 0.03,
+      radius = 0.035,
+      borderWidth = 0.006,
+      borderColor = '#000000',
+      swap = false,
+      caption,
+      timestamp,
+      locale,
+      maxSize = 1920,
+      quality = 0.9,
+      mimeType = 'image/jpeg'
+    } = options;
+  
+    for (const file of [front, back]) {
+      if (!isImageFile(file)) {
+        throw new Error(`Invalid file type: ${file.type} is not an image`);
+      }
+    }
+  
+    try {
+      const lines: CompositeLayout['lines'] = caption?.trim() ? [{ text: caption.trim(), size: 0.045, weight: 600 }] : [];
+      if (timestamp !== undefined) {
+        const date = new Date(timestamp);
+        if (Number.isNaN(date.getTime())) {
+          throw new Error(`Invalid timestamp: ${String(timestamp)}`);
+        }
+        lines.push({ text: date.toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' }), size: 0.03, weight: 400 });
+      }
+  
+      const layout: CompositeLayout = { corner, insetSize, margin, radius, borderWidth, borderColor, lines, maxSize, quality, mimeType };
+      const [main, inset] = swap ? [front, back] : [back, front];
+  
+      const fromWorker = await runInImageWorker({ type: 'composite', main, inset, layout });
+      const blob = fromWorker && 'blob' in fromWorker ? fromWorker.blob : await compositeOnMainThread(main, inset, layout);
+  
+      const outputType = blob.type || mimeType;
+      return new File([blob], renameForType('composite', outputType), { type: outputType, lastModified: Date.now() });
+    } catch (error) {
+      throw new Error(`Composite failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  
+  /**
+   * createCompositeImage on the main thread (FileReader + Image + DOM canvas)
+   */
+  async function compositeOnMainThread(main: File | Blob, inset: File | Blob, layout: CompositeLayout): Promise<Blob> {
+    const [mainSource, insetSource] = await Promise.all([main, inset].map(async (file) => {
+      return orientedSource(await loadImage(file), await pendingOrientation(file));
+    }));
+  
+    const { width, height } = fitDimensions(mainSource.width, mainSource.height, layout.maxSize, layout.maxSize, true);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+  
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+  
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    drawComposite(ctx, mainSource, insetSource, compositeGeometry(width, height, insetSource, layout), layout);
+  
+    const blob = await encodeCanvas(canvas, layout.mimeType, layout.quality);
+    if (!blob) {
+      throw new Error('Failed to create blob from canvas');
+    }
+    return blob;
+  }
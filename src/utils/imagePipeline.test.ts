@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+import { compositeGeometry, fitDimensions, searchSizeTarget } from './imagePipeline';
+import type { CompositeLayout, SizeTarget, SizeTargetEncoder } from './imagePipeline';
+
+/**
+ * Encoder whose output grows with pixel count and quality; 'auto' negotiates WebP
+ */
+const fakeEncoder = (bytesPerPixel = 10) =>
+  vi.fn<SizeTargetEncoder>(async (width, height, quality, mimeType) =>
+    new Blob([new Uint8Array(Math.round(width * height * bytesPerPixel * quality))], {
+      type: mimeType === 'auto' ? 'image/webp' : mimeType
+    })
+  );
+
+const target = (overrides: Partial<SizeTarget> = {}): SizeTarget => ({
+  maxBytes: 1000,
+  quality: 0.9,
+  minQuality: 0.5,
+  mimeType: 'image/jpeg',
+  ...overrides
+});
+
+describe('fitDimensions', () => {
+  it('scales down to fit and keeps smaller images as they are', () => {
+    expect(fitDimensions(4000, 3000, 1920, 1920, true)).toEqual({ width: 1920, height: 1440 });
+    expect(fitDimensions(800, 600, 1920, 1920, true)).toEqual({ width: 800, height: 600 });
+    expect(fitDimensions(4000, 3000, 1920, 1920, false)).toEqual({ width: 1920, height: 1920 });
+  });
+});
+
+describe('searchSizeTarget', () => {
+  it('stops after one attempt when the starting quality fits', async () => {
+    const encode = fakeEncoder();
+
+    const result = await searchSizeTarget(10, 10, target(), encode);
+
+    expect(result).toMatchObject({ width: 10, height: 10, quality: 0.9, withinTarget: true });
+    expect(encode).toHaveBeenCalledOnce();
+  });
+
+  it('binary-searches the highest quality that fits', async () => {
+    const encode = fakeEncoder();
+
+    // 100 px * 10 bytes * quality: fits up to quality 0.8
+    const result = await searchSizeTarget(10, 10, target({ maxBytes: 800 }), encode);
+
+    expect(result.withinTarget).toBe(true);
+    expect(result.blob.size).toBeLessThanOrEqual(800);
+    expect(result.quality).toBeGreaterThanOrEqual(0.78);
+    expect(result.quality).toBeLessThanOrEqual(0.8);
+    expect(encode.mock.calls.slice(0, 2).map(([, , quality]) => quality)).toEqual([0.9, 0.5]);
+  });
+
+  it('is deterministic for the same source and encoder', async () => {
+    const first = fakeEncoder();
+    const second = fakeEncoder();
+
+    await searchSizeTarget(40, 30, target({ maxBytes: 5000 }), first);
+    await searchSizeTarget(40, 30, target({ maxBytes: 5000 }), second);
+
+    expect(first.mock.calls).toEqual(second.mock.calls);
+  });
+
+  it('reduces the dimensions, keeping the aspect ratio, when the lowest quality is too large', async () => {
+    const encode = fakeEncoder();
+
+    // 40x30 at quality 0.5 is 6000 bytes
+    const result = await searchSizeTarget(40, 30, target({ maxBytes: 2000 }), encode);
+
+    expect(result.withinTarget).toBe(true);
+    expect(result.blob.size).toBeLessThanOrEqual(2000);
+    expect(result.width).toBeLessThan(40);
+    expect(result.width / result.height).toBeCloseTo(4 / 3, 1);
+  });
+
+  it('returns the smallest attempt with withinTarget false when the target is unreachable', async () => {
+    const encode = vi.fn<SizeTargetEncoder>(async () => new Blob([new Uint8Array(5000)], { type: 'image/jpeg' }));
+
+    const result = await searchSizeTarget(20000, 15000, target(), encode);
+
+    expect(result.withinTarget).toBe(false);
+    expect(result.blob.size).toBe(5000);
+    // Two qualities per step, at most 8 reductions after the first step
+    expect(encode).toHaveBeenCalledTimes(18);
+  });
+
+  it('stops reducing at the minimum edge', async () => {
+    const encode = fakeEncoder(1000);
+
+    const result = await searchSizeTarget(64, 64, target({ maxBytes: 1 }), encode);
+
+    expect(result.withinTarget).toBe(false);
+    expect(Math.max(...encode.mock.calls.map(([width]) => width))).toBe(64);
+    expect(Math.min(...encode.mock.calls.map(([width]) => width))).toBeLessThanOrEqual(32);
+    expect(Math.min(...encode.mock.calls.map(([width]) => width))).toBeGreaterThanOrEqual(16);
+  });
+
+  it("keeps the format negotiated for 'auto' on the first attempt", async () => {
+    const encode = fakeEncoder();
+
+    const result = await searchSizeTarget(10, 10, target({ maxBytes: 800, mimeType: 'auto' }), encode);
+
+    expect(encode.mock.calls.map(([, , , mimeType]) => mimeType)).toEqual([
+      'auto',
+      ...Array(encode.mock.calls.length - 1).fill('image/webp')
+    ]);
+    expect(result.blob.type).toBe('image/webp');
+  });
+});
+
+describe('compositeGeometry', () => {
+  const layout = (overrides: Partial<CompositeLayout> = {}): CompositeLayout => ({
+    corner: 'top-left',
+    insetSize: 0.3,
+    margin: 0.03,
+    radius: 0.035,
+    borderWidth: 0.006,
+    borderColor: '#000000',
+    lines: [],
+    maxSize: 1920,
+    quality: 0.9,
+    mimeType: 'image/jpeg',
+    ...overrides
+  });
+
+  it('sizes the inset to insetSize of the width in the chosen corner', () => {
+    const geometry = compositeGeometry(1000, 1500, { width: 3000, height: 4000 }, layout({ corner: 'bottom-right' }));
+
+    expect(geometry.gap).toBe(30);
+    expect(geometry.inset).toMatchObject({ width: 300, height: 400, x: 1000 - 30 - 300, y: 1500 - 30 - 400, border: 6 });
+    expect(geometry.inset.radius).toBeCloseTo(35);
+  });
+
+  it('shrinks a tall inset to fit the height', () => {
+    const geometry = compositeGeometry(1000, 400, { width: 300, height: 900 }, layout());
+
+    expect(geometry.inset).toMatchObject({ x: 30, y: 30, height: 340, width: 113 });
+  });
+
+  it('places the same way when given the inset at its drawn size', () => {
+    const source = compositeGeometry(1920, 1440, { width: 3024, height: 4032 }, layout());
+    const scaled = compositeGeometry(1920, 1440, source.inset, layout());
+
+    expect(scaled).toEqual(source);
+  });
+});
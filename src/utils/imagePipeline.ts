@@ -0,0 +1,547 @@
+/**
+ * Image pipeline on ImageBitmap + OffscreenCanvas
+ *
+ * Runs inside the image worker (see imageWorker.ts); no DOM access. Decoding
+ * with createImageBitmap applies the EXIF orientation (HEIC goes through the
+ * WASM decoder in heicDecoder.ts), and the image is decoded
+ * once per task, also when the size target needs several encoding passes.
+ * fitDimensions, searchSizeTarget and the composite layout and drawing are
+ * shared with the main-thread fallback.
+ */
+import { decodeHeic, isHeicFile, readHeicSize } from './heicDecoder';
+import type { CompositeOptions, CompressionOptions, ResizeOptions } from './imageCompression';
+
+/**
+ * Work item sent to the worker
+ */
+export type PipelineTask =
+  | { type: 'compress'; file: Blob; options: CompressionOptions }
+  | { type: 'resize'; file: Blob; width: number; height: number; options: ResizeOptions }
+  | { type: 'info'; file: Blob }
+  | { type: 'sample'; file: Blob; size: SampleSize }
+  | { type: 'composite'; main: Blob; inset: Blob; layout: CompositeLayout };
+
+/**
+ * Size of a pixel sample: scaled to fit a longest edge, or stretched to exact dimensions
+ */
+export type SampleSize = { maxEdge: number } | { width: number; height: number };
+
+/**
+ * Encoded image with the settings it was encoded at
+ */
+export interface EncodedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  /** Encoder quality 0-1 */
+  quality: number;
+}
+
+/**
+ * Outcome of searchSizeTarget
+ */
+export interface SizeTargetResult extends EncodedImage {
+  /** False if even the smallest attempt exceeds the target (that attempt is returned) */
+  withinTarget: boolean;
+}
+
+/**
+ * Downscaled RGBA pixels of an image (for placeholders)
+ */
+export interface ImageSample {
+  width: number;
+  height: number;
+  /** RGBA, row by row */
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Worker result: an encoded image, the decoded dimensions for 'info', or the pixels for 'sample'
+ */
+export type PipelineResult =
+  | SizeTargetResult
+  | EncodedImage
+  | ImageSample
+  | { width: number; height: number };
+
+/**
+ * Size-target search settings
+ */
+export interface SizeTarget {
+  /** Target max size in bytes */
+  maxBytes: number;
+  /** Starting (highest) quality */
+  quality: number;
+  /** Lowest quality before the dimensions are reduced */
+  minQuality: number;
+  /** Output MIME type or 'auto' (negotiated on the first attempt, then kept) */
+  mimeType: string;
+}
+
+/**
+ * createCompositeImage options with defaults applied and the overlay text resolved
+ */
+export type CompositeLayout = Required<Omit<CompositeOptions, 'swap' | 'caption' | 'timestamp' | 'locale'>> & {
+  /** Overlay lines, top to bottom; size is a fraction of the output width */
+  lines: { text: string; size: number; weight: number }[];
+};
+
+/**
+ * Pixel positions of a composite
+ */
+export interface CompositeGeometry {
+  width: number;
+  height: number;
+  /** Margin around the inset and the text */
+  gap: number;
+  inset: { x: number; y: number; width: number; height: number; radius: number; border: number };
+}
+
+/**
+ * Draws the decoded source at width x height and encodes it
+ */
+export type SizeTargetEncoder = (width: number, height: number, quality: number, mimeType: string) => Promise<Blob>;
+
+/** Binary search stops once the quality interval is this narrow */
+const QUALITY_PRECISION = 0.02;
+/** Dimension reductions before giving up */
+const MAX_DIMENSION_STEPS = 8;
+/** Dimensions are not reduced below this longest edge */
+const MIN_TARGET_EDGE = 32;
+
+// Same as imageCompression's NEGOTIABLE_FORMATS; not imported so the worker bundle stays free of DOM code
+const NEGOTIABLE_FORMATS = ['image/avif', 'image/webp', 'image/jpeg'];
+
+/**
+ * Whether this runtime can run the pipeline (in a worker or on the main thread)
+ */
+export function supportsImagePipeline(): boolean {
+  return typeof createImageBitmap === 'function'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof OffscreenCanvas.prototype.convertToBlob === 'function';
+}
+
+/**
+ * Runs one task
+ * @throws Error with the same messages as the main-thread path ('Failed to load image', ...)
+ */
+export async function runPipelineTask(task: PipelineTask): Promise<PipelineResult> {
+  if (task.type === 'info' && isHeicFile(task.file)) {
+    return readHeicSize(task.file);
+  }
+  if (task.type === 'composite') {
+    return composite(task.main, task.inset, task.layout);
+  }
+
+  const bitmap = await decode(task.file);
+
+  try {
+    switch (task.type) {
+      case 'info':
+        return { width: bitmap.width, height: bitmap.height };
+      case 'compress':
+        return await compress(bitmap, task.options);
+      case 'resize':
+        return await resize(bitmap, task.width, task.height, task.options);
+      case 'sample':
+        return sample(bitmap, task.size);
+    }
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Output dimensions for compressImage's maxWidth/maxHeight options
+ */
+export function fitDimensions(
+  width: number,
+  height: number,
+  maxWidth: number,
+  maxHeight: number,
+  maintainAspectRatio: boolean
+): { width: number; height: number } {
+  if (!maintainAspectRatio) {
+    return { width: Math.min(width, maxWidth), height: Math.min(height, maxHeight) };
+  }
+  if (width <= maxWidth && height <= maxHeight) {
+    return { width, height };
+  }
+
+  const ratio = Math.min(maxWidth / width, maxHeight / height);
+  return { width: Math.round(width * ratio), height: Math.round(height * ratio) };
+}
+
+/**
+ * Output dimensions of a pixel sample
+ */
+export function sampleDimensions(width: number, height: number, size: SampleSize): { width: number; height: number } {
+  return 'maxEdge' in size ? fitDimensions(width, height, size.maxEdge, size.maxEdge, true) : size;
+}
+
+/**
+ * Finds the highest quality, then the largest dimensions, that fit a byte target
+ *
+ * Deterministic for a given source and encoder:
+ * 1. Encode at `quality`; done if it fits.
+ * 2. Encode at `minQuality`; if it fits, binary-search the highest fitting
+ *    quality in between (to QUALITY_PRECISION).
+ * 3. Otherwise scale the dimensions by the estimated byte ratio (bytes grow
+ *    roughly with pixel count, so by its square root, clamped to 0.5-0.9) and
+ *    repeat, at most MAX_DIMENSION_STEPS times and not below MIN_TARGET_EDGE.
+ *
+ * The source is decoded once by the caller; `encode` only redraws and encodes.
+ *
+ * @returns The best fitting attempt, or the smallest attempt with withinTarget false
+ */
+export async function searchSizeTarget(
+  width: number,
+  height: number,
+  target: SizeTarget,
+  encode: SizeTargetEncoder
+): Promise<SizeTargetResult> {
+  let mimeType = target.mimeType;
+  const minQuality = Math.min(target.minQuality, target.quality);
+
+  const attempt = async (w: number, h: number, quality: number): Promise<EncodedImage> => {
+    const blob = await encode(w, h, quality, mimeType);
+    mimeType = blob.type || mimeType;
+    return { blob, width: w, height: h, quality };
+  };
+  const fits = (encoded: EncodedImage) => encoded.blob.size <= target.maxBytes;
+
+  let smallest: EncodedImage | null = null;
+
+  for (let step = 0; ; step++) {
+    const top = await attempt(width, height, target.quality);
+    if (fits(top)) {
+      return { ...top, withinTarget: true };
+    }
+
+    const floor = minQuality < target.quality ? await attempt(width, height, minQuality) : top;
+    if (fits(floor)) {
+      let best = floor;
+      let low = minQuality;
+      let high = target.quality;
+
+      while (high - low > QUALITY_PRECISION) {
+        const mid = Math.round(((low + high) / 2) * 100) / 100;
+        if (mid <= low || mid >= high) {
+          break;
+        }
+
+        const candidate = await attempt(width, height, mid);
+        if (fits(candidate)) {
+          best = candidate;
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      return { ...best, withinTarget: true };
+    }
+
+    if (!smallest || floor.blob.size < smallest.blob.size) {
+      smallest = floor;
+    }
+    if (step >= MAX_DIMENSION_STEPS || Math.max(width, height) <= MIN_TARGET_EDGE) {
+      return { ...smallest, withinTarget: false };
+    }
+
+    const scale = Math.min(0.9, Math.max(0.5, Math.sqrt(target.maxBytes / floor.blob.size) * 0.95));
+    width = Math.max(1, Math.round(width * scale));
+    height = Math.max(1, Math.round(height * scale));
+  }
+}
+
+/**
+ * Places the inset of a composite of width x height
+ *
+ * The inset is insetSize of the width, shrunk if a tall image would not fit the height.
+ *
+ * @param inset - Dimensions of the (upright) inset image
+ */
+export function compositeGeometry(
+  width: number,
+  height: number,
+  inset: { width: number; height: number },
+  layout: CompositeLayout
+): CompositeGeometry {
+  const gap = Math.round(width * layout.margin);
+  const scale = Math.min((width * layout.insetSize) / inset.width, Math.max(1, height - 2 * gap) / inset.height);
+  const insetWidth = Math.round(inset.width * scale);
+  const insetHeight = Math.round(inset.height * scale);
+
+  return {
+    width,
+    height,
+    gap,
+    inset: {
+      x: layout.corner.endsWith('left') ? gap : width - gap - insetWidth,
+      y: layout.corner.startsWith('top') ? gap : height - gap - insetHeight,
+      width: insetWidth,
+      height: insetHeight,
+      radius: Math.min(width * layout.radius, insetWidth / 2, insetHeight / 2),
+      border: width * layout.borderWidth
+    }
+  };
+}
+
+/**
+ * Draws a composite: main image, bordered inset and the text overlay
+ *
+ * Caption and timestamp go at the bottom over a dark gradient, on the side away
+ * from a bottom inset.
+ */
+export function drawComposite(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  main: CanvasImageSource,
+  inset: CanvasImageSource,
+  geometry: CompositeGeometry,
+  layout: CompositeLayout
+): void {
+  const { width, height, gap } = geometry;
+  const { x, y, radius, border } = geometry.inset;
+
+  ctx.drawImage(main, 0, 0, width, height);
+
+  if (border > 0) {
+    ctx.fillStyle = layout.borderColor;
+    ctx.beginPath();
+    ctx.roundRect(x - border, y - border, geometry.inset.width + 2 * border, geometry.inset.height + 2 * border, radius + border);
+    ctx.fill();
+  }
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(x, y, geometry.inset.width, geometry.inset.height, radius);
+  ctx.clip();
+  ctx.drawImage(inset, x, y, geometry.inset.width, geometry.inset.height);
+  ctx.restore();
+
+  if (layout.lines.length === 0) {
+    return;
+  }
+
+  // Text stays clear of an inset in a bottom corner
+  const insetBelow = layout.corner.startsWith('bottom');
+  const alignRight = layout.corner === 'bottom-left';
+  const textWidth = width - 2 * gap - (insetBelow ? geometry.inset.width + gap : 0);
+  const blockHeight = layout.lines.reduce((sum, line) => sum + Math.round(width * line.size * 1.3), 0);
+
+  const gradient = ctx.createLinearGradient(0, height - blockHeight - 2 * gap, 0, height);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0.5)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, height - blockHeight - 2 * gap, width, blockHeight + 2 * gap);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = alignRight ? 'right' : 'left';
+  ctx.textBaseline = 'bottom';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = width * 0.006;
+
+  let baseline = height - gap - blockHeight;
+  for (const line of layout.lines) {
+    baseline += Math.round(width * line.size * 1.3);
+    ctx.font = `${line.weight} ${Math.round(width * line.size)}px system-ui, -apple-system, sans-serif`;
+    ctx.fillText(fitText(ctx, line.text, textWidth), alignRight ? width - gap : gap, baseline);
+  }
+}
+
+/**
+ * Shortens text with an ellipsis until it fits maxWidth in the current font
+ */
+function fitText(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) {
+    return text;
+  }
+
+  let length = text.length;
+  while (length > 0 && ctx.measureText(`${text.slice(0, length).trimEnd()}…`).width > maxWidth) {
+    length--;
+  }
+  return `${text.slice(0, length).trimEnd()}…`;
+}
+
+async function decode(file: Blob): Promise<ImageBitmap> {
+  if (isHeicFile(file)) {
+    return createImageBitmap(await decodeHeic(file));
+  }
+
+  try {
+    return await createImageBitmap(file);
+  } catch {
+    throw new Error('Failed to load image');
+  }
+}
+
+async function compress(bitmap: ImageBitmap, options: CompressionOptions): Promise<SizeTargetResult> {
+  const {
+    maxWidth = 1920,
+    maxHeight = 1920,
+    quality = 0.85,
+    maxSizeMB = 1.5,
+    minQuality = 0.5,
+    mimeType = 'image/jpeg',
+    formats,
+    maintainAspectRatio = true
+  } = options;
+
+  const { width, height } = fitDimensions(bitmap.width, bitmap.height, maxWidth, maxHeight, maintainAspectRatio);
+  const target = { maxBytes: maxSizeMB * 1024 * 1024, quality, minQuality, mimeType };
+
+  return searchSizeTarget(width, height, target, (w, h, q, type) => {
+    const canvas = new OffscreenCanvas(w, h);
+    context(canvas).drawImage(bitmap, 0, 0, w, h);
+    return encode(canvas, type, q, formats);
+  });
+}
+
+async function resize(
+  bitmap: ImageBitmap,
+  targetWidth: number,
+  targetHeight: number,
+  options: ResizeOptions
+): Promise<EncodedImage> {
+  const { fit = 'cover', quality = 0.92, mimeType = 'image/jpeg', formats } = options;
+  const canvas = new OffscreenCanvas(targetWidth, targetHeight);
+  const ctx = context(canvas);
+
+  if (fit === 'cover') {
+    // Object-fit: cover logic (crop to fill)
+    const sourceRatio = bitmap.width / bitmap.height;
+    const targetRatio = targetWidth / targetHeight;
+    const sWidth = sourceRatio > targetRatio ? Math.round(bitmap.height * targetRatio) : bitmap.width;
+    const sHeight = sourceRatio > targetRatio ? bitmap.height : Math.round(bitmap.width / targetRatio);
+    const sx = Math.round((bitmap.width - sWidth) / 2);
+    const sy = Math.round((bitmap.height - sHeight) / 2);
+
+    ctx.drawImage(bitmap, sx, sy, sWidth, sHeight, 0, 0, targetWidth, targetHeight);
+  } else {
+    // Object-fit: contain logic
+    const ratio = Math.min(targetWidth / bitmap.width, targetHeight / bitmap.height);
+    const dWidth = Math.round(bitmap.width * ratio);
+    const dHeight = Math.round(bitmap.height * ratio);
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, targetWidth, targetHeight);
+    ctx.drawImage(bitmap, Math.round((targetWidth - dWidth) / 2), Math.round((targetHeight - dHeight) / 2), dWidth, dHeight);
+  }
+
+  const blob = await encode(canvas, mimeType, quality, formats);
+  return { blob, width: targetWidth, height: targetHeight, quality };
+}
+
+function sample(bitmap: ImageBitmap, size: SampleSize): ImageSample {
+  const { width, height } = sampleDimensions(bitmap.width, bitmap.height, size);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = context(canvas);
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return { width, height, data: ctx.getImageData(0, 0, width, height).data };
+}
+
+/**
+ * Decodes both images one after the other, each scaled down to its size in the
+ * composite right away, so at most one full-size decode is held at a time
+ */
+async function composite(mainFile: Blob, insetFile: Blob, layout: CompositeLayout): Promise<EncodedImage> {
+  const main = await decodeScaled(mainFile, (w, h) => fitDimensions(w, h, layout.maxSize, layout.maxSize, true));
+  const inset = await decodeScaled(insetFile, (w, h) => compositeGeometry(main.width, main.height, { width: w, height: h }, layout).inset);
+  // The inset already has its drawn size, so this gives the same placement (to a pixel)
+  const geometry = compositeGeometry(main.width, main.height, inset, layout);
+
+  const canvas = new OffscreenCanvas(main.width, main.height);
+  drawComposite(context(canvas), main, inset, geometry, layout);
+
+  const blob = await encode(canvas, layout.mimeType, layout.quality);
+  return { blob, width: main.width, height: main.height, quality: layout.quality };
+}
+
+/**
+ * Decodes an image and keeps only a copy at the size picked by `fit`
+ */
+async function decodeScaled(
+  file: Blob,
+  fit: (width: number, height: number) => { width: number; height: number }
+): Promise<OffscreenCanvas> {
+  const bitmap = await decode(file);
+
+  try {
+    const { width, height } = fit(bitmap.width, bitmap.height);
+    const canvas = new OffscreenCanvas(Math.max(1, width), Math.max(1, height));
+    context(canvas).drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+}
+
+function context(canvas: OffscreenCanvas): OffscreenCanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return ctx;
+}
+
+let supportedFormats: Promise<string[]> | null = null;
+
+/**
+ * Formats convertToBlob can encode here (unsupported types come back as PNG)
+ */
+function detectFormats(): Promise<string[]> {
+  if (!supportedFormats) {
+    supportedFormats = (async () => {
+      const canvas = new OffscreenCanvas(1, 1);
+      context(canvas).fillRect(0, 0, 1, 1);
+
+      const supported: string[] = [];
+      for (const type of NEGOTIABLE_FORMATS) {
+        const blob = await canvas.convertToBlob({ type, quality: 0.8 }).catch(() => null);
+        if (blob?.type === type) {
+          supported.push(type);
+        }
+      }
+      return supported.includes('image/jpeg') ? supported : [...supported, 'image/jpeg'];
+    })();
+  }
+  return supportedFormats;
+}
+
+/**
+ * Encodes with mimeType, or with the smallest encodable candidate for 'auto'
+ */
+async function encode(
+  canvas: OffscreenCanvas,
+  mimeType: string,
+  quality: number,
+  formats: string[] = NEGOTIABLE_FORMATS
+): Promise<Blob> {
+  const toBlob = async (type: string) => {
+    try {
+      return await canvas.convertToBlob({ type, quality });
+    } catch {
+      throw new Error('Failed to create blob from canvas');
+    }
+  };
+
+  if (mimeType !== 'auto') {
+    return toBlob(mimeType);
+  }
+
+  const supported = await detectFormats();
+  const candidates = formats.filter((type) => supported.includes(type));
+  let smallest: Blob | null = null;
+
+  for (const type of candidates.length > 0 ? candidates : ['image/jpeg']) {
+    const blob = await toBlob(type);
+    if (!smallest || blob.size < smallest.size) {
+      smallest = blob;
+    }
+  }
+
+  return smallest as Blob;
+}
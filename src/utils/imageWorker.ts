@@ -0,0 +1,21 @@
+/**
+ * Image worker entry (started by imageWorkerPool.ts)
+ *
+ * Receives one PipelineTask per message and posts back an ImageWorkerReply.
+ */
+import { runPipelineTask } from './imagePipeline';
+import type { PipelineTask } from './imagePipeline';
+import type { ImageWorkerReply } from './imageWorkerPool';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PipelineTask>) => void) | null;
+  postMessage: (reply: ImageWorkerReply) => void;
+};
+
+scope.onmessage = async (event) => {
+  try {
+    scope.postMessage({ result: await runPipelineTask(event.data) });
+  } catch (error) {
+    scope.postMessage({ error: error instanceof Error ? error.message : 'Image processing failed' });
+  }
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ImageWorkerPool, ImageWorkerUnavailableError } from './imageWorkerPool';
+import type { ImageWorkerReply } from './imageWorkerPool';
+import type { PipelineTask } from './imagePipeline';
+
+/**
+ * Worker stand-in that records posted tasks and replies or crashes on demand
+ */
+class FakeWorker {
+  readonly posted: PipelineTask[] = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent<ImageWorkerReply>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  postMessage(task: PipelineTask): void {
+    this.posted.push(task);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  reply(data: ImageWorkerReply): void {
+    this.onmessage?.({ data } as MessageEvent<ImageWorkerReply>);
+  }
+
+  crash(message: string): ErrorEvent {
+    const event = { message, preventDefault: vi.fn() } as unknown as ErrorEvent;
+    this.onerror?.(event);
+    return event;
+  }
+}
+
+const createPool = (size: number) => {
+  const workers: FakeWorker[] = [];
+  const pool = new ImageWorkerPool(size, () => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  });
+  return { pool, workers };
+};
+
+const task = (id: number): PipelineTask => ({ type: 'info', file: new Blob([String(id)]) });
+
+describe('ImageWorkerPool', () => {
+  it('starts workers on demand and runs at most size tasks at once', () => {
+    const { pool, workers } = createPool(2);
+
+    expect(workers).toHaveLength(0);
+    for (let id = 0; id < 5; id++) {
+      void pool.run(task(id));
+    }
+
+    expect(workers).toHaveLength(2);
+    expect(workers.map((worker) => worker.posted.length)).toEqual([1, 1]);
+  });
+
+  it('hands queued tasks to free workers in FIFO order', async () => {
+    const { pool, workers } = createPool(2);
+    const tasks = [0, 1, 2, 3].map(task);
+    const results = tasks.map((entry) => pool.run(entry));
+
+    workers[1].reply({ result: { width: 1, height: 1 } });
+    workers[0].reply({ result: { width: 0, height: 0 } });
+
+    expect(workers[1].posted).toEqual([tasks[1], tasks[2]]);
+    expect(workers[0].posted).toEqual([tasks[0], tasks[3]]);
+    await expect(results[0]).resolves.toEqual({ width: 0, height: 0 });
+    await expect(results[1]).resolves.toEqual({ width: 1, height: 1 });
+  });
+
+  it('rejects a task with the error the worker replied and keeps going', async () => {
+    const { pool, workers } = createPool(1);
+    const failing = pool.run(task(0));
+    const next = pool.run(task(1));
+
+    workers[0].reply({ error: 'Image compression failed: cannot decode' });
+    await expect(failing).rejects.toThrow('Image compression failed: cannot decode');
+    expect(pool.available).toBe(true);
+
+    workers[0].reply({ result: { width: 2, height: 2 } });
+    await expect(next).resolves.toEqual({ width: 2, height: 2 });
+  });
+
+  it('rejects running and queued tasks and stays unavailable once a worker crashes', async () => {
+    const { pool, workers } = createPool(1);
+    const running = pool.run(task(0));
+    const queued = pool.run(task(1));
+
+    const event = workers[0].crash('Out of memory');
+
+    await expect(running).rejects.toBeInstanceOf(ImageWorkerUnavailableError);
+    await expect(queued).rejects.toThrow('Out of memory');
+    expect(event.preventDefault).toHaveBeenCalled();
+    expect(workers[0].terminated).toBe(true);
+    expect(pool.available).toBe(false);
+    await expect(pool.run(task(2))).rejects.toBeInstanceOf(ImageWorkerUnavailableError);
+  });
+
+  it('is unavailable when a worker cannot be started', async () => {
+    const pool = new ImageWorkerPool(1, () => {
+      throw new Error('Blocked by Content-Security-Policy');
+    });
+
+    await expect(pool.run(task(0))).rejects.toThrow(new ImageWorkerUnavailableError('Blocked by Content-Security-Policy'));
+    expect(pool.available).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Bounded pool of image workers
+ *
+ * Each worker runs one pipeline task at a time; further tasks wait in a FIFO
+ * queue, so a batch of captures never decodes more images at once than there
+ * are workers. Workers are started on first use.
+ */
+import { supportsImagePipeline } from './imagePipeline';
+import type { PipelineResult, PipelineTask } from './imagePipeline';
+
+/**
+ * Reply posted by imageWorker.ts
+ */
+export type ImageWorkerReply =
+  | { result: PipelineResult }
+  | { error: string };
+
+/**
+ * Workers cannot be used (failed to load or crashed); callers fall back to the main thread
+ */
+export class ImageWorkerUnavailableError extends Error {
+  constructor(message: string = 'Image worker unavailable') {
+    super(message);
+    this.name = 'ImageWorkerUnavailableError';
+  }
+}
+
+interface QueuedTask {
+  task: PipelineTask;
+  resolve: (result: PipelineResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  current: QueuedTask | null;
+}
+
+export class ImageWorkerPool {
+  private readonly slots: WorkerSlot[] = [];
+  private readonly queue: QueuedTask[] = [];
+  private broken = false;
+
+  /**
+   * @param size - Maximum number of workers (and of tasks running at once)
+   * @param createWorker - Starts one worker
+   */
+  constructor(
+    readonly size: number,
+    private readonly createWorker: () => Worker
+  ) {}
+
+  /**
+   * False once a worker failed to load or crashed
+   */
+  get available(): boolean {
+    return !this.broken;
+  }
+
+  /**
+   * Queues a task
+   * @throws ImageWorkerUnavailableError if workers cannot be used, Error from the pipeline otherwise
+   */
+  run(task: PipelineTask): Promise<PipelineResult> {
+    if (this.broken) {
+      return Promise.reject(new ImageWorkerUnavailableError());
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task, resolve, reject });
+      this.drain();
+    });
+  }
+
+  /**
+   * Stops all workers and rejects queued tasks
+   */
+  terminate(): void {
+    this.fail(new ImageWorkerUnavailableError('Image worker pool terminated'));
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find((candidate) => !candidate.current);
+      if (!slot && this.slots.length < this.size) {
+        try {
+          slot = this.spawn();
+        } catch (error) {
+          // E.g. blocked by a Content-Security-Policy
+          this.fail(new ImageWorkerUnavailableError(error instanceof Error ? error.message : undefined));
+          return;
+        }
+      }
+      if (!slot) {
+        return;
+      }
+
+      const next = this.queue.shift() as QueuedTask;
+      slot.current = next;
+      slot.worker.postMessage(next.task);
+    }
+  }
+
+  private spawn(): WorkerSlot {
+    const slot: WorkerSlot = { worker: this.createWorker(), current: null };
+
+    slot.worker.onmessage = (event: MessageEvent<ImageWorkerReply>) => {
+      const task = slot.current;
+      slot.current = null;
+
+      if (task) {
+        const reply = event.data;
+        if ('error' in reply) {
+          task.reject(new Error(reply.error));
+        } else {
+          task.resolve(reply.result);
+        }
+      }
+      this.drain();
+    };
+
+    slot.worker.onerror = (event) => {
+      // Script failed to load or the worker crashed; don't report it as uncaught
+      event.preventDefault();
+      this.fail(new ImageWorkerUnavailableError(event.message || undefined));
+    };
+
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private fail(error: ImageWorkerUnavailableError): void {
+    this.broken = true;
+
+    for (const slot of this.slots.splice(0)) {
+      slot.worker.terminate();
+      slot.current?.reject(error);
+    }
+    for (const task of this.queue.splice(0)) {
+      task.reject(error);
+    }
+  }
+}
+
+let sharedPool: ImageWorkerPool | null | undefined;
+
+/**
+ * Shared pool used by compressImage, resizeImage and getImageInfo
+ *
+ * Sized to the CPU cores minus one for the UI thread (1-4 workers).
+ *
+ * @returns The pool, or null where Worker, OffscreenCanvas or createImageBitmap
+ * is missing or the workers failed to start
+ */
+export function getImageWorkerPool(): ImageWorkerPool | null {
+  if (sharedPool === undefined) {
+    const supported = typeof Worker !== 'undefined' && supportsImagePipeline();
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+
+    sharedPool = supported
+      ? new ImageWorkerPool(
+        Math.min(4, Math.max(1, cores - 1)),
+        () => new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' })
+      )
+      : null;
+  }
+
+  return sharedPool?.available ? sharedPool : null;
+}
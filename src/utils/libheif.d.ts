@@ -0,0 +1,5 @@
+// libheif-js ships typings for the raw emscripten module only
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  const createLibheif: () => unknown;
+  export default createLibheif;
+}
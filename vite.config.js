@@ -1,7 +1,21 @@
+import { fileURLToPath, URL } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  // The image worker lazy-loads the HEIC decoder, which needs an ES module worker
+  worker: {
+    format: 'es',
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.{js,ts}'],
+  },
 })